@@ -0,0 +1,445 @@
+/**
+ * Access matrix: who can do what on which table, summarized from policy definitions
+ */
+
+import { PolicyBuilder } from './policy-builder';
+import { SubqueryBuilder } from './subquery-builder';
+import { policyAppliesTo } from './evaluate';
+import { Literal, OuterReference, withOuterTable } from './sql';
+import { SQLExpression } from './types';
+import type {
+  ComparisonCondition,
+  Condition,
+  ContextValue,
+  FunctionCondition,
+  HelperCondition,
+  JsonCondition,
+  LogicalCondition,
+  MembershipCondition,
+  NullCondition,
+  PatternCondition,
+  PolicyDefinition,
+  SubqueryCondition,
+  SubqueryDefinition,
+} from './types';
+
+export type AccessOperation = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type AccessLevel = 'unconditional' | 'conditional' | 'denied';
+
+export interface AccessMatrixOptions {
+  /**
+   * Database roles to report on
+   * @default ['anon', 'authenticated']
+   */
+  roles?: string[];
+  /**
+   * Operations to report on
+   * @default ['SELECT', 'INSERT', 'UPDATE', 'DELETE']
+   */
+  operations?: AccessOperation[];
+  /**
+   * Tables to report on (defaults to every table the policies cover, in order of appearance)
+   */
+  tables?: string[];
+}
+
+export interface AccessCell {
+  table: string;
+  operation: AccessOperation;
+  role: string;
+  access: AccessLevel;
+  /** Human-readable condition (only for conditional access) */
+  summary?: string;
+  /** PERMISSIVE policies that can grant access */
+  permissive: string[];
+  /** RESTRICTIVE policies that further limit access */
+  restrictive: string[];
+}
+
+export interface AccessMatrix {
+  tables: string[];
+  operations: AccessOperation[];
+  roles: string[];
+  cells: AccessCell[];
+}
+
+// ─── Condition summaries ─────────────────────────────────────────────────────
+
+const OPERATOR_SYMBOLS: Record<ComparisonCondition['operator'], string> = {
+  eq: '=',
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return `'${value}'`;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof OuterReference) return value.column;
+  if (value instanceof Literal) return describeValue(value.value);
+  if (value instanceof SQLExpression) return value.toSQL();
+  if (Array.isArray(value)) return `(${value.map(describeValue).join(', ')})`;
+  if (typeof value === 'object' && (value as Condition).type === 'context') {
+    const ctx = value as ContextValue;
+    switch (ctx.contextType) {
+      case 'auth_uid':
+        return 'current user';
+      case 'auth_role':
+        return 'JWT role';
+      case 'auth_jwt':
+      case 'auth_jwt_array':
+        return ctx.jwtPath ? `JWT ${ctx.jwtPath}` : 'JWT';
+      case 'session':
+        return `session ${ctx.key}`;
+      case 'current_user':
+        return 'database role';
+      case 'now':
+        return ctx.interval ? `now - ${ctx.interval}` : 'now';
+    }
+  }
+  if (typeof value === 'object' && 'toSQL' in value)
+    return (value as Condition).toSQL();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeJson(c: JsonCondition): string {
+  const target = [c.column, ...c.path].join('.');
+  const keys = () => `(${(c.value as string[]).map(describeValue).join(', ')})`;
+  switch (c.operator) {
+    case 'null':
+    case 'not null':
+      return `${target} is ${c.operator}`;
+    case 'in':
+    case 'has any keys':
+    case 'has all keys':
+      return `${target} ${c.operator} ${keys()}`;
+    case 'contains':
+    case 'contained by':
+      return `${target} ${c.operator} ${JSON.stringify(c.value)}`;
+    case 'has key':
+    case 'path exists':
+    case 'path match':
+      return `${target} ${c.operator} ${describeValue(c.value)}`;
+    default:
+      return `${target} ${OPERATOR_SYMBOLS[c.operator]} ${describeValue(c.value)}`;
+  }
+}
+
+function describeSubquery(def: SubqueryDefinition, selected = true): string {
+  const select = Array.isArray(def.select) ? def.select.join(', ') : def.select;
+  const joins = (def.joins ?? (def.join ? [def.join] : []))
+    .map((j) => ` join ${j.table}`)
+    .join('');
+  const where = def.where ? ` where ${describeCondition(def.where)}` : '';
+  return `${def.from}${selected ? `.${select}` : ''}${joins}${where}`;
+}
+
+function describeNested(condition: Condition): string {
+  const text = describeCondition(condition);
+  return condition.type === 'logical' &&
+    (condition as LogicalCondition).operator !== 'NOT'
+    ? `(${text})`
+    : text;
+}
+
+/**
+ * Summarize a condition in plain language, e.g. `user_id = current user`
+ */
+export function describeCondition(condition: Condition): string {
+  switch (condition.type) {
+    case 'comparison': {
+      const c = condition as ComparisonCondition;
+      return `${c.column} ${OPERATOR_SYMBOLS[c.operator]} ${describeValue(c.value)}`;
+    }
+    case 'pattern': {
+      const c = condition as PatternCondition;
+      return `${c.column} ${c.operator} '${c.pattern}'`;
+    }
+    case 'membership': {
+      const c = condition as MembershipCondition;
+      const value = c.value as unknown;
+      if (value instanceof SubqueryBuilder)
+        return `${c.column} in ${describeSubquery(value.toSubquery())}`;
+      if (c.operator === 'contains value')
+        return `${c.column} contains ${describeValue(value)}`;
+      if (c.operator !== 'in')
+        return `${c.column} ${c.operator} ${describeValue(value)}`;
+      return `${c.column} in ${describeValue(value)}`;
+    }
+    case 'subquery': {
+      const c = condition as SubqueryCondition;
+      if (c.operator === 'exists' || c.operator === 'not exists')
+        return `${c.operator} ${describeSubquery(c.subquery, false)}`;
+      return `${c.column} ${c.operator} ${describeSubquery(c.subquery)}`;
+    }
+    case 'json':
+      return describeJson(condition as JsonCondition);
+    case 'null': {
+      const c = condition as NullCondition;
+      return `${c.column} is ${c.value === 'not null' ? 'not null' : 'null'}`;
+    }
+    case 'logical': {
+      const c = condition as LogicalCondition;
+      if (c.operator === 'NOT')
+        return `not (${describeCondition(c.conditions[0])})`;
+      return c.conditions
+        .map(describeNested)
+        .join(c.operator === 'AND' ? ' and ' : ' or ');
+    }
+    case 'function': {
+      const c = condition as FunctionCondition;
+      const args = c.arguments.map((arg) =>
+        typeof arg === 'string' ? arg : describeValue(arg)
+      );
+      return `${c.functionName}(${args.join(', ')})`;
+    }
+    case 'helper': {
+      const c = condition as HelperCondition;
+      if (c.helperType === 'alwaysTrue') return 'always';
+      if (c.helperType === 'hasRole') return `user has role '${c.params.role}'`;
+      if (c.helperType === 'isMemberOf') {
+        const { localKey, joinTable, foreignKey, userIdColumn } = c.params;
+        return `${localKey} in ${joinTable}.${foreignKey} where ${userIdColumn} = current user`;
+      }
+      return c.toSQL();
+    }
+    default:
+      return condition.toSQL();
+  }
+}
+
+// ─── Matrix ──────────────────────────────────────────────────────────────────
+
+function isAlwaysTrue(condition: Condition): boolean {
+  return (
+    condition.type === 'helper' &&
+    (condition as HelperCondition).helperType === 'alwaysTrue'
+  );
+}
+
+// Clauses Postgres checks for an operation, e.g. the old row (USING) and new row (WITH CHECK) on UPDATE
+const OPERATION_CLAUSES: Record<AccessOperation, ('using' | 'withCheck')[]> = {
+  SELECT: ['using'],
+  INSERT: ['withCheck'],
+  UPDATE: ['using', 'withCheck'],
+  DELETE: ['using'],
+};
+
+function clauseOf(
+  def: PolicyDefinition,
+  clause: 'using' | 'withCheck'
+): Condition | undefined {
+  return clause === 'using' ? def.using : (def.withCheck ?? def.using);
+}
+
+// Clauses a RESTRICTIVE policy adds for an operation; a missing clause restricts nothing
+function restrictiveClauses(
+  def: PolicyDefinition,
+  operation: AccessOperation
+): Condition[] {
+  const clauses = OPERATION_CLAUSES[operation]
+    .map((clause) => clauseOf(def, clause))
+    .filter((c): c is Condition => c !== undefined);
+  const text = (c: Condition) => withOuterTable(def.table, () => c.toSQL());
+  // Skip a WITH CHECK identical to USING so summaries don't repeat it
+  return clauses.filter(
+    (c, i) =>
+      !isAlwaysTrue(c) && clauses.findIndex((o) => text(o) === text(c)) === i
+  );
+}
+
+function describeClauses(clauses: Condition[]): string {
+  return clauses
+    .map((c) => (clauses.length > 1 ? describeNested(c) : describeCondition(c)))
+    .join(' and ');
+}
+
+function isCompound(clauses: Condition[]): boolean {
+  return clauses.length > 1 || clauses[0]?.type === 'logical';
+}
+
+function cellFor(
+  defs: PolicyDefinition[],
+  table: string,
+  operation: AccessOperation,
+  role: string
+): AccessCell {
+  const applicable = defs.filter((def) =>
+    policyAppliesTo(def, table, operation, role)
+  );
+  const permissive = applicable.filter(
+    (def) => (def.type ?? 'PERMISSIVE') === 'PERMISSIVE'
+  );
+  // Like evaluate(), each clause is ORed across the permissive policies on its own, so
+  // one policy may supply USING and another WITH CHECK
+  const grants = OPERATION_CLAUSES[operation].map((clause) =>
+    permissive.flatMap((def) => {
+      const condition = clauseOf(def, clause);
+      return condition ? [{ def, condition }] : [];
+    })
+  );
+  const granted = grants.every((g) => g.length > 0);
+  const restricting = applicable
+    .filter((def) => def.type === 'RESTRICTIVE')
+    .map((def) => ({ def, clauses: restrictiveClauses(def, operation) }))
+    .filter((p) => p.clauses.length > 0);
+
+  const cell: AccessCell = {
+    table,
+    operation,
+    role,
+    access: 'denied',
+    permissive: granted
+      ? permissive
+          .filter((def) => grants.some((g) => g.some((a) => a.def === def)))
+          .map((def) => def.name)
+      : [],
+    restrictive: restricting.map((p) => p.def.name),
+  };
+  if (!granted) return cell;
+
+  const open = grants.map((g) => g.some((a) => isAlwaysTrue(a.condition)));
+  if (open.every(Boolean) && restricting.length === 0) {
+    cell.access = 'unconditional';
+    return cell;
+  }
+
+  // Each part is ANDed with the others; `compound` parts need parentheses when combined
+  const parts: { text: string; compound: boolean }[] = [];
+  const described = new Set<string>();
+  grants.forEach((g, i) => {
+    if (open[i]) return;
+    const alternatives = [
+      ...new Set(g.map((a) => describeCondition(a.condition))),
+    ];
+    // Skip a WITH CHECK that repeats USING
+    const key = [...alternatives].sort().join('\n');
+    if (described.has(key)) return;
+    described.add(key);
+    parts.push(
+      alternatives.length === 1
+        ? { text: alternatives[0], compound: isCompound([g[0].condition]) }
+        : {
+            text: alternatives.map((a) => `(${a})`).join(' or '),
+            compound: true,
+          }
+    );
+  });
+  for (const p of restricting) {
+    parts.push({
+      text: describeClauses(p.clauses),
+      compound: isCompound(p.clauses),
+    });
+  }
+
+  cell.access = 'conditional';
+  cell.summary =
+    parts.length === 1
+      ? parts[0].text
+      : parts.map((p) => (p.compound ? `(${p.text})` : p.text)).join(' and ');
+  return cell;
+}
+
+/**
+ * Build a table × operation × role grid of what each role can do.
+ *
+ * Follows Postgres' combination rules: a role needs at least one applicable PERMISSIVE
+ * policy, and every applicable RESTRICTIVE policy narrows access further. A cell is
+ * `unconditional` when a permissive policy always passes and nothing restricts it,
+ * `conditional` (with a plain-language summary) otherwise, and `denied` when no
+ * permissive policy applies.
+ *
+ * @example
+ * ```typescript
+ * const matrix = accessMatrix(policies.owned({ tables: ['documents'] }), {
+ *   roles: ['anon', 'authenticated'],
+ * });
+ * console.log(accessMatrixToMarkdown(matrix));
+ * // | Table | Operation | anon | authenticated |
+ * // | --- | --- | --- | --- |
+ * // | documents | SELECT | denied | if user_id = current user |
+ * ```
+ */
+export function accessMatrix(
+  policies: (PolicyBuilder | PolicyDefinition)[],
+  options: AccessMatrixOptions = {}
+): AccessMatrix {
+  const defs = policies.map((p) =>
+    p instanceof PolicyBuilder ? p.toDefinition() : p
+  );
+  const roles = options.roles ?? ['anon', 'authenticated'];
+  const operations = options.operations ?? [
+    'SELECT',
+    'INSERT',
+    'UPDATE',
+    'DELETE',
+  ];
+  const tables = options.tables ?? [...new Set(defs.map((def) => def.table))];
+
+  const cells = tables.flatMap((table) =>
+    operations.flatMap((operation) =>
+      roles.map((role) => cellFor(defs, table, operation, role))
+    )
+  );
+  return { tables, operations, roles, cells };
+}
+
+function cellText(cell: AccessCell): string {
+  if (cell.access === 'unconditional') return 'allowed';
+  if (cell.access === 'denied') return 'denied';
+  return `if ${cell.summary}`;
+}
+
+/**
+ * Render an access matrix as a Markdown table (one row per table and operation, one column per role)
+ */
+export function accessMatrixToMarkdown(matrix: AccessMatrix): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  const lines = [
+    `| Table | Operation | ${matrix.roles.map(escape).join(' | ')} |`,
+    `| --- | --- | ${matrix.roles.map(() => '---').join(' | ')} |`,
+  ];
+  for (const table of matrix.tables) {
+    for (const operation of matrix.operations) {
+      const row = matrix.roles.map((role) => {
+        const cell = matrix.cells.find(
+          (c) =>
+            c.table === table && c.operation === operation && c.role === role
+        );
+        return cell ? escape(cellText(cell)) : '';
+      });
+      lines.push(`| ${escape(table)} | ${operation} | ${row.join(' | ')} |`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render an access matrix as CSV, one line per cell
+ */
+export function accessMatrixToCSV(matrix: AccessMatrix): string {
+  const field = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = ['table,operation,role,access,summary,permissive,restrictive'];
+  for (const cell of matrix.cells) {
+    lines.push(
+      [
+        cell.table,
+        cell.operation,
+        cell.role,
+        cell.access,
+        cell.summary ?? '',
+        cell.permissive.join(';'),
+        cell.restrictive.join(';'),
+      ]
+        .map(field)
+        .join(',')
+    );
+  }
+  return lines.join('\n');
+}
@@ -1,6 +1,39 @@
-import { PolicyBuilder, collectUniqueIndexStatements } from './policy-builder';
-import type { PolicyDefinition, SQLGenerationOptions } from './types';
-import { escapeIdentifier } from './sql';
+import {
+  PolicyBuilder,
+  collectUniqueIndexStatements,
+  createPolicySQL,
+  alterPolicySQL,
+  dropPolicySQL,
+  SUPABASE_MANAGED_TABLES,
+} from './policy-builder';
+import type { PolicyDefinition, PolicyOperation, SQLGenerationOptions } from './types';
+import { escapeIdentifier, escapeValue } from './sql';
+import { GrantBuilder, grantsToSQL } from './grants';
+
+/**
+ * How existing policies are replaced. Implies `idempotent`; setting it with
+ * `idempotent: false` throws.
+ * - `recreate`: DROP POLICY IF EXISTS then CREATE POLICY (default)
+ * - `alter`: ALTER POLICY in place when the policy already exists with the same command and
+ *   type, so the table is never left without the policy; otherwise DROP + CREATE
+ */
+export type PolicyApplyStrategy = 'alter' | 'recreate';
+
+export type ApplyPoliciesOptions = SQLGenerationOptions & {
+  idempotent?: boolean;
+  strategy?: PolicyApplyStrategy;
+  /** Table / column privileges applied after enabling RLS and before the policies */
+  grants?: GrantBuilder[];
+};
+
+// pg_policy.polcmd codes
+const POLCMD: Record<PolicyOperation, string> = {
+  SELECT: 'r',
+  INSERT: 'a',
+  UPDATE: 'w',
+  DELETE: 'd',
+  ALL: '*',
+};
 
 export function enableRLS(tables: string | string[], options?: { force?: boolean }): string {
   const list = Array.isArray(tables) ? tables : [tables];
@@ -24,36 +57,82 @@ function resolveBuilders(builders: PolicyBuilder[]): { defs: PolicyDefinition[];
       const def = b.toDefinition();
       defs.push(def);
       resolved.push(b);
-      tables.add(def.table);
+      if (!SUPABASE_MANAGED_TABLES.has(def.table)) tables.add(def.table);
     } catch { /* incomplete builder */ }
   }
   return { defs, resolved, tables };
 }
 
+// A strategy only decides how existing policies are replaced, which needs the idempotent path
+function isIdempotent(opts: ApplyPoliciesOptions): boolean {
+  if (opts.idempotent === false && opts.strategy) {
+    throw new Error(
+      `strategy: '${opts.strategy}' replaces existing policies and can't be combined with idempotent: false`
+    );
+  }
+  return opts.idempotent !== false;
+}
+
+// ALTER when a policy with the same name, command and type exists (and no clause would be
+// dropped), else recreate. Runs as one DO block so the choice is made against the live catalog.
+function alterOrCreateSQL(def: PolicyDefinition): string {
+  const checks = [
+    `polrelid = ${escapeValue(escapeIdentifier(def.table))}::regclass`,
+    `polname = ${escapeValue(def.name)}`,
+    `polcmd = ${escapeValue(POLCMD[def.operation])}`,
+    def.type === 'RESTRICTIVE' ? 'NOT polpermissive' : 'polpermissive',
+  ];
+  if (!def.using) checks.push('polqual IS NULL');
+  if (!def.withCheck) checks.push('polwithcheck IS NULL');
+
+  return [
+    'DO $rowguard$',
+    'BEGIN',
+    `  IF EXISTS (SELECT 1 FROM pg_policy WHERE ${checks.join(' AND ')}) THEN`,
+    `    ${alterPolicySQL(def)};`,
+    '  ELSE',
+    `    ${dropPolicySQL(def)};`,
+    `    ${createPolicySQL(def)};`,
+    '  END IF;',
+    'END',
+    '$rowguard$;',
+  ].join('\n');
+}
+
 export function policiesToSQL(
   builders: PolicyBuilder[] | PolicyBuilder[][],
-  options?: SQLGenerationOptions & { idempotent?: boolean }
+  options?: ApplyPoliciesOptions
 ): string {
   const opts = { includeIndexes: true, ...options };
   const flat = flattenBuilders(builders);
-  const idempotent = opts.idempotent !== false;
+  const idempotent = isIdempotent(opts);
   const { defs, resolved, tables } = resolveBuilders(flat);
 
   const sections: string[] = [];
 
-  sections.push(`-- Enable RLS\n` + enableRLS([...tables]));
+  if (tables.size > 0) {
+    sections.push(`-- Enable RLS\n` + enableRLS([...tables]));
+  }
 
-  if (idempotent) {
-    sections.push(
-      `-- Drop existing policies\n` +
-      defs.map((def) => `DROP POLICY IF EXISTS ${escapeIdentifier(def.name)} ON ${escapeIdentifier(def.table)};`).join('\n')
-    );
+  if (opts.grants && opts.grants.length > 0) {
+    sections.push(`-- Privileges\n` + grantsToSQL(opts.grants).join('\n'));
   }
 
-  sections.push(`-- Create policies\n` + resolved.map((b) => b.toSQL() + ';').join('\n'));
+  if (idempotent && opts.strategy === 'alter') {
+    sections.push(`-- Create or alter policies\n` + defs.map(alterOrCreateSQL).join('\n'));
+  } else {
+    if (idempotent) {
+      sections.push(
+        `-- Drop existing policies\n` +
+        defs.map((def) => dropPolicySQL(def) + ';').join('\n')
+      );
+    }
+
+    sections.push(`-- Create policies\n` + resolved.map((b) => b.toSQL() + ';').join('\n'));
+  }
 
   if (opts.includeIndexes) {
-    const indexLines = collectUniqueIndexStatements(resolved);
+    const indexLines = collectUniqueIndexStatements(resolved, opts);
     if (indexLines.length > 0) {
       sections.push(`-- Create indexes\n` + indexLines.join('\n'));
     }
@@ -65,11 +144,11 @@ export function policiesToSQL(
 export async function applyPolicies(
   builders: PolicyBuilder[] | PolicyBuilder[][],
   client: { query(sql: string): Promise<unknown> },
-  options?: SQLGenerationOptions & { idempotent?: boolean }
+  options?: ApplyPoliciesOptions
 ): Promise<void> {
   const opts = { includeIndexes: true, ...options };
   const flat = flattenBuilders(builders);
-  const idempotent = opts.idempotent !== false;
+  const idempotent = isIdempotent(opts);
   const { defs, resolved, tables } = resolveBuilders(flat);
 
   await client.query('BEGIN');
@@ -77,15 +156,22 @@ export async function applyPolicies(
     for (const table of tables) {
       await client.query(`ALTER TABLE ${escapeIdentifier(table)} ENABLE ROW LEVEL SECURITY`);
     }
+    for (const stmt of grantsToSQL(opts.grants ?? [])) {
+      await client.query(stmt);
+    }
     for (let i = 0; i < defs.length; i++) {
       const def = defs[i];
       const b = resolved[i];
-      if (idempotent) {
-        await client.query(`DROP POLICY IF EXISTS ${escapeIdentifier(def.name)} ON ${escapeIdentifier(def.table)}`);
+      if (idempotent && opts.strategy === 'alter') {
+        await client.query(alterOrCreateSQL(def));
+      } else {
+        if (idempotent) {
+          await client.query(dropPolicySQL(def));
+        }
+        await client.query(b.toSQL());
       }
-      await client.query(b.toSQL());
-      if (opts.includeIndexes) {
-        for (const stmt of b.indexStatements()) {
+      if (opts.includeIndexes && !opts.concurrentIndexes) {
+        for (const stmt of b.indexStatements(opts)) {
           await client.query(stmt);
         }
       }
@@ -95,4 +181,11 @@ export async function applyPolicies(
     await client.query('ROLLBACK');
     throw err;
   }
+
+  // CREATE INDEX CONCURRENTLY cannot run inside a transaction block
+  if (opts.includeIndexes && opts.concurrentIndexes) {
+    for (const stmt of collectUniqueIndexStatements(resolved, opts)) {
+      await client.query(stmt);
+    }
+  }
 }
@@ -0,0 +1,798 @@
+/**
+ * Code generation: turn existing CREATE POLICY SQL into Rowguard TypeScript
+ */
+
+import { parsePolicies } from './parser';
+import { compareDefinitions } from './diff';
+import { PolicyBuilder } from './policy-builder';
+import { policies as templates } from './templates';
+import { Literal, OuterReference, sanitizePolicyName } from './sql';
+import { SubqueryBuilder } from './subquery-builder';
+import { SQLExpression } from './types';
+import type {
+  ComparisonCondition,
+  Condition,
+  ContextValue,
+  FunctionCondition,
+  HelperCondition,
+  JsonCondition,
+  JsonOperator,
+  LogicalCondition,
+  MembershipCondition,
+  NullCondition,
+  PatternCondition,
+  PolicyDefinition,
+  SubqueryCondition,
+  SubqueryDefinition,
+} from './types';
+
+export interface SqlToRowguardOptions {
+  /**
+   * Name of the exported array of policies
+   * @default 'rlsPolicies'
+   */
+  exportName?: string;
+  /**
+   * Replace groups of policies with `policies.*` template calls where they match exactly
+   * @default true
+   */
+  templates?: boolean;
+  /**
+   * Module the generated code imports from
+   * @default 'rowguard'
+   */
+  importFrom?: string;
+}
+
+type CrudOp = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+const CRUD_OPS: CrudOp[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'];
+
+// column().in() keeps the SubqueryBuilder itself as the membership value
+function subqueryOf(
+  value: MembershipCondition['value']
+): SubqueryDefinition | undefined {
+  const raw = value as unknown;
+  if (raw instanceof SubqueryBuilder) return raw.toSubquery();
+  if (typeof raw === 'object' && raw !== null && 'from' in raw)
+    return raw as SubqueryDefinition;
+  return undefined;
+}
+
+// Bare auth.uid() / auth.role() / auth.jwt() calls, which the builders wrap in a SELECT
+function bareAuthCall(value: unknown): 'uid' | 'role' | 'jwt' | undefined {
+  if (!(value instanceof SQLExpression)) return undefined;
+  const match = /^auth\.(uid|role|jwt)\(\)$/i.exec(
+    value.toSQL().replace(/\s+/g, '')
+  );
+  return match ? (match[1].toLowerCase() as 'uid' | 'role' | 'jwt') : undefined;
+}
+
+const MEMBERSHIP_METHODS: Record<MembershipCondition['operator'], string> = {
+  in: 'in',
+  contains: 'contains',
+  'contained by': 'containedBy',
+  'contains value': 'containsValue',
+  overlaps: 'overlaps',
+};
+
+const JSON_METHODS: Record<JsonOperator, string> = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  in: 'in',
+  null: 'isNull',
+  'not null': 'isNotNull',
+  contains: 'contains',
+  'contained by': 'containedBy',
+  'has key': 'hasKey',
+  'has any keys': 'hasAnyKey',
+  'has all keys': 'hasAllKeys',
+  'path exists': 'jsonPathExists',
+  'path match': 'jsonPathMatches',
+};
+
+const COLUMN_JSON_OPERATORS = new Set<JsonOperator>([
+  'has key',
+  'has any keys',
+  'has all keys',
+  'path exists',
+  'path match',
+]);
+
+// Thrown while emitting a condition that has no builder equivalent
+class UnsupportedCondition extends Error {}
+
+// ─── Code emission ───────────────────────────────────────────────────────────
+
+class CodeWriter {
+  readonly imports = new Set<string>();
+
+  use(name: string): string {
+    this.imports.add(name);
+    return name;
+  }
+
+  string(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+
+  list(values: unknown[]): string {
+    return `[${values.map((v) => this.value(v)).join(', ')}]`;
+  }
+
+  value(value: unknown): string {
+    if (value === null) return 'null';
+    if (typeof value === 'string') return this.string(value);
+    if (typeof value === 'number' || typeof value === 'boolean')
+      return String(value);
+    if (typeof value === 'bigint') return `${value}n`;
+    if (value instanceof Date)
+      return `new Date(${this.string(value.toISOString())})`;
+    const authCall = bareAuthCall(value);
+    if (authCall) return `${this.use('auth')}.${authCall}()`;
+    if (value instanceof OuterReference)
+      return `${this.use('outer')}(${this.string(value.column)})`;
+    if (value instanceof Literal)
+      return `${this.use('literal')}(${this.value(value.value)}, ${this.string(value.type)})`;
+    if (value instanceof SQLExpression)
+      return `${this.use('sql')}(${this.string(value.toSQL())})`;
+    if (Array.isArray(value)) return this.list(value);
+    if (typeof value === 'object' && (value as Condition).type === 'context') {
+      return this.context(value as ContextValue);
+    }
+    if (typeof value === 'object' && !('toSQL' in value))
+      return this.object(value as Record<string, unknown>);
+    throw new UnsupportedCondition();
+  }
+
+  // JSON objects, for jsonb containment
+  object(value: Record<string, unknown>): string {
+    const entries = Object.entries(value).map(
+      ([key, v]) =>
+        `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : this.string(key)}: ${this.value(v)}`
+    );
+    return entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`;
+  }
+
+  context(value: ContextValue): string {
+    switch (value.contextType) {
+      case 'auth_uid':
+        return `${this.use('auth')}.uid()`;
+      case 'auth_role':
+        return `${this.use('auth')}.role()`;
+      case 'auth_jwt':
+        return `${this.use('auth')}.jwt(${value.jwtPath ? this.string(value.jwtPath) : ''})`;
+      case 'auth_jwt_array':
+        return `${this.use('auth')}.jwtArray(${this.string(value.jwtPath!)})`;
+      case 'session':
+        return `${this.use('session')}.get(${this.string(value.key!)}, ${this.string(value.sessionType ?? 'text')})`;
+      case 'current_user':
+        return `${this.use('currentUser')}()`;
+      case 'now':
+        if (value.interval) throw new UnsupportedCondition();
+        return `${this.use('now')}()`;
+      default:
+        throw new UnsupportedCondition();
+    }
+  }
+
+  // Falls back to sqlCondition() for anything without a builder equivalent
+  condition(condition: Condition): string {
+    const imports = new Set(this.imports);
+    try {
+      return this.structuredCondition(condition);
+    } catch (err) {
+      if (!(err instanceof UnsupportedCondition)) throw err;
+      this.imports.clear();
+      imports.forEach((name) => this.imports.add(name));
+      return `${this.use('sqlCondition')}(${this.string(condition.toSQL())})`;
+    }
+  }
+
+  private column(name: string): string {
+    return `${this.use('column')}(${this.string(name)})`;
+  }
+
+  private structuredCondition(condition: Condition): string {
+    switch (condition.type) {
+      case 'comparison': {
+        const c = condition as ComparisonCondition;
+        const value = c.value as unknown;
+        const isUid =
+          (value as ContextValue | null)?.contextType === 'auth_uid' ||
+          bareAuthCall(value) === 'uid';
+        if (c.operator === 'eq' && isUid) {
+          return `${this.column(c.column)}.isOwner()`;
+        }
+        const ctx = value as ContextValue | null;
+        if (c.operator === 'gt' && ctx?.contextType === 'now' && ctx.interval) {
+          return `${this.column(c.column)}.within(${this.string(ctx.interval)})`;
+        }
+        return `${this.column(c.column)}.${c.operator}(${this.value(value)})`;
+      }
+      case 'pattern': {
+        const c = condition as PatternCondition;
+        return `${this.column(c.column)}.${c.operator}(${this.string(c.pattern)})`;
+      }
+      case 'membership': {
+        const c = condition as MembershipCondition;
+        if (
+          c.operator === 'contains' &&
+          (c.value as ContextValue | null)?.contextType === 'now' &&
+          !(c.value as ContextValue).interval
+        ) {
+          return `${this.column(c.column)}.containsNow()`;
+        }
+        const subquery = subqueryOf(c.value);
+        const arg = subquery ? this.subquery(subquery) : this.value(c.value);
+        const method = MEMBERSHIP_METHODS[c.operator];
+        return `${this.column(c.column)}.${method}(${arg})`;
+      }
+      case 'json': {
+        const c = condition as JsonCondition;
+        // Key and jsonpath checks on the column itself read best as column methods
+        const target =
+          c.path.length === 0 && COLUMN_JSON_OPERATORS.has(c.operator)
+            ? this.column(c.column)
+            : `${this.use('jsonPath')}(${[c.column, ...c.path].map((step) => this.value(step)).join(', ')})`;
+        const arg =
+          c.operator === 'null' || c.operator === 'not null'
+            ? ''
+            : this.value(c.value);
+        return `${target}.${JSON_METHODS[c.operator]}(${arg})`;
+      }
+      case 'subquery': {
+        const c = condition as SubqueryCondition;
+        if (c.operator === 'exists' || c.operator === 'not exists') {
+          const fn = c.operator === 'exists' ? 'exists' : 'notExists';
+          return `${this.use(fn)}(${this.subquery(c.subquery, false)})`;
+        }
+        const method = c.operator === 'in' ? 'in' : 'notIn';
+        return `${this.column(c.column)}.${method}(${this.subquery(c.subquery)})`;
+      }
+      case 'null': {
+        const c = condition as NullCondition;
+        return `${this.column(c.column)}.${c.value === 'not null' ? 'isNotNull' : 'isNull'}()`;
+      }
+      case 'logical': {
+        const c = condition as LogicalCondition;
+        if (c.operator === 'NOT')
+          return `${this.use('not')}(${this.condition(c.conditions[0])})`;
+        const method = c.operator === 'AND' ? 'and' : 'or';
+        const [first, ...rest] = c.conditions.map((inner) =>
+          this.condition(inner)
+        );
+        return rest.reduce((code, next) => `${code}.${method}(${next})`, first);
+      }
+      case 'function': {
+        const c = condition as FunctionCondition;
+        const args = c.arguments.map((arg) =>
+          typeof arg === 'string' ? this.string(arg) : this.value(arg)
+        );
+        return `${this.use('call')}(${this.string(c.functionName)}, [${args.join(', ')}])`;
+      }
+      case 'helper': {
+        const c = condition as HelperCondition;
+        if (c.helperType === 'alwaysTrue') return `${this.use('alwaysTrue')}()`;
+        if (c.helperType === 'hasRole') {
+          const table = c.params.userRolesTable;
+          const args = [this.string(String(c.params.role))];
+          if (table && table !== 'user_roles')
+            args.push(this.string(String(table)));
+          return `${this.use('hasRole')}(${args.join(', ')})`;
+        }
+        throw new UnsupportedCondition();
+      }
+      default:
+        throw new UnsupportedCondition();
+    }
+  }
+
+  // EXISTS ignores the select list, so it's left out when `selected` is false
+  private subquery(def: SubqueryDefinition, selected = true): string {
+    let code = `${this.use('from')}(${this.string(def.from)}${def.alias ? `, ${this.string(def.alias)}` : ''})`;
+    if (selected)
+      code += `.select(${Array.isArray(def.select) ? this.list(def.select) : this.string(def.select)})`;
+    for (const join of def.joins ?? (def.join ? [def.join] : [])) {
+      const args = [this.string(join.table), this.structuredCondition(join.on)];
+      if (join.type || join.alias) args.push(this.string(join.type ?? 'inner'));
+      if (join.alias) args.push(this.string(join.alias));
+      code += `.join(${args.join(', ')})`;
+    }
+    if (def.where) code += `.where(${this.structuredCondition(def.where)})`;
+    return code;
+  }
+
+  // { tables: ['a'], userColumn: 'owner_id' } — keys with undefined values are left out
+  config(entries: Record<string, string | undefined>): string {
+    const body = Object.entries(entries)
+      .filter(([, code]) => code !== undefined)
+      .map(([key, code]) => `${key}: ${code}`)
+      .join(', ');
+    return `{ ${body} }`;
+  }
+}
+
+function sameDefinition(a: PolicyDefinition, b: PolicyDefinition): boolean {
+  return a.table === b.table && compareDefinitions(a, b).length === 0;
+}
+
+function policyCode(def: PolicyDefinition, writer: CodeWriter): string[] {
+  const lines: string[] = [];
+  let name: string;
+  try {
+    name = sanitizePolicyName(def.name);
+  } catch {
+    name = def.name;
+  }
+  if (name !== def.name)
+    lines.push(`// Deployed as ${JSON.stringify(def.name)}`);
+
+  lines.push(`${writer.use('policy')}(${writer.string(def.name)})`);
+  lines.push(`  .on(${writer.string(def.table)})`);
+  lines.push(`  .for(${writer.string(def.operation)})`);
+  if (def.role) lines.push(`  .to(${writer.string(def.role)})`);
+  if (def.type === 'RESTRICTIVE') lines.push('  .restrictive()');
+
+  // Use .allow() when the clauses are exactly what it would set for this command
+  const allowed = def.using ?? def.withCheck;
+  const allowDef =
+    allowed &&
+    new PolicyBuilder('x')
+      .on(def.table)
+      .for(def.operation)
+      .allow(allowed)
+      .toDefinition();
+  if (
+    allowDef &&
+    compareDefinitions({ ...allowDef, role: def.role, type: def.type }, def)
+      .length === 0
+  ) {
+    lines.push(`  .allow(${writer.condition(allowed!)})`);
+  } else {
+    if (def.using) lines.push(`  .when(${writer.condition(def.using)})`);
+    if (def.withCheck)
+      lines.push(`  .withCheck(${writer.condition(def.withCheck)})`);
+  }
+  return lines;
+}
+
+// ─── Template recognition ────────────────────────────────────────────────────
+
+interface TemplateMatch {
+  template: keyof typeof templates;
+  /** Config code entries other than `tables` (undefined = template default) */
+  config: Record<string, string | undefined>;
+  consumed: PolicyDefinition[];
+}
+
+// Consume pool entries matching every policy the template generates, or nothing at all
+function claim(
+  pool: PolicyDefinition[],
+  generated: PolicyBuilder[]
+): PolicyDefinition[] | undefined {
+  const remaining = [...pool];
+  const consumed: PolicyDefinition[] = [];
+  for (const builder of generated) {
+    const def = builder.toDefinition();
+    const index = remaining.findIndex((candidate) =>
+      sameDefinition(def, candidate)
+    );
+    if (index === -1) return undefined;
+    consumed.push(remaining[index]);
+    remaining.splice(index, 1);
+  }
+  return consumed;
+}
+
+function ownerColumn(condition: Condition | undefined): string | undefined {
+  if (condition?.type !== 'comparison') return undefined;
+  const c = condition as ComparisonCondition;
+  const value = c.value as ContextValue | null;
+  return c.operator === 'eq' &&
+    value?.type === 'context' &&
+    value.contextType === 'auth_uid'
+    ? c.column
+    : undefined;
+}
+
+function roleArg(
+  role: string | undefined,
+  defaultRole: string,
+  writer: CodeWriter
+): string | undefined {
+  const value = role ?? 'public';
+  return value === defaultRole ? undefined : writer.string(value);
+}
+
+function opsArg(ops: CrudOp[], writer: CodeWriter): string | undefined {
+  return ops.length === CRUD_OPS.length ? undefined : writer.list(ops);
+}
+
+function columnArg(
+  name: string,
+  defaultName: string,
+  writer: CodeWriter
+): string | undefined {
+  return name === defaultName ? undefined : writer.string(name);
+}
+
+function sourceArg(
+  source: ContextValue,
+  writer: CodeWriter
+): string | undefined {
+  const isDefault =
+    source.contextType === 'session' &&
+    source.key === 'app.current_tenant_id' &&
+    source.sessionType === 'integer';
+  return isDefault ? undefined : writer.context(source);
+}
+
+function matchTenant(
+  table: string,
+  pool: PolicyDefinition[],
+  writer: CodeWriter
+): TemplateMatch | undefined {
+  for (const def of pool) {
+    if (
+      def.type !== 'RESTRICTIVE' ||
+      def.operation !== 'ALL' ||
+      def.using?.type !== 'comparison'
+    )
+      continue;
+    const using = def.using as ComparisonCondition;
+    const source = using.value as ContextValue | null;
+    if (using.operator !== 'eq' || source?.type !== 'context') continue;
+    const role = def.role ?? 'public';
+
+    const owners = pool
+      .map((p) => ownerColumn(p.using ?? p.withCheck))
+      .filter((c): c is string => !!c);
+    for (const userColumn of [...new Set(owners)]) {
+      const consumed = claim(
+        pool,
+        templates.tenant({
+          tables: [table],
+          column: using.column,
+          source,
+          userColumn,
+          role,
+        })
+      );
+      if (consumed) {
+        return {
+          template: 'tenant',
+          config: {
+            column: columnArg(using.column, 'tenant_id', writer),
+            source: sourceArg(source, writer),
+            userColumn: columnArg(userColumn, 'user_id', writer),
+            role: roleArg(role, 'authenticated', writer),
+          },
+          consumed,
+        };
+      }
+    }
+
+    const consumed = claim(
+      pool,
+      templates.tenant({
+        tables: [table],
+        column: using.column,
+        source,
+        ownerPolicies: false,
+        role,
+      })
+    );
+    if (consumed) {
+      return {
+        template: 'tenant',
+        config: {
+          column: columnArg(using.column, 'tenant_id', writer),
+          source: sourceArg(source, writer),
+          ownerPolicies: 'false',
+          role: roleArg(role, 'authenticated', writer),
+        },
+        consumed,
+      };
+    }
+  }
+  return undefined;
+}
+
+function matchShared(
+  table: string,
+  pool: PolicyDefinition[],
+  writer: CodeWriter
+): TemplateMatch | undefined {
+  for (const def of pool) {
+    if (def.operation !== 'SELECT' || def.using?.type !== 'logical') continue;
+    const using = def.using as LogicalCondition;
+    if (using.operator !== 'OR' || using.conditions.length !== 2) continue;
+    const userColumn = ownerColumn(using.conditions[0]);
+    const publicCheck = using.conditions[1] as ComparisonCondition;
+    if (
+      !userColumn ||
+      publicCheck.type !== 'comparison' ||
+      publicCheck.value !== true
+    )
+      continue;
+    const role = def.role ?? 'public';
+    const consumed = claim(
+      pool,
+      templates.shared({
+        tables: [table],
+        userColumn,
+        publicColumn: publicCheck.column,
+        role,
+      })
+    );
+    if (consumed) {
+      return {
+        template: 'shared',
+        config: {
+          userColumn: columnArg(userColumn, 'user_id', writer),
+          publicColumn: columnArg(publicCheck.column, 'is_public', writer),
+          role: roleArg(role, 'authenticated', writer),
+        },
+        consumed,
+      };
+    }
+  }
+  return undefined;
+}
+
+function matchOwned(
+  table: string,
+  pool: PolicyDefinition[],
+  writer: CodeWriter
+): TemplateMatch | undefined {
+  for (const def of pool) {
+    const userColumn = ownerColumn(def.using ?? def.withCheck);
+    if (!userColumn) continue;
+    const role = def.role ?? 'public';
+    // Commands that have a matching owner policy, in template order
+    const operations = CRUD_OPS.filter((op) =>
+      pool.some((p) =>
+        sameDefinition(
+          templates
+            .owned({ tables: [table], userColumn, operations: [op], role })[0]
+            .toDefinition(),
+          p
+        )
+      )
+    );
+    if (operations.length === 0) continue;
+    const consumed = claim(
+      pool,
+      templates.owned({ tables: [table], userColumn, operations, role })
+    );
+    if (consumed) {
+      return {
+        template: 'owned',
+        config: {
+          userColumn: columnArg(userColumn, 'user_id', writer),
+          operations: opsArg(operations, writer),
+          role: roleArg(role, 'authenticated', writer),
+        },
+        consumed,
+      };
+    }
+  }
+  return undefined;
+}
+
+function matchMembership(
+  table: string,
+  pool: PolicyDefinition[],
+  writer: CodeWriter
+): TemplateMatch | undefined {
+  for (const def of pool) {
+    const cond = def.using ?? def.withCheck;
+    if (cond?.type !== 'membership') continue;
+    const membership = cond as MembershipCondition;
+    const sub = subqueryOf(membership.value);
+    if (membership.operator !== 'in' || !sub) continue;
+    if (
+      sub.alias ||
+      sub.join ||
+      sub.joins?.length ||
+      typeof sub.select !== 'string'
+    )
+      continue;
+    const userColumn = ownerColumn(sub.where);
+    if (!userColumn) continue;
+
+    const role = def.role ?? 'public';
+    const config = {
+      tables: [table],
+      via: sub.from,
+      key: sub.select,
+      localColumn: membership.column,
+      userColumn,
+      role,
+    };
+    const operations = CRUD_OPS.filter((op) =>
+      pool.some((p) =>
+        sameDefinition(
+          templates
+            .membership({ ...config, operations: [op] })[0]
+            .toDefinition(),
+          p
+        )
+      )
+    );
+    const consumed = claim(
+      pool,
+      templates.membership({ ...config, operations })
+    );
+    if (consumed) {
+      return {
+        template: 'membership',
+        config: {
+          via: writer.string(sub.from),
+          key: writer.string(sub.select),
+          localColumn: columnArg(membership.column, 'id', writer),
+          userColumn: columnArg(userColumn, 'user_id', writer),
+          operations: opsArg(operations, writer),
+          role: roleArg(role, 'authenticated', writer),
+        },
+        consumed,
+      };
+    }
+  }
+  return undefined;
+}
+
+function matchOpen(
+  table: string,
+  pool: PolicyDefinition[],
+  writer: CodeWriter
+): TemplateMatch | undefined {
+  for (const def of pool) {
+    if (
+      def.operation !== 'SELECT' ||
+      (def.using as HelperCondition | undefined)?.helperType !== 'alwaysTrue'
+    )
+      continue;
+    const role = def.role ?? 'public';
+    const consumed = claim(pool, templates.open({ tables: [table], role }));
+    if (consumed) {
+      return {
+        template: 'open',
+        config: { role: roleArg(role, 'public', writer) },
+        consumed,
+      };
+    }
+  }
+  return undefined;
+}
+
+// Most specific first: tenant and shared include owner policies, which owned would otherwise claim
+const MATCHERS = [
+  matchTenant,
+  matchShared,
+  matchOwned,
+  matchMembership,
+  matchOpen,
+];
+
+function matchTemplates(
+  table: string,
+  defs: PolicyDefinition[],
+  writer: CodeWriter
+): TemplateMatch[] {
+  const pool = [...defs];
+  const matches: TemplateMatch[] = [];
+  for (const matcher of MATCHERS) {
+    let match: TemplateMatch | undefined;
+    while ((match = matcher(table, pool, writer))) {
+      matches.push(match);
+      for (const def of match.consumed) pool.splice(pool.indexOf(def), 1);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Generate Rowguard TypeScript from the CREATE POLICY statements in a SQL migration.
+ *
+ * Groups of policies that exactly match a template (`owned`, `shared`, `tenant`,
+ * `membership`, `open`) become `policies.*` calls; note templates use their own policy
+ * names. Everything else becomes a `policy()` builder, with conditions expressed through
+ * `column()` and friends and `sqlCondition()` for fragments that have no builder equivalent.
+ * Bare `auth.uid()` calls become `auth.uid()` / `isOwner()`, which render as
+ * `(SELECT auth.uid())` so Postgres evaluates them once per query instead of per row.
+ *
+ * @param migrationSql SQL script, e.g. the contents of `supabase/migrations/*.sql`
+ * @param options Export name, template recognition and import path
+ *
+ * @example
+ * ```typescript
+ * const code = sqlToRowguard(
+ *   'CREATE POLICY user_documents ON documents FOR SELECT USING (user_id = auth.uid());'
+ * );
+ * // import { column, policy } from 'rowguard';
+ * //
+ * // export const rlsPolicies = [
+ * //   policy('user_documents')
+ * //     .on('documents')
+ * //     .for('SELECT')
+ * //     .allow(column('user_id').isOwner()),
+ * // ];
+ * ```
+ */
+export function sqlToRowguard(
+  migrationSql: string,
+  options: SqlToRowguardOptions = {}
+): string {
+  const { exportName = 'rlsPolicies', importFrom = 'rowguard' } = options;
+  const defs = parsePolicies(migrationSql);
+  const writer = new CodeWriter();
+  const items: { index: number; lines: string[] }[] = [];
+  const claimed = new Set<PolicyDefinition>();
+
+  if (options.templates !== false) {
+    const grouped = new Map<
+      string,
+      { match: TemplateMatch; tables: string[]; index: number }
+    >();
+    for (const table of [...new Set(defs.map((d) => d.table))]) {
+      for (const match of matchTemplates(
+        table,
+        defs.filter((d) => d.table === table),
+        writer
+      )) {
+        match.consumed.forEach((def) => claimed.add(def));
+        const index = Math.min(
+          ...match.consumed.map((def) => defs.indexOf(def))
+        );
+        // Tables sharing an identical template config go into one call
+        const key = `${match.template}:${writer.config(match.config)}`;
+        const group = grouped.get(key);
+        if (group) {
+          group.tables.push(table);
+          group.match.consumed.push(...match.consumed);
+        } else {
+          grouped.set(key, { match, tables: [table], index });
+        }
+      }
+    }
+    for (const { match, tables, index } of grouped.values()) {
+      const config = writer.config({
+        tables: writer.list(tables),
+        ...match.config,
+      });
+      items.push({
+        index,
+        lines: [
+          `// Replaces ${match.consumed.map((def) => JSON.stringify(def.name)).join(', ')}`,
+          `...${writer.use('policies')}.${match.template}(${config})`,
+        ],
+      });
+    }
+  }
+
+  defs.forEach((def, index) => {
+    if (!claimed.has(def))
+      items.push({ index, lines: policyCode(def, writer) });
+  });
+  items.sort((a, b) => a.index - b.index);
+
+  const body = items.map(({ lines }) =>
+    lines
+      .map((line, i) => `  ${line}${i === lines.length - 1 ? ',' : ''}`)
+      .join('\n')
+  );
+  const imports = [...writer.imports].sort().join(', ');
+  return [
+    ...(imports ? [`import { ${imports} } from '${importFrom}';`, ''] : []),
+    `export const ${exportName} = [`,
+    ...body,
+    '];',
+    '',
+  ].join('\n');
+}
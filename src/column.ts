@@ -12,9 +12,11 @@ import {
   LogicalCondition,
   HelperCondition,
   FunctionCondition,
+  SubqueryCondition,
   SQLExpression,
+  JsonObject,
 } from './types';
-import { auth, session } from './context';
+import { auth, now, nowMinus, session } from './context';
 import {
   escapeIdentifier,
   escapeValue,
@@ -23,6 +25,7 @@ import {
 } from './sql';
 import { SubqueryBuilder } from './subquery-builder';
 import { from } from './subquery-builder';
+import { jsonPath } from './json';
 
 /**
  * Wrapper class that allows chaining conditions with .and() and .or()
@@ -81,6 +84,19 @@ export class ConditionChain {
     return this.chainWith(other, 'OR');
   }
 
+  /**
+   * Negate this condition
+   *
+   * @example
+   * ```typescript
+   * column('status').eq('archived').or(column('is_hidden').eq(true)).not()
+   * // NOT ("status" = 'archived' OR "is_hidden" = TRUE)
+   * ```
+   */
+  not(): ConditionChain {
+    return not(this);
+  }
+
   /**
    * Convert to Condition (for compatibility with existing API)
    */
@@ -125,6 +141,7 @@ export class ColumnBuilder {
     value:
       | string
       | number
+      | bigint
       | boolean
       | Date
       | null
@@ -151,6 +168,7 @@ export class ColumnBuilder {
     value:
       | string
       | number
+      | bigint
       | boolean
       | Date
       | null
@@ -178,6 +196,7 @@ export class ColumnBuilder {
     value:
       | string
       | number
+      | bigint
       | boolean
       | Date
       | null
@@ -204,6 +223,7 @@ export class ColumnBuilder {
     value:
       | string
       | number
+      | bigint
       | boolean
       | Date
       | null
@@ -230,6 +250,7 @@ export class ColumnBuilder {
     value:
       | string
       | number
+      | bigint
       | boolean
       | Date
       | null
@@ -256,6 +277,7 @@ export class ColumnBuilder {
     value:
       | string
       | number
+      | bigint
       | boolean
       | Date
       | null
@@ -269,6 +291,36 @@ export class ColumnBuilder {
     );
   }
 
+  /**
+   * Inclusive range check, rendered as `>=` and `<=` (how Postgres stores BETWEEN)
+   *
+   * @example
+   * ```typescript
+   * column('published_at').between(new Date('2024-01-01'), now())
+   * // ("published_at" >= '2024-01-01T00:00:00.000Z'::TIMESTAMP AND "published_at" <= now())
+   * ```
+   */
+  between(
+    low: string | number | bigint | Date | ContextValue | SQLExpression,
+    high: string | number | bigint | Date | ContextValue | SQLExpression
+  ): ConditionChain {
+    return this.gte(low).and(this.lte(high));
+  }
+
+  /**
+   * Timestamp is less than `interval` old: `> now() - interval '<interval>'`.
+   * `now()` is evaluated by Postgres, so the window moves with time.
+   *
+   * @example
+   * ```typescript
+   * column('created_at').within('7 days')
+   * // "created_at" > now() - interval '7 days'
+   * ```
+   */
+  within(interval: string): ConditionChain {
+    return this.gt(nowMinus(interval));
+  }
+
   /**
    * LIKE pattern matching (case-sensitive)
    *
@@ -328,11 +380,20 @@ export class ColumnBuilder {
    *     .select('project_id')
    *     .where(column('user_id').eq(auth.uid()))
    * )
+   *
+   * // Array claim in the JWT
+   * column('role').in(auth.jwtArray('app_metadata.roles'))
    * ```
    */
   in(
-    values: (string | number | boolean | Date | null)[] | SubqueryBuilder
+    values:
+      | (string | number | bigint | boolean | Date | null)[]
+      | SubqueryBuilder
+      | ContextValue
   ): ConditionChain {
+    if (!Array.isArray(values) && !(values instanceof SubqueryBuilder)) {
+      return this.anyOf(values);
+    }
     const colName = this.columnName;
     return new ConditionChain({
       type: 'membership',
@@ -353,8 +414,92 @@ export class ColumnBuilder {
     } as MembershipCondition);
   }
 
+  private anyOf(values: ContextValue): ConditionChain {
+    if (values.contextType !== 'auth_jwt_array') {
+      throw new Error(
+        'in() takes an array-valued context value such as auth.jwtArray(); use eq() for a single value'
+      );
+    }
+    const colName = this.columnName;
+    return new ConditionChain({
+      type: 'membership',
+      column: colName,
+      operator: 'in',
+      value: values,
+      toSQL(): string {
+        return `${escapeIdentifier(colName)} = ANY(${values.toSQL()})`;
+      },
+    } as MembershipCondition);
+  }
+
+  /**
+   * Array column contains the value: `value = ANY(column)`. The usual check for sharing
+   * through an array of user IDs on the row.
+   *
+   * @example
+   * ```typescript
+   * column('editor_ids').containsValue(auth.uid())
+   * // (SELECT auth.uid()) = ANY("editor_ids")
+   * ```
+   */
+  containsValue(
+    value: string | number | boolean | Date | ContextValue | SQLExpression
+  ): ConditionChain {
+    const colName = this.columnName;
+    return new ConditionChain({
+      type: 'membership',
+      column: colName,
+      operator: 'contains value',
+      value,
+      toSQL(): string {
+        return `${escapeValue(value)} = ANY(${escapeIdentifier(colName)})`;
+      },
+    } as MembershipCondition);
+  }
+
+  /**
+   * Array column shares at least one element with `values` (`&&`)
+   *
+   * @example
+   * ```typescript
+   * column('tags').overlaps(['urgent', 'security'])
+   * // "tags" && ARRAY['urgent', 'security']
+   * ```
+   */
+  overlaps(values: (string | number | boolean | Date)[]): ConditionChain {
+    const colName = this.columnName;
+    return new ConditionChain({
+      type: 'membership',
+      column: colName,
+      operator: 'overlaps',
+      value: values,
+      toSQL(): string {
+        if (values.length === 0) return 'FALSE';
+        return `${escapeIdentifier(colName)} && ${escapeValue(values)}`;
+      },
+    } as MembershipCondition);
+  }
+
   /**
-   * Contains operator (for arrays/JSONB)
+   * NOT IN subquery check. A NULL among the subquery's values makes the condition
+   * unknown for every row, so prefer `notExists()` when the selected column is nullable.
+   *
+   * @example
+   * ```typescript
+   * column('id').notIn(
+   *   from('blocked_projects')
+   *     .select('project_id')
+   *     .where(column('user_id').eq(auth.uid()))
+   * )
+   * ```
+   */
+  notIn(subquery: SubqueryBuilder): ConditionChain {
+    return subqueryCondition('not in', subquery, this.columnName);
+  }
+
+  /**
+   * Contains operator (for arrays/JSONB). Arrays render as `ARRAY[...]` and objects as
+   * `jsonb` literals; use `jsonPath(column).contains([...])` for a JSONB array.
    *
    * @example
    * ```typescript
@@ -363,6 +508,7 @@ export class ColumnBuilder {
    *
    * // Check if JSONB contains value
    * column('metadata').contains({ status: 'active' })
+   * // "metadata" @> '{"status":"active"}'::jsonb
    * ```
    */
   contains(
@@ -373,19 +519,107 @@ export class ColumnBuilder {
       | Date
       | null
       | (string | number | boolean | Date | null)[]
+      | JsonObject
+  ): ConditionChain {
+    return this.containment('contains', value);
+  }
+
+  /**
+   * Contained-by operator (`<@`), the reverse of `contains()`
+   *
+   * @example
+   * ```typescript
+   * // Every tag is one of the allowed ones
+   * column('tags').containedBy(['news', 'sports', 'weather'])
+   * ```
+   */
+  containedBy(
+    value: (string | number | boolean | Date | null)[] | JsonObject
+  ): ConditionChain {
+    return this.containment('contained by', value);
+  }
+
+  private containment(
+    operator: 'contains' | 'contained by',
+    value: MembershipCondition['value']
   ): ConditionChain {
     const colName = this.columnName;
     return new ConditionChain({
       type: 'membership',
       column: colName,
-      operator: 'contains',
+      operator,
       value,
       toSQL(): string {
-        return `${escapeIdentifier(colName)} @> ${escapeValue(value)}`;
+        const op = operator === 'contains' ? '@>' : '<@';
+        return `${escapeIdentifier(colName)} ${op} ${escapeValue(value as JsonObject)}`;
       },
     } as MembershipCondition);
   }
 
+  /**
+   * Range column (e.g. `tstzrange`) contains the current time: `@> now()`
+   *
+   * @example
+   * ```typescript
+   * column('valid_during').containsNow()
+   * // "valid_during" @> now()
+   * ```
+   */
+  containsNow(): ConditionChain {
+    return this.containment('contains', now());
+  }
+
+  /**
+   * JSONB object has the key, or JSONB array has the string element (`?`).
+   * Use `jsonPath()` to check keys of a nested object.
+   *
+   * @example
+   * ```typescript
+   * column('permissions').hasKey('admin')
+   * ```
+   */
+  hasKey(key: string): ConditionChain {
+    return jsonPath(this.columnName).hasKey(key);
+  }
+
+  /**
+   * JSONB object has at least one of the keys (`?|`)
+   */
+  hasAnyKey(keys: string[]): ConditionChain {
+    return jsonPath(this.columnName).hasAnyKey(keys);
+  }
+
+  /**
+   * JSONB object has every key (`?&`)
+   */
+  hasAllKeys(keys: string[]): ConditionChain {
+    return jsonPath(this.columnName).hasAllKeys(keys);
+  }
+
+  /**
+   * jsonpath expression returns at least one item for the JSONB column (`@?`)
+   *
+   * @example
+   * ```typescript
+   * column('metadata').jsonPathExists('$.reviewers[*] ? (@ == "alice")')
+   * ```
+   */
+  jsonPathExists(jsonpath: string): ConditionChain {
+    return jsonPath(this.columnName).jsonPathExists(jsonpath);
+  }
+
+  /**
+   * jsonpath predicate is true for the JSONB column (`@@`)
+   *
+   * @example
+   * ```typescript
+   * column('metadata').jsonPathMatches('$.priority >= 3')
+   * ```
+   */
+  jsonPathMatches(jsonpath: string): ConditionChain {
+    return jsonPath(this.columnName).jsonPathMatches(jsonpath);
+  }
+
   /**
    * IS NULL check
    *
@@ -581,11 +815,10 @@ export class ColumnBuilder {
 
   /**
    * Check if column (date) is less than or equal to a reference date
-   * @param referenceDate Optional reference date (defaults to current date)
+   * @param referenceDate Optional reference date (defaults to `now()` when the policy is checked)
    */
   releasedBefore(referenceDate?: Date): ConditionChain {
-    const date = referenceDate || new Date();
-    return this.lte(date);
+    return this.lte(referenceDate ?? now());
   }
 }
 
@@ -622,6 +855,105 @@ export function hasRole(
   } as HelperCondition);
 }
 
+function subqueryCondition(
+  operator: SubqueryCondition['operator'],
+  subquery: SubqueryBuilder,
+  colName = ''
+): ConditionChain {
+  const definition = subquery.toSubquery();
+  return new ConditionChain({
+    type: 'subquery',
+    column: colName,
+    operator,
+    subquery: definition,
+    toSQL(): string {
+      switch (operator) {
+        case 'exists':
+          return `EXISTS ${subqueryToSQL(definition, '1')}`;
+        case 'not exists':
+          return `NOT EXISTS ${subqueryToSQL(definition, '1')}`;
+        default:
+          return `${escapeIdentifier(colName)} ${operator.toUpperCase()} ${subqueryToSQL(definition)}`;
+      }
+    },
+  } as SubqueryCondition);
+}
+
+/**
+ * EXISTS check: true when the subquery returns at least one row. Use `outer()` to
+ * correlate it with the row the policy is checking.
+ *
+ * @example
+ * ```typescript
+ * policy('comments_read')
+ *   .on('comments')
+ *   .read()
+ *   .when(
+ *     exists(
+ *       from('posts').where(
+ *         column('posts.id').eq(outer('post_id')).and(column('posts.is_published').eq(true))
+ *       )
+ *     )
+ *   )
+ * ```
+ */
+export function exists(subquery: SubqueryBuilder): ConditionChain {
+  return subqueryCondition('exists', subquery);
+}
+
+/**
+ * NOT EXISTS check: true when the subquery returns no rows
+ *
+ * @example
+ * ```typescript
+ * policy('unblocked_profiles')
+ *   .on('profiles')
+ *   .read()
+ *   .when(
+ *     notExists(
+ *       from('blocks').where(
+ *         column('blocks.blocked_id').eq(auth.uid()).and(column('blocks.blocker_id').eq(outer('id')))
+ *       )
+ *     )
+ *   )
+ * ```
+ */
+export function notExists(subquery: SubqueryBuilder): ConditionChain {
+  return subqueryCondition('not exists', subquery);
+}
+
+/**
+ * Negate a condition. Negating a negation returns the original condition.
+ *
+ * @example
+ * ```typescript
+ * policy('visible_docs')
+ *   .on('documents')
+ *   .read()
+ *   .when(not(column('status').in(['archived', 'deleted'])))
+ * ```
+ */
+export function not(condition: Condition | ConditionChain): ConditionChain {
+  const inner =
+    condition instanceof ConditionChain ? condition.toCondition() : condition;
+  if (
+    inner.type === 'logical' &&
+    (inner as LogicalCondition).operator === 'NOT'
+  ) {
+    return new ConditionChain((inner as LogicalCondition).conditions[0]);
+  }
+  return new ConditionChain({
+    type: 'logical',
+    operator: 'NOT',
+    conditions: [inner],
+    toSQL(): string {
+      // AND / OR already render their own parentheses
+      const sql = inner.toSQL();
+      return inner.type === 'logical' ? `NOT ${sql}` : `NOT (${sql})`;
+    },
+  } as LogicalCondition);
+}
+
 /**
  * Helper function that always returns true (allows all access)
  * @returns A ConditionChain that can be chained with .and() or .or()
@@ -681,6 +1013,38 @@ export function call(
   } as FunctionCondition);
 }
 
+/**
+ * Wrap a raw SQL expression as a condition
+ *
+ * Used for USING / WITH CHECK bodies that have no structured equivalent,
+ * such as policies loaded from the database.
+ *
+ * @param expression Raw SQL boolean expression
+ * @returns A ConditionChain that can be chained with .and() or .or()
+ *
+ * @example
+ * ```typescript
+ * policy('legacy')
+ *   .on('documents')
+ *   .read()
+ *   .when(sqlCondition('is_visible(id)'))
+ * ```
+ */
+export function sqlCondition(
+  expression: string | SQLExpression
+): ConditionChain {
+  const text =
+    expression instanceof SQLExpression ? expression.toSQL() : expression;
+  return new ConditionChain({
+    type: 'helper',
+    helperType: 'raw',
+    params: {},
+    toSQL(): string {
+      return text;
+    },
+  } as HelperCondition);
+}
+
 /**
  * Create a column builder for fluent condition building
  * @param columnName The name of the column
@@ -104,7 +104,7 @@ export function policyGroupToSQL(
   sections.push(`-- Create policies\n` + group.policies.map((p) => p.toSQL() + ';').join('\n'));
 
   if (opts.includeIndexes) {
-    const indexLines = collectUniqueIndexStatements(group.policies);
+    const indexLines = collectUniqueIndexStatements(group.policies, opts);
     if (indexLines.length > 0) {
       sections.push(`-- Create indexes\n` + indexLines.join('\n'));
     }
@@ -138,9 +138,10 @@ export async function applyPolicyGroup(
   client: { query(sql: string): Promise<unknown> },
   options: SQLGenerationOptions = { includeIndexes: true }
 ): Promise<void> {
+  const deferIndexes = options.includeIndexes !== false && options.concurrentIndexes;
   await client.query('BEGIN');
   try {
-    for (const stmt of groupToStatements(group, options)) {
+    for (const stmt of groupToStatements(group, deferIndexes ? { ...options, includeIndexes: false } : options)) {
       await client.query(stmt);
     }
     await client.query('COMMIT');
@@ -148,12 +149,19 @@ export async function applyPolicyGroup(
     await client.query('ROLLBACK');
     throw err;
   }
+
+  // CREATE INDEX CONCURRENTLY cannot run inside a transaction block
+  if (deferIndexes) {
+    for (const stmt of collectUniqueIndexStatements(group.policies, options)) {
+      await client.query(stmt);
+    }
+  }
 }
 
 function groupToStatements(group: PolicyGroup, options?: SQLGenerationOptions): string[] {
   return group.policies.flatMap((p) => {
     const stmts = [p.toSQL()];
-    if (options?.includeIndexes !== false) stmts.push(...p.indexStatements());
+    if (options?.includeIndexes !== false) stmts.push(...p.indexStatements(options));
     return stmts;
   });
 }
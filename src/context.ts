@@ -16,11 +16,7 @@ export const auth = {
   },
 
   jwt(path?: string): ContextValue {
-    if (path && path.startsWith('user_metadata')) {
-      throw new Error(
-        `JWT path 'user_metadata.*' is unsafe for authorization. user_metadata is user-editable. Use 'app_metadata' instead.`
-      );
-    }
+    if (path) assertSafeJwtPath(path);
     return {
       type: 'context',
       contextType: 'auth_jwt',
@@ -50,8 +46,42 @@ export const auth = {
       },
     };
   },
+
+  /**
+   * A JWT claim holding an array, as a text array for `column().in()`. Postgres raises
+   * an error if the claim holds something other than an array; a missing claim is empty.
+   *
+   * @example
+   * ```typescript
+   * column('role').in(auth.jwtArray('app_metadata.roles'))
+   * // "role" = ANY(ARRAY(SELECT jsonb_array_elements_text(auth.jwt() -> 'app_metadata' -> 'roles')))
+   * ```
+   */
+  jwtArray(path: string): ContextValue {
+    assertSafeJwtPath(path);
+    const arrows = path
+      .split('.')
+      .map((p) => `-> '${p.replace(/'/g, "''")}'`)
+      .join(' ');
+    return {
+      type: 'context',
+      contextType: 'auth_jwt_array',
+      jwtPath: path,
+      toSQL(): string {
+        return `ARRAY(SELECT jsonb_array_elements_text(auth.jwt() ${arrows}))`;
+      },
+    };
+  },
 };
 
+function assertSafeJwtPath(path: string): void {
+  if (path.startsWith('user_metadata')) {
+    throw new Error(
+      `JWT path 'user_metadata.*' is unsafe for authorization. user_metadata is user-editable. Use 'app_metadata' instead.`
+    );
+  }
+}
+
 /**
  * Session variable helper with type safety
  *
@@ -159,3 +189,103 @@ export const currentUser = (): ContextValue => {
     },
   };
 };
+
+/**
+ * Current timestamp, evaluated by Postgres each time the policy is checked rather than
+ * when the policy is built. Maps to `now()` (the start of the current transaction).
+ *
+ * @example
+ * ```typescript
+ * policy('published_posts')
+ *   .on('posts')
+ *   .read()
+ *   .when(column('published_at').lte(now()));
+ * ```
+ */
+export const now = (): ContextValue => {
+  return {
+    type: 'context',
+    contextType: 'now',
+    toSQL(): string {
+      return 'now()';
+    },
+  };
+};
+
+/**
+ * `now() - interval '<interval>'`, used by `column().within()`
+ */
+export function nowMinus(interval: string): ContextValue {
+  parseInterval(interval);
+  return {
+    type: 'context',
+    contextType: 'now',
+    interval,
+    toSQL(): string {
+      return `now() - interval '${interval}'`;
+    },
+  };
+}
+
+export interface IntervalParts {
+  months: number;
+  days: number;
+  milliseconds: number;
+}
+
+const INTERVAL_UNITS: Record<string, [keyof IntervalParts, number]> = {
+  microsecond: ['milliseconds', 0.001],
+  us: ['milliseconds', 0.001],
+  millisecond: ['milliseconds', 1],
+  ms: ['milliseconds', 1],
+  second: ['milliseconds', 1000],
+  sec: ['milliseconds', 1000],
+  s: ['milliseconds', 1000],
+  minute: ['milliseconds', 60_000],
+  min: ['milliseconds', 60_000],
+  m: ['milliseconds', 60_000],
+  hour: ['milliseconds', 3_600_000],
+  hr: ['milliseconds', 3_600_000],
+  h: ['milliseconds', 3_600_000],
+  day: ['days', 1],
+  d: ['days', 1],
+  week: ['days', 7],
+  w: ['days', 7],
+  month: ['months', 1],
+  mon: ['months', 1],
+  year: ['months', 12],
+  yr: ['months', 12],
+  y: ['months', 12],
+};
+
+/**
+ * Split an interval such as `'7 days'`, `'1 year 2 mons'` or `'1 day 02:30:00'` (how
+ * Postgres prints intervals) into months, days and milliseconds
+ */
+export function parseInterval(interval: string): IntervalParts {
+  const parts: IntervalParts = { months: 0, days: 0, milliseconds: 0 };
+  const pattern =
+    /\s*(?:(-?\d+(?:\.\d+)?)\s*([a-z]+)|(-?)(\d+):(\d{2})(?::(\d{2}(?:\.\d+)?))?)/iy;
+  let pos = 0;
+  while (pos < interval.length && interval.slice(pos).trim() !== '') {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(interval);
+    if (!match) throw new Error(`Invalid interval: "${interval}"`);
+    pos = pattern.lastIndex;
+    if (match[1] !== undefined) {
+      const unit = match[2].toLowerCase();
+      const [field, factor] =
+        INTERVAL_UNITS[unit] ?? INTERVAL_UNITS[unit.replace(/s$/, '')] ?? [];
+      if (!field)
+        throw new Error(`Invalid interval unit "${unit}" in "${interval}"`);
+      parts[field] += Number(match[1]) * factor!;
+    } else {
+      const sign = match[3] === '-' ? -1 : 1;
+      const seconds =
+        Number(match[4]) * 3600 + Number(match[5]) * 60 + Number(match[6] ?? 0);
+      parts.milliseconds += sign * seconds * 1000;
+    }
+  }
+  if (pos === 0) throw new Error(`Invalid interval: "${interval}"`);
+  return parts;
+}
@@ -0,0 +1,358 @@
+/**
+ * Policy diffing: compare desired builders against deployed definitions
+ */
+
+import {
+  PolicyBuilder,
+  createPolicySQL,
+  alterPolicySQL,
+  dropPolicySQL,
+} from './policy-builder';
+import { parseCondition } from './parser';
+import { withOuterTable } from './sql';
+import type { Condition, PolicyDefinition } from './types';
+
+export type PolicyDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type PolicyChangeField =
+  | 'role'
+  | 'type'
+  | 'operation'
+  | 'using'
+  | 'withCheck';
+
+export interface PolicyDiffEntry {
+  status: PolicyDiffStatus;
+  name: string;
+  table: string;
+  /** Definition Rowguard would generate (absent for removed policies) */
+  desired?: PolicyDefinition;
+  /** Definition currently deployed (absent for added policies) */
+  actual?: PolicyDefinition;
+  /** Fields that differ (only populated for changed policies) */
+  changes: PolicyChangeField[];
+}
+
+// ─── Expression normalization ─────────────────────────────────────────────────
+// Postgres deparses stored expressions (pg_get_expr) differently from how they
+// were written: identifiers lose their quotes, literals gain casts, every
+// comparison gets its own parentheses and `(SELECT f())` becomes
+// `( SELECT f() AS f)`. Normalizing both sides to the same token stream keeps
+// those cosmetic differences from showing up as changes.
+
+const TOKEN_PATTERN =
+  /\s+|'(?:[^']|'')*'|"(?:[^"]|"")*"|[A-Za-z_][A-Za-z0-9_$]*|\d+(?:\.\d+)?|::|[+\-*/<>=~!@#%^&|?]+|[(),.[\]]/g;
+
+const CLAUSE_KEYWORDS = new Set([
+  'and',
+  'or',
+  'not',
+  'where',
+  'when',
+  'then',
+  'else',
+  'on',
+]);
+
+const TYPE_CONTINUATIONS = new Set([
+  'varying',
+  'precision',
+  'with',
+  'without',
+  'time',
+  'zone',
+]);
+
+function tokenize(sql: string): string[] {
+  const tokens: string[] = [];
+  for (const match of sql.match(TOKEN_PATTERN) ?? []) {
+    if (/^\s+$/.test(match)) continue;
+    if (match.startsWith("'")) {
+      tokens.push(match);
+    } else if (match.startsWith('"')) {
+      const inner = match.slice(1, -1).replace(/""/g, '"');
+      tokens.push(/^[a-z_][a-z0-9_$]*$/.test(inner) ? inner : match);
+    } else if (match === '!=') {
+      tokens.push('<>');
+    } else {
+      tokens.push(match.toLowerCase());
+    }
+  }
+  return tokens;
+}
+
+function stripDeparseNoise(tokens: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    // 'value'::text → 'value'
+    if (
+      token === '::' &&
+      out.length > 0 &&
+      /^'|^\d/.test(out[out.length - 1])
+    ) {
+      i++;
+      while (TYPE_CONTINUATIONS.has(tokens[i + 1] ?? '')) i++;
+      while (tokens[i + 1] === '[' && tokens[i + 2] === ']') i += 2;
+      continue;
+    }
+    // (status)::text → status: Postgres casts varchar columns to text before comparing
+    if (token === '::' && out[out.length - 1] === ')') {
+      const open = out.lastIndexOf('(');
+      const inner = out.slice(open + 1, -1);
+      const isColumn =
+        inner.length > 0 &&
+        inner.every((t, j) => (j % 2 === 1 ? t === '.' : /^[a-z_"]/.test(t)));
+      if (open !== -1 && isColumn && isGroupingParen(out, open)) {
+        out.splice(open, out.length - open, ...inner);
+        i++;
+        while (TYPE_CONTINUATIONS.has(tokens[i + 1] ?? '')) i++;
+        while (tokens[i + 1] === '[' && tokens[i + 2] === ']') i += 2;
+        continue;
+      }
+    }
+    // ( SELECT auth.uid() AS uid) → (SELECT auth.uid())
+    if (
+      token === 'as' &&
+      out[out.length - 1] === ')' &&
+      tokens[i + 2] === ')'
+    ) {
+      i++;
+      continue;
+    }
+    out.push(token);
+  }
+  return out;
+}
+
+function hasTopLevelLogic(tokens: string[]): boolean {
+  let depth = 0;
+  for (const token of tokens) {
+    if (token === '(') depth++;
+    else if (token === ')') depth--;
+    else if (depth === 0 && (token === 'and' || token === 'or')) return true;
+  }
+  return false;
+}
+
+function findClosing(tokens: string[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i] === '(') depth++;
+    else if (tokens[i] === ')' && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+function isGroupingParen(tokens: string[], open: number): boolean {
+  const prev = tokens[open - 1];
+  return (
+    prev === undefined || CLAUSE_KEYWORDS.has(prev) || !/^[a-z_\]]/.test(prev)
+  );
+}
+
+function dropRedundantParens(tokens: string[], isWhole: boolean): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i] !== '(') {
+      out.push(tokens[i]);
+      continue;
+    }
+    const close = findClosing(tokens, i);
+    const inner = dropRedundantParens(tokens.slice(i + 1, close), false);
+    const spansWhole = isWhole && i === 0 && close === tokens.length - 1;
+    const droppable =
+      isGroupingParen(tokens, i) &&
+      inner[0] !== 'select' &&
+      (spansWhole || !hasTopLevelLogic(inner));
+    if (droppable) {
+      out.push(...inner);
+    } else {
+      out.push('(', ...inner, ')');
+    }
+    i = close;
+  }
+  // Dropping inner parens can expose a new whole-expression wrapper
+  if (
+    isWhole &&
+    out[0] === '(' &&
+    findClosing(out, 0) === out.length - 1 &&
+    out[1] !== 'select'
+  ) {
+    return dropRedundantParens(out.slice(1, -1), true);
+  }
+  return out;
+}
+
+function normalizeExpression(sql: string): string {
+  const tokens = dropRedundantParens(stripDeparseNoise(tokenize(sql)), true);
+  return tokens.join(' ');
+}
+
+// Round-trip through the parser first so builder output and deparsed SQL (e.g.
+// `IN (...)` vs `= ANY (ARRAY[...])`) render the same way
+function conditionKey(
+  condition: Condition | undefined,
+  table: string
+): string | undefined {
+  if (!condition) return undefined;
+  const text = withOuterTable(table, () => condition.toSQL());
+  return normalizeExpression(parseCondition(text).toSQL());
+}
+
+function roleKey(role: string | undefined): string {
+  if (!role) return 'public';
+  return role
+    .split(',')
+    .map((r) => r.trim().replace(/^"|"$/g, '').toLowerCase())
+    .sort()
+    .join(',');
+}
+
+function tableKey(table: string): string {
+  return table.replace(/"/g, '').replace(/^public\./, '');
+}
+
+function policyKey(def: Pick<PolicyDefinition, 'name' | 'table'>): string {
+  return `${tableKey(def.table)}\u0000${def.name}`;
+}
+
+/**
+ * Fields that differ between two definitions, ignoring Postgres' formatting of expressions
+ */
+export function compareDefinitions(
+  desired: PolicyDefinition,
+  actual: PolicyDefinition
+): PolicyChangeField[] {
+  const changes: PolicyChangeField[] = [];
+  if (roleKey(desired.role) !== roleKey(actual.role)) changes.push('role');
+  if ((desired.type ?? 'PERMISSIVE') !== (actual.type ?? 'PERMISSIVE'))
+    changes.push('type');
+  if (desired.operation !== actual.operation) changes.push('operation');
+  if (
+    conditionKey(desired.using, desired.table) !==
+    conditionKey(actual.using, actual.table)
+  )
+    changes.push('using');
+  if (
+    conditionKey(desired.withCheck, desired.table) !==
+    conditionKey(actual.withCheck, actual.table)
+  )
+    changes.push('withCheck');
+  return changes;
+}
+
+/**
+ * Compare the policies Rowguard would generate against the policies deployed in the database.
+ *
+ * Policies are matched by table and name. Every actual policy without a desired counterpart
+ * is reported as removed, so load only the tables you manage (see `loadPolicies`).
+ *
+ * @param desired Policy builders describing the target state
+ * @param actual Deployed definitions, typically from `loadPolicies()`
+ *
+ * @example
+ * ```typescript
+ * const { policies: actual } = await loadPolicies(client, { tables: ['documents'] });
+ * const diff = diffPolicies(policies.owned({ tables: ['documents'] }), actual);
+ * diff.filter((e) => e.status !== 'unchanged');
+ * ```
+ */
+export function diffPolicies(
+  desired: PolicyBuilder[],
+  actual: PolicyDefinition[]
+): PolicyDiffEntry[] {
+  const actualByKey = new Map(actual.map((def) => [policyKey(def), def]));
+  const seen = new Set<string>();
+  const entries: PolicyDiffEntry[] = [];
+
+  for (const builder of desired) {
+    const def = builder.toDefinition();
+    const key = policyKey(def);
+    seen.add(key);
+    const existing = actualByKey.get(key);
+    if (!existing) {
+      entries.push({
+        status: 'added',
+        name: def.name,
+        table: def.table,
+        desired: def,
+        changes: [],
+      });
+      continue;
+    }
+    const changes = compareDefinitions(def, existing);
+    entries.push({
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      name: def.name,
+      table: def.table,
+      desired: def,
+      actual: existing,
+      changes,
+    });
+  }
+
+  for (const def of actual) {
+    if (!seen.has(policyKey(def))) {
+      entries.push({
+        status: 'removed',
+        name: def.name,
+        table: def.table,
+        actual: def,
+        changes: [],
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Whether a changed policy can be rewritten with ALTER POLICY instead of DROP + CREATE
+ */
+export function canAlterPolicy(
+  desired: PolicyDefinition,
+  actual: PolicyDefinition
+): boolean {
+  return (
+    desired.operation === actual.operation &&
+    (desired.type ?? 'PERMISSIVE') === (actual.type ?? 'PERMISSIVE') &&
+    (!actual.using || !!desired.using) &&
+    (!actual.withCheck || !!desired.withCheck)
+  );
+}
+
+/**
+ * Generate the minimal migration for a diff: DROP removed policies, CREATE added ones,
+ * and ALTER changed ones in place (falling back to DROP + CREATE when the command or
+ * type changed, or a clause was removed). Unchanged policies emit nothing.
+ *
+ * @example
+ * ```typescript
+ * const migration = diffToSQL(diffPolicies(desired, actual));
+ * ```
+ */
+export function diffToSQL(diff: PolicyDiffEntry[]): string {
+  const statements: string[] = [];
+
+  for (const entry of diff) {
+    if (entry.status === 'removed' && entry.actual) {
+      statements.push(dropPolicySQL(entry.actual) + ';');
+    }
+  }
+
+  for (const entry of diff) {
+    if (entry.status === 'added' && entry.desired) {
+      statements.push(createPolicySQL(entry.desired) + ';');
+    } else if (entry.status === 'changed' && entry.desired && entry.actual) {
+      if (canAlterPolicy(entry.desired, entry.actual)) {
+        statements.push(alterPolicySQL(entry.desired) + ';');
+      } else {
+        statements.push(dropPolicySQL(entry.actual) + ';');
+        statements.push(createPolicySQL(entry.desired) + ';');
+      }
+    }
+  }
+
+  return statements.join('\n');
+}
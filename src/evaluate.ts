@@ -0,0 +1,820 @@
+/**
+ * In-memory policy evaluation: check authorization logic against fixture rows without Postgres
+ */
+
+import { PolicyBuilder } from './policy-builder';
+import { SubqueryBuilder } from './subquery-builder';
+import { Literal, OuterReference, sql } from './sql';
+import { comparesAsText } from './json';
+import { parseInterval } from './context';
+import { SQLExpression } from './types';
+import type {
+  ComparisonCondition,
+  Condition,
+  ContextValue,
+  FunctionCondition,
+  HelperCondition,
+  JsonCondition,
+  LogicalCondition,
+  MembershipCondition,
+  NullCondition,
+  PatternCondition,
+  PolicyDefinition,
+  PolicyType,
+  SubqueryCondition,
+  SubqueryDefinition,
+} from './types';
+
+export type Row = Record<string, unknown>;
+
+export interface EvaluationContext {
+  table: string;
+  operation: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+  /** Existing row, checked against USING (SELECT, UPDATE, DELETE) */
+  row?: Row;
+  /** Row being written, checked against WITH CHECK (INSERT, UPDATE; defaults to `row`) */
+  newRow?: Row;
+  /** Values returned by auth.uid(), auth.jwt() and auth.role() */
+  auth?: {
+    uid?: string | null;
+    jwt?: Record<string, unknown>;
+    role?: string;
+  };
+  /** Session variables read by session.get() */
+  session?: Record<string, unknown>;
+  /**
+   * Value of now()
+   * @default the time evaluate() is called
+   */
+  now?: Date;
+  /**
+   * Database role the statement runs as (matched against each policy's TO list, and
+   * returned by currentUser())
+   * @default auth.role, else 'authenticated' when auth.uid is set, else 'anon'
+   */
+  dbRole?: string;
+  /** Fixture rows for tables read by subqueries and hasRole() */
+  tables?: Record<string, Row[]>;
+  /** Implementations of SQL functions called through call() */
+  functions?: Record<string, (...args: unknown[]) => boolean | null>;
+}
+
+export interface PolicyEvaluation {
+  name: string;
+  type: PolicyType;
+  /** USING result (undefined when not checked or absent) */
+  using?: boolean;
+  /** WITH CHECK result (undefined when not checked) */
+  withCheck?: boolean;
+  /** Whether every clause checked for this operation passed */
+  passed: boolean;
+}
+
+export interface EvaluationResult {
+  allowed: boolean;
+  /** PERMISSIVE policies that passed */
+  permissive: string[];
+  /** RESTRICTIVE policies that passed */
+  restrictive: string[];
+  /** Every policy that applied to the table, operation and role */
+  policies: PolicyEvaluation[];
+}
+
+// SQL three-valued logic: null is UNKNOWN
+type Truth = boolean | null;
+
+// Column references resolve against the named rows in scope, innermost first. `level` is
+// the query nesting depth (0 for the policy's row); `unmatched` marks a LEFT JOIN's null row.
+type Scope = { name: string; row: Row; level: number; unmatched?: boolean }[];
+
+function unsupported(what: string): Error {
+  return new Error(`evaluate() does not support ${what}`);
+}
+
+function tableKey(table: string): string {
+  return table.replace(/"/g, '').replace(/^public\./, '');
+}
+
+function splitColumn(ref: string): { qualifier?: string; column: string } {
+  const clean = ref.replace(/"/g, '');
+  const dot = clean.lastIndexOf('.');
+  return dot === -1
+    ? { column: clean }
+    : { qualifier: clean.slice(0, dot), column: clean.slice(dot + 1) };
+}
+
+function resolveColumn(ref: string, scope: Scope): unknown {
+  const { qualifier, column } = splitColumn(ref);
+  // Unqualified names only see the innermost query; outer rows are reached through outer()
+  const candidates = qualifier
+    ? scope.filter((s) => s.name === tableKey(qualifier)).slice(0, 1)
+    : scope.filter((s) => s.level === scope[0]?.level);
+  if (qualifier && candidates.length === 0) {
+    throw new Error(
+      `Unknown table "${qualifier}" in column reference "${ref}"`
+    );
+  }
+  const entry = candidates.find((s) => column in s.row);
+  if (entry) return entry.row[column] ?? null;
+  if (candidates.some((s) => s.unmatched)) return null;
+  const rows = candidates.map((s) => `"${s.name}"`).join(', ');
+  throw new Error(
+    `Column "${ref}" is not in the ${rows} row; add it to the fixture (null for NULL)`
+  );
+}
+
+// literal() values as Postgres compares them: timestamps and dates as Dates, bigints exactly
+function literalValue({ value, type }: Literal): unknown {
+  if (typeof value !== 'string') return value;
+  const t = type.toLowerCase();
+  if (/^(timestamp|timestamptz|date)\b/.test(t)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  if (t === 'bigint' || t === 'int8') {
+    try {
+      return BigInt(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// Bring both sides of a comparison to a common representation
+function comparable(a: unknown, b: unknown): [unknown, unknown] {
+  const norm = (v: unknown, other: unknown): unknown => {
+    if (v instanceof Date) return v.getTime();
+    if (
+      typeof other === 'bigint' &&
+      (typeof v === 'number' || typeof v === 'string')
+    ) {
+      // BigInt() rejects fractions and non-numeric text; those compare as they are
+      try {
+        return BigInt(v);
+      } catch {
+        return v;
+      }
+    }
+    if (
+      typeof v === 'string' &&
+      (other instanceof Date || typeof other === 'number')
+    ) {
+      const parsed = other instanceof Date ? Date.parse(v) : Number(v);
+      return Number.isNaN(parsed) ? v : parsed;
+    }
+    return v;
+  };
+  return [norm(a, b), norm(b, a)];
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  const [x, y] = comparable(a, b);
+  if (typeof x === 'object' && typeof y === 'object') {
+    return JSON.stringify(x) === JSON.stringify(y);
+  }
+  return x === y;
+}
+
+function compare(
+  operator: ComparisonCondition['operator'],
+  a: unknown,
+  b: unknown
+): Truth {
+  if (a === null || a === undefined || b === null || b === undefined)
+    return null;
+  if (operator === 'eq') return equals(a, b);
+  if (operator === 'neq') return !equals(a, b);
+  const [x, y] = comparable(a, b) as [number | string, number | string];
+  switch (operator) {
+    case 'gt':
+      return x > y;
+    case 'gte':
+      return x >= y;
+    case 'lt':
+      return x < y;
+    case 'lte':
+      return x <= y;
+  }
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (ch === '%') {
+      source += '[\\s\\S]*';
+    } else if (ch === '_') {
+      source += '[\\s\\S]';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+// Postgres @> for arrays and jsonb
+function containsValue(container: unknown, contained: unknown): boolean {
+  if (Array.isArray(container)) {
+    const items = Array.isArray(contained) ? contained : [contained];
+    return items.every((item) =>
+      container.some((c) => containsValue(c, item) || equals(c, item))
+    );
+  }
+  if (
+    container &&
+    typeof container === 'object' &&
+    contained &&
+    typeof contained === 'object'
+  ) {
+    return Object.entries(contained as Row).every(
+      ([key, value]) =>
+        key in (container as Row) &&
+        containsValue((container as Row)[key], value)
+    );
+  }
+  return equals(container, contained);
+}
+
+// Postgres range text such as ["2024-01-01 00:00:00+00","2025-01-01 00:00:00+00") or empty
+const RANGE_PATTERN =
+  /^([[(])("(?:[^"\\]|\\.)*"|[^,]*),("(?:[^"\\]|\\.)*"|[^\])]*)([\])])$/;
+
+function rangeBound(text: string): string | undefined {
+  const bound = text.startsWith('"')
+    ? text.slice(1, -1).replace(/\\(.)/g, '$1')
+    : text.trim();
+  return bound === '' || /^-?infinity$/i.test(bound) ? undefined : bound;
+}
+
+// Whether a range column contains a value; undefined when `range` isn't range text
+function rangeContains(range: unknown, value: unknown): Truth | undefined {
+  if (typeof range !== 'string') return undefined;
+  if (range.trim().toLowerCase() === 'empty') return false;
+  const match = RANGE_PATTERN.exec(range.trim());
+  if (!match) return undefined;
+  if (value === null) return null;
+  const lower = rangeBound(match[2]);
+  const upper = rangeBound(match[3]);
+  const aboveLower =
+    lower === undefined ||
+    compare(match[1] === '[' ? 'gte' : 'gt', value, lower);
+  const belowUpper =
+    upper === undefined ||
+    compare(match[4] === ']' ? 'lte' : 'lt', value, upper);
+  return and([aboveLower, belowUpper]);
+}
+
+function subtractInterval(date: Date, interval: string): Date {
+  const { months, days, milliseconds } = parseInterval(interval);
+  const result = new Date(date.getTime());
+  // Like Postgres, a day past the end of the target month clamps to its last day
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() - months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay) - days);
+  return new Date(result.getTime() - milliseconds);
+}
+
+// Value at a JSON path; undefined when the column is NULL or a step is missing (SQL NULL)
+function jsonAt(value: unknown, path: (string | number)[]): unknown {
+  let current: unknown = value === null ? undefined : value;
+  for (const key of path) {
+    if (typeof key === 'number' && Array.isArray(current)) {
+      current = current[key < 0 ? current.length + key : key];
+    } else if (
+      typeof key === 'string' &&
+      current &&
+      typeof current === 'object' &&
+      !Array.isArray(current)
+    ) {
+      current = (current as Row)[key];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function jwtClaim(jwt: unknown, path: string): unknown {
+  let current = jwt;
+  for (const part of path.split('.')) {
+    current =
+      current && typeof current === 'object'
+        ? (current as Row)[part]
+        : undefined;
+  }
+  return current;
+}
+
+// What ->> returns for a JSON value: strings unquoted, JSON null as SQL NULL
+function jsonText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// The ? operator: object key, or string element of an array
+function hasJsonKey(value: unknown, key: string): boolean {
+  if (Array.isArray(value)) return value.includes(key);
+  if (value && typeof value === 'object') return key in (value as Row);
+  return value === key;
+}
+
+// value = ANY(candidates), with NULLs making a non-match unknown
+function memberOf(value: unknown, candidates: unknown[]): Truth {
+  if (value === null) return candidates.length === 0 ? false : null;
+  if (
+    candidates.some(
+      (candidate) => candidate !== null && equals(value, candidate)
+    )
+  )
+    return true;
+  return candidates.includes(null) ? null : false;
+}
+
+function and(values: Truth[]): Truth {
+  if (values.includes(false)) return false;
+  return values.includes(null) ? null : true;
+}
+
+function or(values: Truth[]): Truth {
+  if (values.includes(true)) return true;
+  return values.includes(null) ? null : false;
+}
+
+function toSubquery(value: unknown): SubqueryDefinition | undefined {
+  if (value instanceof SubqueryBuilder) return value.toSubquery();
+  if (
+    value &&
+    typeof value === 'object' &&
+    'from' in value &&
+    'select' in value
+  ) {
+    return value as SubqueryDefinition;
+  }
+  return undefined;
+}
+
+class Evaluator {
+  // now() is fixed for the statement, like the transaction timestamp
+  private readonly now: Date;
+
+  constructor(private context: EvaluationContext) {
+    this.now = context.now ?? new Date();
+  }
+
+  get dbRole(): string {
+    const { dbRole, auth } = this.context;
+    return dbRole ?? auth?.role ?? (auth?.uid ? 'authenticated' : 'anon');
+  }
+
+  tableRows(table: string): Row[] {
+    const rows =
+      this.context.tables?.[table] ?? this.context.tables?.[tableKey(table)];
+    if (!rows)
+      throw new Error(
+        `No fixture rows for table "${table}" (pass it in context.tables)`
+      );
+    return rows;
+  }
+
+  condition(condition: Condition, scope: Scope): Truth {
+    switch (condition.type) {
+      case 'comparison': {
+        const c = condition as ComparisonCondition;
+        return compare(
+          c.operator,
+          resolveColumn(c.column, scope),
+          this.value(c.value, scope)
+        );
+      }
+      case 'pattern': {
+        const c = condition as PatternCondition;
+        const value = resolveColumn(c.column, scope);
+        if (value === null) return null;
+        return likeToRegExp(c.pattern, c.operator === 'ilike').test(
+          String(value)
+        );
+      }
+      case 'membership':
+        return this.membership(condition as MembershipCondition, scope);
+      case 'null': {
+        const c = condition as NullCondition;
+        const isNull = resolveColumn(c.column, scope) === null;
+        return c.value === 'not null' ? !isNull : isNull;
+      }
+      case 'logical': {
+        const c = condition as LogicalCondition;
+        const values = c.conditions.map((inner) =>
+          this.condition(inner, scope)
+        );
+        if (c.operator === 'NOT') return values[0] === null ? null : !values[0];
+        return c.operator === 'AND' ? and(values) : or(values);
+      }
+      case 'function':
+        return this.functionCall(condition as FunctionCondition, scope);
+      case 'helper':
+        return this.helper(condition as HelperCondition, scope);
+      case 'subquery':
+        return this.subquery(condition as SubqueryCondition, scope);
+      case 'json':
+        return this.json(condition as JsonCondition, scope);
+      default:
+        throw unsupported(
+          `${condition.type} conditions (${condition.toSQL()})`
+        );
+    }
+  }
+
+  value(value: unknown, scope: Scope): unknown {
+    // The policy's own row is the outermost entry in scope
+    if (value instanceof OuterReference)
+      return resolveColumn(value.column, scope.slice(-1));
+    if (value instanceof Literal) return literalValue(value);
+    if (value instanceof SQLExpression) return this.sqlValue(value, scope);
+    if (
+      value &&
+      typeof value === 'object' &&
+      !(value instanceof Date) &&
+      !Array.isArray(value) &&
+      typeof (value as Condition).toSQL === 'function'
+    ) {
+      if ((value as Condition).type === 'context')
+        return this.contextValue(value as ContextValue);
+      return this.condition(value as Condition, scope);
+    }
+    return value ?? null;
+  }
+
+  // sql() values: column references (e.g. join keys), bare auth.*() calls and
+  // substr(column, n) (realtime channel keys)
+  private sqlValue(value: SQLExpression, scope: Scope): unknown {
+    const text = value.toSQL().trim();
+    const substr = /^substr\((.+),\s*(\d+)\)(::[\w ]+)?$/i.exec(text);
+    if (substr) {
+      const part = this.sqlValue(sql(substr[1]), scope);
+      return part === null ? null : String(part).slice(Number(substr[2]) - 1);
+    }
+    const authCall = /^auth\.(uid|role|jwt)\(\)$/i.exec(
+      text.replace(/\s+/g, '')
+    );
+    if (authCall) {
+      const { auth } = this.context;
+      const name = authCall[1].toLowerCase();
+      return (
+        (name === 'uid'
+          ? auth?.uid
+          : name === 'role'
+            ? auth?.role
+            : auth?.jwt) ?? null
+      );
+    }
+    if (/^"?[A-Za-z_][\w$]*"?(\."?[A-Za-z_][\w$]*"?)*$/.test(text)) {
+      return resolveColumn(text, scope);
+    }
+    throw unsupported(`raw SQL values (${text})`);
+  }
+
+  private contextValue(value: ContextValue): unknown {
+    const { auth, session } = this.context;
+    switch (value.contextType) {
+      case 'auth_uid':
+        return auth?.uid ?? null;
+      case 'auth_role':
+        return auth?.role ?? null;
+      case 'current_user':
+        return this.dbRole;
+      case 'auth_jwt': {
+        if (!value.jwtPath) return auth?.jwt ?? null;
+        const current = jwtClaim(auth?.jwt, value.jwtPath);
+        // ->> yields text
+        if (current === undefined || current === null) return null;
+        return typeof current === 'object'
+          ? JSON.stringify(current)
+          : String(current);
+      }
+      case 'auth_jwt_array': {
+        const current = jwtClaim(auth?.jwt, value.jwtPath!);
+        if (current === undefined || current === null) return [];
+        if (!Array.isArray(current)) {
+          throw new Error(
+            `JWT claim "${value.jwtPath}" is not an array (jsonb_array_elements_text fails in Postgres)`
+          );
+        }
+        return current.map((item) =>
+          item === null || typeof item === 'string'
+            ? item
+            : JSON.stringify(item)
+        );
+      }
+      case 'session': {
+        const raw = session?.[value.key!];
+        if (raw === undefined || raw === null || raw === '') return null;
+        switch (value.sessionType) {
+          case 'integer':
+            return Number(raw);
+          case 'boolean':
+            return (
+              raw === true || raw === 'true' || raw === 'on' || raw === 't'
+            );
+          case 'timestamp':
+            return raw instanceof Date ? raw : new Date(String(raw));
+          default:
+            return raw instanceof Date ? raw.toISOString() : String(raw);
+        }
+      }
+      case 'now':
+        return value.interval
+          ? subtractInterval(this.now, value.interval)
+          : this.now;
+      default:
+        throw unsupported(`context value ${value.toSQL()}`);
+    }
+  }
+
+  private membership(c: MembershipCondition, scope: Scope): Truth {
+    const left = resolveColumn(c.column, scope);
+    if (c.operator === 'contains') {
+      if (left === null) return null;
+      const right = this.value(c.value, scope);
+      return rangeContains(left, right) ?? containsValue(left, right);
+    }
+    if (c.operator === 'contained by') {
+      if (left === null) return null;
+      return containsValue(this.value(c.value, scope), left);
+    }
+    if (c.operator === 'contains value') {
+      if (left === null) return null;
+      return memberOf(this.value(c.value, scope), left as unknown[]);
+    }
+    if (c.operator === 'overlaps') {
+      if (left === null) return null;
+      return (left as unknown[]).some(
+        (item) => item !== null && memberOf(item, c.value as unknown[]) === true
+      );
+    }
+    const subquery = toSubquery(c.value);
+    const candidates = subquery
+      ? this.subqueryValues(subquery, scope)
+      : Array.isArray(c.value)
+        ? c.value.map((v) => this.value(v, scope))
+        : (this.value(c.value, scope) as unknown[]);
+    return memberOf(left, candidates);
+  }
+
+  private json(c: JsonCondition, scope: Scope): Truth {
+    const target = jsonAt(resolveColumn(c.column, scope), c.path);
+    switch (c.operator) {
+      case 'null':
+        return jsonText(target) === null;
+      case 'not null':
+        return jsonText(target) !== null;
+      case 'in': {
+        const text = jsonText(target);
+        return text === null ? null : (c.value as string[]).includes(text);
+      }
+      case 'path exists':
+      case 'path match':
+        throw unsupported(`jsonpath conditions (${c.toSQL()})`);
+    }
+    if (target === undefined) return null;
+    switch (c.operator) {
+      case 'contains':
+        return containsValue(target, c.value);
+      case 'contained by':
+        return containsValue(c.value, target);
+      case 'has key':
+        return hasJsonKey(target, c.value as string);
+      case 'has any keys':
+        return (c.value as string[]).some((k) => hasJsonKey(target, k));
+      case 'has all keys':
+        return (c.value as string[]).every((k) => hasJsonKey(target, k));
+    }
+    // Comparisons: as text (->>) or as jsonb (->), where JSON null equals null
+    if (comparesAsText(c.value))
+      return compare(c.operator, jsonText(target), this.value(c.value, scope));
+    if (c.operator === 'eq') return equals(target, c.value);
+    if (c.operator === 'neq') return !equals(target, c.value);
+    return compare(c.operator, target, c.value);
+  }
+
+  private subquery(c: SubqueryCondition, scope: Scope): Truth {
+    if (c.operator === 'exists' || c.operator === 'not exists') {
+      const found = this.subqueryRows(c.subquery, scope).length > 0;
+      return c.operator === 'exists' ? found : !found;
+    }
+    const left = resolveColumn(c.column, scope);
+    const candidates = this.subqueryValues(c.subquery, scope);
+    if (candidates.length === 0) return c.operator === 'not in';
+    let matched: Truth;
+    if (left === null) matched = null;
+    else if (candidates.some((v) => v !== null && equals(left, v)))
+      matched = true;
+    else matched = candidates.includes(null) ? null : false;
+    if (c.operator === 'in') return matched;
+    return matched === null ? null : !matched;
+  }
+
+  // Values of the subquery's first select column, for every row it produces
+  subqueryValues(def: SubqueryDefinition, outer: Scope): unknown[] {
+    const select = Array.isArray(def.select) ? def.select[0] : def.select;
+    return this.subqueryRows(def, outer).map((bound) =>
+      resolveColumn(select, bound)
+    );
+  }
+
+  // Scopes for every row the subquery produces, innermost table first
+  private subqueryRows(def: SubqueryDefinition, outer: Scope): Scope[] {
+    const fromName = tableKey(def.alias ?? def.from);
+    const level = (outer[0]?.level ?? -1) + 1;
+    let rows: Scope[] = this.tableRows(def.from).map((row) => [
+      { name: fromName, row, level },
+    ]);
+
+    for (const join of def.joins ?? (def.join ? [def.join] : [])) {
+      const type = join.type ?? 'inner';
+      if (type !== 'inner' && type !== 'left')
+        throw unsupported(`${type} joins`);
+      const joinName = tableKey(join.alias ?? join.table);
+      const joinRows = this.tableRows(join.table);
+      rows = rows.flatMap((left) => {
+        const matches = joinRows
+          .map((row) => [...left, { name: joinName, row, level }])
+          .filter(
+            (candidate) =>
+              this.condition(
+                join.on,
+                [...candidate].reverse().concat(outer)
+              ) === true
+          );
+        if (matches.length > 0 || type === 'inner') return matches;
+        return [[...left, { name: joinName, row: {}, level, unmatched: true }]];
+      });
+    }
+
+    const scopes = rows.map((bound) => [...bound].reverse().concat(outer));
+    return def.where
+      ? scopes.filter((bound) => this.condition(def.where!, bound) === true)
+      : scopes;
+  }
+
+  private functionCall(c: FunctionCondition, scope: Scope): Truth {
+    const fn = this.context.functions?.[c.functionName];
+    if (!fn)
+      throw unsupported(
+        `function ${c.functionName}() without an implementation in context.functions`
+      );
+    const args = c.arguments.map((arg) =>
+      typeof arg === 'string'
+        ? resolveColumn(arg, scope)
+        : this.value(arg, scope)
+    );
+    return fn(...args);
+  }
+
+  private helper(c: HelperCondition, scope: Scope): Truth {
+    const uid = this.context.auth?.uid ?? null;
+    switch (c.helperType) {
+      case 'alwaysTrue':
+        return true;
+      case 'hasRole': {
+        if (uid === null) return false;
+        const rows = this.tableRows(String(c.params.userRolesTable));
+        return rows.some(
+          (row) => equals(row.user_id, uid) && row.role === c.params.role
+        );
+      }
+      case 'isMemberOf': {
+        const { joinTable, foreignKey, localKey, userIdColumn } =
+          c.params as Record<string, string>;
+        const local = resolveColumn(localKey, scope);
+        if (local === null) return null;
+        return this.tableRows(joinTable).some(
+          (row) =>
+            uid !== null &&
+            equals(row[userIdColumn], uid) &&
+            equals(row[foreignKey], local)
+        );
+      }
+      default:
+        throw unsupported(`${c.helperType} conditions (${c.toSQL()})`);
+    }
+  }
+}
+
+/**
+ * Whether a policy applies to a statement on `table` running `operation` as `role`
+ */
+export function policyAppliesTo(
+  def: PolicyDefinition,
+  table: string,
+  operation: string,
+  role: string
+): boolean {
+  if (tableKey(def.table) !== tableKey(table)) return false;
+  if (def.operation !== 'ALL' && def.operation !== operation) return false;
+  if (!def.role) return true;
+  const roles = def.role
+    .split(',')
+    .map((r) => r.trim().replace(/^"|"$/g, '').toLowerCase());
+  return roles.includes('public') || roles.includes(role.toLowerCase());
+}
+
+/**
+ * Evaluate policies for one row and operation in memory, the way Postgres would.
+ *
+ * Applicable policies are those on the table, for the operation (or ALL), whose TO list
+ * includes the database role. Access requires at least one PERMISSIVE policy to pass and
+ * every RESTRICTIVE policy to pass. USING is checked against `row` (SELECT, UPDATE, DELETE)
+ * and WITH CHECK — falling back to USING — against `newRow` (INSERT, UPDATE). NULL
+ * results count as failures, as in SQL.
+ *
+ * `sql()` values may be column references (e.g. `sql('p.id')` in a join), bare `auth.*()`
+ * calls or `substr()` of a column (realtime channel keys). Throws for anything else it cannot evaluate, such as `sqlCondition()` or functions
+ * without an implementation in `functions`.
+ *
+ * @param policies Builders or definitions to evaluate
+ * @param context Table, operation, rows, auth claims and fixture tables
+ *
+ * @example
+ * ```typescript
+ * const result = evaluate(policies.owned({ tables: ['documents'] }), {
+ *   table: 'documents',
+ *   operation: 'SELECT',
+ *   row: { id: 1, user_id: 'alice' },
+ *   auth: { uid: 'alice' },
+ * });
+ * result.allowed; // true
+ * result.permissive; // ['documents_select_owner']
+ * ```
+ */
+export function evaluate(
+  policies: (PolicyBuilder | PolicyDefinition)[],
+  context: EvaluationContext
+): EvaluationResult {
+  const evaluator = new Evaluator(context);
+  const defs = policies
+    .map((p) => (p instanceof PolicyBuilder ? p.toDefinition() : p))
+    .filter((def) =>
+      policyAppliesTo(def, context.table, context.operation, evaluator.dbRole)
+    );
+
+  const checksUsing = context.operation !== 'INSERT';
+  const checksWithCheck =
+    context.operation === 'INSERT' || context.operation === 'UPDATE';
+  const row = context.row;
+  const newRow = context.newRow ?? context.row;
+  if (checksUsing && !row)
+    throw new Error(`evaluate() needs a row for ${context.operation}`);
+  if (checksWithCheck && !newRow)
+    throw new Error(`evaluate() needs a newRow for ${context.operation}`);
+
+  const table = tableKey(context.table);
+  const results: PolicyEvaluation[] = defs.map((def) => {
+    const type = def.type ?? 'PERMISSIVE';
+    // A missing clause grants nothing in a PERMISSIVE policy and restricts nothing in a RESTRICTIVE one
+    const missing = type === 'RESTRICTIVE';
+    const result: PolicyEvaluation = { name: def.name, type, passed: true };
+    if (checksUsing) {
+      result.using = def.using
+        ? evaluator.condition(def.using, [
+            { name: table, row: row!, level: 0 },
+          ]) === true
+        : missing;
+      result.passed &&= result.using;
+    }
+    if (checksWithCheck) {
+      const check = def.withCheck ?? def.using;
+      result.withCheck = check
+        ? evaluator.condition(check, [
+            { name: table, row: newRow!, level: 0 },
+          ]) === true
+        : missing;
+      result.passed &&= result.withCheck;
+    }
+    return result;
+  });
+
+  const permissive = results.filter((r) => r.type === 'PERMISSIVE');
+  const restrictive = results.filter((r) => r.type === 'RESTRICTIVE');
+  // Permissive clauses combine with OR per clause, so different policies may satisfy USING and WITH CHECK
+  const anyPermissive = (clause: 'using' | 'withCheck') =>
+    permissive.some((r) => r[clause] === true);
+  const allowed =
+    permissive.length > 0 &&
+    (!checksUsing || anyPermissive('using')) &&
+    (!checksWithCheck || anyPermissive('withCheck')) &&
+    restrictive.every((r) => r.passed);
+
+  return {
+    allowed,
+    permissive: permissive.filter((r) => r.passed).map((r) => r.name),
+    restrictive: restrictive.filter((r) => r.passed).map((r) => r.name),
+    policies: results,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * SECURITY DEFINER helper functions for checks that would otherwise recurse through RLS
+ */
+
+import { call, ConditionChain } from './column';
+import { escapeRole } from './policy-builder';
+import { SubqueryBuilder } from './subquery-builder';
+import { escapeIdentifier, sql, subqueryToSQL } from './sql';
+import type { Condition, SQLExpression } from './types';
+
+export type FunctionVolatility = 'IMMUTABLE' | 'STABLE' | 'VOLATILE';
+
+type FunctionBody = Condition | ConditionChain | SubqueryBuilder | string;
+
+// A type name, optionally schema-qualified, with an optional precision and array suffix:
+// uuid, public.status, numeric(10,2), timestamp with time zone, text[]
+const TYPE_WORD = '[a-z_][a-z0-9_$]*';
+const TYPE_NAME = new RegExp(
+  `^${TYPE_WORD}(\\.${TYPE_WORD})?( ${TYPE_WORD})*(\\(\\d+(, ?\\d+)?\\))?( ${TYPE_WORD})*(\\[\\])*$`,
+  'i'
+);
+
+export interface DefinerFunctionOptions {
+  /**
+   * Arguments in order, mapped to their SQL types, e.g. `{ project_id: 'uuid' }`.
+   * Types must be plain type names such as `public.status`, `numeric(10,2)` or `text[]`.
+   */
+  args?: Record<string, string>;
+  /**
+   * Boolean expression the function returns. A subquery returns whether it has rows
+   * (`EXISTS`), a string is used as raw SQL. Pass a callback to reference the arguments.
+   *
+   * The function runs with an empty search_path, so tables must be schema-qualified.
+   */
+  body: FunctionBody | ((args: Record<string, SQLExpression>) => FunctionBody);
+  /**
+   * @default 'public'
+   */
+  schema?: string;
+  /**
+   * @default 'STABLE'
+   */
+  volatility?: FunctionVolatility;
+  /**
+   * Roles allowed to execute the function
+   * @default ['authenticated']
+   */
+  grantTo?: string[];
+  /**
+   * Roles whose EXECUTE privilege is revoked. On Supabase, add `anon` too: default
+   * privileges grant it EXECUTE on new functions in `public`.
+   * @default ['PUBLIC']
+   */
+  revokeFrom?: string[];
+}
+
+/**
+ * A SECURITY DEFINER function returning boolean, created by `definerFunction()`
+ */
+export class DefinerFunction {
+  /** Schema-qualified function name */
+  readonly name: string;
+  private readonly options: DefinerFunctionOptions;
+
+  constructor(name: string, options: DefinerFunctionOptions) {
+    if (!name || name.includes('.')) {
+      throw new Error(
+        `Function name must be unqualified (use the schema option): "${name}"`
+      );
+    }
+    for (const [arg, type] of Object.entries(options.args ?? {})) {
+      if (!TYPE_NAME.test(type)) {
+        throw new Error(
+          `Invalid type for argument "${arg}" of "${name}": "${type}"`
+        );
+      }
+    }
+    this.name = `${options.schema ?? 'public'}.${name}`;
+    this.options = options;
+  }
+
+  private argNames(): string[] {
+    return Object.keys(this.options.args ?? {});
+  }
+
+  // Function signature used by GRANT / REVOKE / DROP, e.g. "public"."f"(uuid)
+  private signature(): string {
+    const types = Object.values(this.options.args ?? {});
+    return `${escapeIdentifier(this.name)}(${types.join(', ')})`;
+  }
+
+  /**
+   * Reference to an argument inside the body, qualified with the function name so it
+   * can't be confused with a column of the same name
+   */
+  arg(name: string): SQLExpression {
+    if (!this.argNames().includes(name)) {
+      throw new Error(`Function "${this.name}" has no argument "${name}"`);
+    }
+    const fn = this.name.slice(this.name.lastIndexOf('.') + 1);
+    return sql(`${escapeIdentifier(fn)}.${escapeIdentifier(name)}`);
+  }
+
+  private bodySQL(): string {
+    const { body } = this.options;
+    const resolved =
+      typeof body === 'function'
+        ? body(Object.fromEntries(this.argNames().map((n) => [n, this.arg(n)])))
+        : body;
+    if (typeof resolved === 'string') return resolved;
+    if (resolved instanceof SubqueryBuilder) {
+      return `EXISTS ${subqueryToSQL(resolved.toSubquery())}`;
+    }
+    return resolved.toSQL();
+  }
+
+  /**
+   * Call the function in a policy condition. String arguments are column names.
+   *
+   * @example
+   * ```typescript
+   * policy('members_read').on('project_members').read()
+   *   .when(isProjectMember.call('project_id'));
+   * ```
+   */
+  call(...args: (string | Condition | ConditionChain)[]): ConditionChain {
+    if (args.length !== this.argNames().length) {
+      throw new Error(
+        `Function "${this.name}" takes ${this.argNames().length} argument(s), got ${args.length}`
+      );
+    }
+    return call(this.name, args);
+  }
+
+  /**
+   * CREATE OR REPLACE FUNCTION followed by REVOKE / GRANT EXECUTE
+   */
+  statements(): string[] {
+    const {
+      args = {},
+      volatility = 'STABLE',
+      grantTo = ['authenticated'],
+      revokeFrom = ['PUBLIC'],
+    } = this.options;
+    const params = Object.entries(args)
+      .map(([name, type]) => `${escapeIdentifier(name)} ${type}`)
+      .join(', ');
+    const create = [
+      `CREATE OR REPLACE FUNCTION ${escapeIdentifier(this.name)}(${params})`,
+      'RETURNS boolean',
+      'LANGUAGE sql',
+      volatility,
+      'SECURITY DEFINER',
+      "SET search_path = ''",
+      'AS $$',
+      `  SELECT ${this.bodySQL()}`,
+      '$$;',
+    ].join('\n');
+    const statements = [create];
+    if (revokeFrom.length > 0) {
+      statements.push(
+        `REVOKE EXECUTE ON FUNCTION ${this.signature()} FROM ${revokeFrom.map(escapeRole).join(', ')};`
+      );
+    }
+    if (grantTo.length > 0) {
+      statements.push(
+        `GRANT EXECUTE ON FUNCTION ${this.signature()} TO ${grantTo.map(escapeRole).join(', ')};`
+      );
+    }
+    return statements;
+  }
+
+  toSQL(): string {
+    return this.statements().join('\n');
+  }
+
+  /**
+   * DROP FUNCTION IF EXISTS statement
+   */
+  dropSQL(): string {
+    return `DROP FUNCTION IF EXISTS ${this.signature()};`;
+  }
+}
+
+/**
+ * Define a SECURITY DEFINER function for checks that must bypass RLS, such as
+ * membership lookups whose join table has its own policy referencing the parent table.
+ *
+ * The function is STABLE, returns boolean, runs with `search_path = ''` and is only
+ * executable by the granted roles.
+ *
+ * @param name Unqualified function name
+ * @param options Arguments, body and privileges
+ *
+ * @example
+ * ```typescript
+ * const isProjectMember = definerFunction('is_project_member', {
+ *   args: { project_id: 'uuid' },
+ *   body: ({ project_id }) =>
+ *     from('public.project_members')
+ *       .select('user_id')
+ *       .where(column('project_id').eq(project_id).and(column('user_id').isOwner())),
+ * });
+ *
+ * await client.query(isProjectMember.toSQL());
+ * policy('members_read').on('project_members').read()
+ *   .when(isProjectMember.call('project_id'));
+ * ```
+ */
+export function definerFunction(
+  name: string,
+  options: DefinerFunctionOptions
+): DefinerFunction {
+  return new DefinerFunction(name, options);
+}
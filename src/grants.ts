@@ -0,0 +1,175 @@
+/**
+ * Table and column privileges (GRANT / REVOKE) to apply alongside policies
+ */
+
+import { escapeRole } from './policy-builder';
+import { escapeIdentifier } from './sql';
+
+export type TablePrivilege =
+  | 'SELECT'
+  | 'INSERT'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'TRUNCATE'
+  | 'REFERENCES'
+  | 'TRIGGER'
+  | 'ALL';
+
+const COLUMN_PRIVILEGES = new Set<TablePrivilege>([
+  'SELECT',
+  'INSERT',
+  'UPDATE',
+  'REFERENCES',
+]);
+
+export interface GrantDefinition {
+  action: 'GRANT' | 'REVOKE';
+  privileges: TablePrivilege[];
+  /** Column-level privilege when set */
+  columns?: string[];
+  table: string;
+  roles: string[];
+}
+
+/**
+ * Fluent builder for a GRANT or REVOKE statement
+ */
+export class GrantBuilder {
+  private table?: string;
+  private roles: string[] = [];
+
+  constructor(
+    private readonly action: 'GRANT' | 'REVOKE',
+    private readonly privileges: TablePrivilege[],
+    private readonly columns?: string[]
+  ) {
+    if (privileges.length === 0) {
+      throw new Error(`${action} needs at least one privilege`);
+    }
+    if (columns) {
+      if (columns.length === 0) {
+        throw new Error(
+          `${action} column list cannot be empty; omit it for a table-level privilege`
+        );
+      }
+      const invalid = privileges.filter((p) => !COLUMN_PRIVILEGES.has(p));
+      if (invalid.length > 0) {
+        throw new Error(
+          `${invalid.join(', ')} cannot be granted on columns (only SELECT, INSERT, UPDATE, REFERENCES)`
+        );
+      }
+    }
+  }
+
+  /**
+   * Table the privileges apply to
+   */
+  on(table: string): this {
+    this.table = table;
+    return this;
+  }
+
+  /**
+   * Roles receiving the privileges (GRANT)
+   */
+  to(...roles: string[]): this {
+    if (this.action !== 'GRANT') {
+      throw new Error('Use .from() for REVOKE');
+    }
+    this.roles = roles;
+    return this;
+  }
+
+  /**
+   * Roles losing the privileges (REVOKE)
+   */
+  from(...roles: string[]): this {
+    if (this.action !== 'REVOKE') {
+      throw new Error('Use .to() for GRANT');
+    }
+    this.roles = roles;
+    return this;
+  }
+
+  toDefinition(): GrantDefinition {
+    if (!this.table) {
+      throw new Error(`${this.action} table is required`);
+    }
+    if (this.roles.length === 0) {
+      throw new Error(`${this.action} role is required`);
+    }
+    return {
+      action: this.action,
+      privileges: this.privileges,
+      columns: this.columns,
+      table: this.table,
+      roles: this.roles,
+    };
+  }
+
+  toSQL(): string {
+    const def = this.toDefinition();
+    const columnList = def.columns
+      ? ` (${def.columns.map(escapeIdentifier).join(', ')})`
+      : '';
+    const privileges = def.privileges
+      .map((p) => `${p}${columnList}`)
+      .join(', ');
+    const roles = def.roles.map(escapeRole).join(', ');
+    const direction = def.action === 'GRANT' ? 'TO' : 'FROM';
+    return `${def.action} ${privileges} ON ${escapeIdentifier(def.table)} ${direction} ${roles};`;
+  }
+}
+
+/**
+ * Grant table privileges, or column privileges when `columns` is given
+ *
+ * @example
+ * ```typescript
+ * grant('SELECT', ['id', 'title', 'body']).on('documents').to('anon');
+ * grant(['SELECT', 'INSERT', 'UPDATE', 'DELETE']).on('documents').to('authenticated');
+ * ```
+ */
+export function grant(
+  privileges: TablePrivilege | TablePrivilege[],
+  columns?: string[]
+): GrantBuilder {
+  return new GrantBuilder(
+    'GRANT',
+    Array.isArray(privileges) ? privileges : [privileges],
+    columns
+  );
+}
+
+/**
+ * Revoke table privileges, or column privileges when `columns` is given
+ *
+ * @example
+ * ```typescript
+ * // Hide everything from anon, then expose only the public columns
+ * revoke('SELECT').on('profiles').from('anon');
+ * grant('SELECT', ['id', 'username']).on('profiles').to('anon');
+ * ```
+ */
+export function revoke(
+  privileges: TablePrivilege | TablePrivilege[],
+  columns?: string[]
+): GrantBuilder {
+  return new GrantBuilder(
+    'REVOKE',
+    Array.isArray(privileges) ? privileges : [privileges],
+    columns
+  );
+}
+
+/**
+ * GRANT / REVOKE statements in apply order: revokes first, so a table-level revoke
+ * can't take back column privileges granted in the same batch
+ */
+export function grantsToSQL(grants: GrantBuilder[]): string[] {
+  const defs = grants.map((g) => ({ def: g.toDefinition(), sql: g.toSQL() }));
+  return [
+    ...defs.filter((g) => g.def.action === 'REVOKE'),
+    ...defs.filter((g) => g.def.action === 'GRANT'),
+  ].map((g) => g.sql);
+}
@@ -0,0 +1,195 @@
+/**
+ * Index audit: compare the indexes Rowguard would generate with the indexes a database already has
+ */
+
+import {
+  PolicyBuilder,
+  createIndexSQL,
+  policyIndexName,
+} from './policy-builder';
+import type { QueryClient } from './introspect';
+import type { PolicyDefinition } from './types';
+
+export interface AuditIndexesOptions {
+  /**
+   * Schema that unqualified table names live in
+   * @default 'public'
+   */
+  schema?: string;
+}
+
+/**
+ * An index that already exists on a table
+ */
+export interface ExistingIndex {
+  /** Table name as Rowguard references it (schema-qualified outside the default schema) */
+  table: string;
+  name: string;
+  /** Indexed columns in order; `null` for expression columns */
+  columns: (string | null)[];
+  method: string;
+  primary: boolean;
+  unique: boolean;
+  partial: boolean;
+}
+
+/**
+ * - `missing`: no index leads with the column; `statement` would create one
+ * - `indexed`: the generated `idx_*` index exists and nothing else covers the column
+ * - `covered`: another index leads with the column, so no `idx_*` index is needed
+ * - `redundant`: the generated `idx_*` index exists but another index already covers the column
+ */
+export type IndexAuditStatus = 'missing' | 'indexed' | 'covered' | 'redundant';
+
+export interface IndexAuditEntry {
+  table: string;
+  column: string;
+  status: IndexAuditStatus;
+  /** Name of the index Rowguard generates for this column */
+  indexName: string;
+  /** Existing index that covers the column (`covered` and `redundant`) */
+  coveredBy?: string;
+  /** CREATE INDEX statement to run (`missing` only) */
+  statement?: string;
+}
+
+export interface IndexAudit {
+  entries: IndexAuditEntry[];
+  /** Indexes found on the audited tables */
+  indexes: ExistingIndex[];
+  /** Statements for every `missing` entry */
+  statements: string[];
+}
+
+interface IndexRow {
+  table: string;
+  name: string;
+  columns: (string | null)[];
+  method: string;
+  primary: boolean;
+  unique: boolean;
+  partial: boolean;
+}
+
+const INDEXES_QUERY = `SELECT
+  CASE WHEN n.nspname = $1 THEN t.relname ELSE n.nspname || '.' || t.relname END AS table,
+  i.relname AS name,
+  ARRAY(
+    SELECT a.attname
+    FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+    LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+    ORDER BY k.ord
+  )::text[] AS columns,
+  am.amname AS method,
+  ix.indisprimary AS primary,
+  ix.indisunique AS unique,
+  ix.indpred IS NOT NULL AS partial
+FROM pg_index ix
+JOIN pg_class t ON t.oid = ix.indrelid
+JOIN pg_class i ON i.oid = ix.indexrelid
+JOIN pg_am am ON am.oid = i.relam
+JOIN pg_namespace n ON n.oid = t.relnamespace
+WHERE (CASE WHEN n.nspname = $1 THEN t.relname ELSE n.nspname || '.' || t.relname END) = ANY($2::text[])
+ORDER BY 1, 2`;
+
+// Only a full B-tree index whose first column is `column` serves the policy's lookups
+function leadsWith(index: ExistingIndex, column: string): boolean {
+  return (
+    index.method === 'btree' && !index.partial && index.columns[0] === column
+  );
+}
+
+/**
+ * Check the columns used in policy conditions against the indexes that exist in the database.
+ *
+ * Rowguard emits `CREATE INDEX IF NOT EXISTS idx_<table>_<column>` for every column a
+ * policy filters on. This reports, per column, whether that index is still needed: a
+ * primary key, unique constraint or composite index whose leading column matches already
+ * covers it, in which case an existing `idx_*` index is redundant. Partial and non-B-tree
+ * indexes are not treated as covering.
+ *
+ * @param policies Builders or definitions to audit
+ * @param client A pg `Client` or `PoolClient`
+ * @param options Default schema for unqualified table names
+ *
+ * @example
+ * ```typescript
+ * const audit = await auditIndexes(allPolicies, client);
+ * for (const entry of audit.entries.filter((e) => e.status === 'redundant')) {
+ *   console.log(`${entry.indexName} duplicates ${entry.coveredBy}`);
+ * }
+ * await client.query(audit.statements.join('\n'));
+ * ```
+ */
+export async function auditIndexes(
+  policies: (PolicyBuilder | PolicyDefinition)[],
+  client: QueryClient,
+  options: AuditIndexesOptions = {}
+): Promise<IndexAudit> {
+  const seen = new Set<string>();
+  const columns: { table: string; column: string }[] = [];
+  for (const p of policies) {
+    const builder =
+      p instanceof PolicyBuilder ? p : PolicyBuilder.fromDefinition(p);
+    for (const ref of builder.indexColumns()) {
+      const key = `${ref.table}.${ref.column}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(ref);
+      }
+    }
+  }
+
+  const tables = [...new Set(columns.map((c) => c.table))];
+  const result = await client.query(INDEXES_QUERY, [
+    options.schema ?? 'public',
+    tables,
+  ]);
+  const indexes: ExistingIndex[] = (result.rows as IndexRow[]).map((row) => ({
+    table: row.table,
+    name: row.name,
+    columns: row.columns,
+    method: row.method,
+    primary: row.primary,
+    unique: row.unique,
+    partial: row.partial,
+  }));
+
+  const entries = columns.map(({ table, column }): IndexAuditEntry => {
+    const indexName = policyIndexName(table, column);
+    const onTable = indexes.filter((index) => index.table === table);
+    const generated = onTable.some((index) => index.name === indexName);
+    // Prefer primary keys, then unique indexes, as the one to keep
+    const covering = onTable
+      .filter((index) => index.name !== indexName && leadsWith(index, column))
+      .sort(
+        (a, b) =>
+          Number(b.primary) - Number(a.primary) ||
+          Number(b.unique) - Number(a.unique)
+      )[0];
+
+    if (covering) {
+      return {
+        table,
+        column,
+        indexName,
+        status: generated ? 'redundant' : 'covered',
+        coveredBy: covering.name,
+      };
+    }
+    if (generated) return { table, column, indexName, status: 'indexed' };
+    return {
+      table,
+      column,
+      indexName,
+      status: 'missing',
+      statement: createIndexSQL({ table, columns: [column], method: 'btree' }),
+    };
+  });
+
+  return {
+    entries,
+    indexes,
+    statements: entries.flatMap((e) => (e.statement ? [e.statement] : [])),
+  };
+}
@@ -1,16 +1,57 @@
-export { policy, PolicyBuilder, collectUniqueIndexStatements } from './policy-builder';
+export { policy, PolicyBuilder, collectUniqueIndexStatements, defaultIndexName } from './policy-builder';
 export { policies } from './templates';
-export { auth, session, currentUser } from './context';
-export { column, ColumnBuilder, ConditionChain, hasRole, alwaysTrue, call } from './column';
+export { auth, session, currentUser, now } from './context';
+export { storage, StorageBucket, StoragePathExpression } from './storage';
+export type { OwnerFolderOptions, PublicReadOptions } from './storage';
+export { realtime, RealtimeChannel } from './realtime';
+export type { RealtimeChannelPolicyOptions, RealtimeMembersOptions, RealtimeExtension } from './realtime';
+export { column, ColumnBuilder, ConditionChain, hasRole, alwaysTrue, call, sqlCondition, exists, notExists, not } from './column';
 export { from, SubqueryBuilder } from './subquery-builder';
-export { sql, SQLExpression } from './sql';
+export { sql, SQLExpression, outer, OuterReference, literal, Literal } from './sql';
+export type { LiteralType, LiteralValue } from './sql';
+export { jsonPath, JsonPath } from './json';
+export { definerFunction, DefinerFunction } from './functions';
+export type { DefinerFunctionOptions, FunctionVolatility } from './functions';
 export { createPolicyGroup, policyGroupToSQL, applyPolicyGroup, crud, tenantGroup } from './composition';
 export { policiesToSQL, applyPolicies, enableRLS } from './apply';
+export type { PolicyApplyStrategy, ApplyPoliciesOptions } from './apply';
+export { grant, revoke, grantsToSQL, GrantBuilder } from './grants';
+export type { GrantDefinition, TablePrivilege } from './grants';
+export { loadPolicies, loadRelationships, loadColumnTypes } from './introspect';
+export { diffPolicies, diffToSQL, canAlterPolicy } from './diff';
+export { parseCondition, parsePolicies } from './parser';
+export { sqlToRowguard } from './codegen';
+export type { SqlToRowguardOptions } from './codegen';
+export { evaluate } from './evaluate';
+export type { EvaluationContext, EvaluationResult, PolicyEvaluation, Row } from './evaluate';
+export { accessMatrix, accessMatrixToMarkdown, accessMatrixToCSV, describeCondition } from './access-matrix';
+export type { AccessMatrix, AccessMatrixOptions, AccessCell, AccessLevel, AccessOperation } from './access-matrix';
+export { lintPolicies, builtinLintRules } from './lint';
+export type { LintIssue, LintRule, LintRuleContext, LintFinding, LintPolicy, LintSchema, LintSeverity, LintSuppression, LintOptions } from './lint';
+export { auditIndexes } from './index-audit';
+export type { AuditIndexesOptions, ExistingIndex, IndexAudit, IndexAuditEntry, IndexAuditStatus } from './index-audit';
+export type { PolicyDiffEntry, PolicyDiffStatus, PolicyChangeField } from './diff';
+export type {
+  QueryClient,
+  LoadPoliciesOptions,
+  LoadedPolicies,
+  TableRLSStatus,
+  Relationship,
+  LoadRelationshipsOptions,
+  ColumnDataType,
+  LoadColumnTypesOptions,
+} from './introspect';
 export { createRowguard } from './typed';
 export type {
   TypedRowguard,
+  TypedColumn,
+  TypedSubquery,
+  ScopeColumn,
+  SchemaNames,
   TableNames,
   ColumnNames,
+  ColumnType,
+  ColumnValue,
   AnyColumn,
   TypedOwnedConfig,
   TypedSharedConfig,
@@ -20,5 +61,10 @@ export type {
   TypedImmutableConfig,
   TypedAdminConfig,
   TypedOpenConfig,
+  TypedInheritFromConfig,
+  TypedRowguardOptions,
+  ParentTables,
+  GeneratedRelationship,
+  TableRelationships,
 } from './typed';
 export * from './types';
@@ -0,0 +1,311 @@
+/**
+ * Database introspection: read deployed policies back into Rowguard objects
+ */
+
+import { PolicyBuilder } from './policy-builder';
+import { parseCondition } from './parser';
+import type { Condition, PolicyDefinition, PolicyOperation } from './types';
+
+/**
+ * Minimal client interface for introspection (satisfied by pg `Client` and `PoolClient`)
+ */
+export interface QueryClient {
+  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[] }>;
+}
+
+export interface LoadPoliciesOptions {
+  /**
+   * Schema to read policies from
+   * @default 'public'
+   */
+  schema?: string;
+  /**
+   * Restrict to these tables (unqualified names). Reads every table in the schema when omitted.
+   */
+  tables?: string[];
+}
+
+/**
+ * Row level security status of a table
+ */
+export interface TableRLSStatus {
+  schema: string;
+  /** Table name as Rowguard references it (schema-qualified outside `public`) */
+  table: string;
+  rlsEnabled: boolean;
+  rlsForced: boolean;
+}
+
+export interface LoadedPolicies {
+  tables: TableRLSStatus[];
+  policies: PolicyDefinition[];
+  builders: PolicyBuilder[];
+}
+
+/**
+ * Foreign key between two tables, shaped like the `Relationships` entries of Supabase
+ * generated types plus the referencing table
+ */
+export interface Relationship {
+  schema: string;
+  /** Referencing table (unqualified) */
+  table: string;
+  foreignKeyName: string;
+  columns: string[];
+  referencedSchema: string;
+  /** Referenced table (unqualified) */
+  referencedRelation: string;
+  referencedColumns: string[];
+}
+
+export interface LoadRelationshipsOptions {
+  /**
+   * Schema of the referencing tables
+   * @default 'public'
+   */
+  schema?: string;
+}
+
+/**
+ * Postgres type of a table column, used by the typed API to cast literals
+ */
+export interface ColumnDataType {
+  schema: string;
+  /** Table (unqualified) */
+  table: string;
+  column: string;
+  /**
+   * Type name as in `pg_type` (`uuid`, `timestamptz`, `int8`, ...); enums and domains
+   * are schema-qualified (`public.order_status`)
+   */
+  type: string;
+}
+
+export interface LoadColumnTypesOptions {
+  /**
+   * Schema of the tables
+   * @default 'public'
+   */
+  schema?: string;
+}
+
+interface TableRow {
+  schema: string;
+  table: string;
+  rls_enabled: boolean;
+  rls_forced: boolean;
+}
+
+interface PolicyRow {
+  schema: string;
+  table: string;
+  name: string;
+  permissive: string;
+  roles: string[] | string | null;
+  cmd: string;
+  qual: string | null;
+  with_check: string | null;
+}
+
+const TABLES_QUERY = `SELECT n.nspname AS schema, c.relname AS table,
+  c.relrowsecurity AS rls_enabled, c.relforcerowsecurity AS rls_forced
+FROM pg_class c
+JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE n.nspname = $1
+  AND c.relkind IN ('r', 'p')
+  AND ($2::text[] IS NULL OR c.relname = ANY($2::text[]))
+ORDER BY c.relname`;
+
+const POLICIES_QUERY = `SELECT p.schemaname AS schema, p.tablename AS table, p.policyname AS name,
+  p.permissive, p.roles::text[] AS roles, p.cmd, p.qual, p.with_check
+FROM pg_policies p
+WHERE p.schemaname = $1
+  AND ($2::text[] IS NULL OR p.tablename = ANY($2::text[]))
+ORDER BY p.tablename, p.policyname`;
+
+interface RelationshipRow {
+  schema: string;
+  table: string;
+  foreign_key_name: string;
+  columns: string[] | string;
+  referenced_schema: string;
+  referenced_relation: string;
+  referenced_columns: string[] | string;
+}
+
+// Key columns in constraint order
+const keyColumns = (keys: string, rel: string) =>
+  `ARRAY(SELECT a.attname::text FROM unnest(con.${keys}) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = con.${rel} AND a.attnum = k.attnum ORDER BY k.ord)`;
+
+const RELATIONSHIPS_QUERY = `SELECT n.nspname AS schema, c.relname AS table, con.conname AS foreign_key_name,
+  ${keyColumns('conkey', 'conrelid')} AS columns,
+  rn.nspname AS referenced_schema, rc.relname AS referenced_relation,
+  ${keyColumns('confkey', 'confrelid')} AS referenced_columns
+FROM pg_constraint con
+JOIN pg_class c ON c.oid = con.conrelid
+JOIN pg_namespace n ON n.oid = c.relnamespace
+JOIN pg_class rc ON rc.oid = con.confrelid
+JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+WHERE con.contype = 'f' AND n.nspname = $1
+ORDER BY c.relname, con.conname`;
+
+interface ColumnTypeRow {
+  schema: string;
+  table: string;
+  column: string;
+  type: string;
+}
+
+// Array columns are left out: their values aren't cast
+const COLUMN_TYPES_QUERY = `SELECT n.nspname AS schema, c.relname AS table, a.attname AS column,
+  CASE WHEN t.typtype IN ('e', 'd') THEN tn.nspname || '.' || t.typname ELSE t.typname END AS type
+FROM pg_attribute a
+JOIN pg_class c ON c.oid = a.attrelid
+JOIN pg_namespace n ON n.oid = c.relnamespace
+JOIN pg_type t ON t.oid = a.atttypid
+JOIN pg_namespace tn ON tn.oid = t.typnamespace
+WHERE n.nspname = $1
+  AND c.relkind IN ('r', 'p')
+  AND a.attnum > 0 AND NOT a.attisdropped
+  AND t.typcategory <> 'A'
+ORDER BY c.relname, a.attnum`;
+
+function qualifiedTableName(schema: string, table: string): string {
+  return schema === 'public' ? table : `${schema}.${table}`;
+}
+
+// pg returns text[] as a JS array, but other drivers may hand back the '{a,b}' literal
+function parseTextArray(values: string[] | string | null): string[] {
+  if (!values) return [];
+  if (Array.isArray(values)) return values;
+  return values
+    .replace(/^\{|\}$/g, '')
+    .split(',')
+    .map((r) => r.replace(/^"|"$/g, ''))
+    .filter((r) => r.length > 0);
+}
+
+function expressionToCondition(
+  expression: string | null
+): Condition | undefined {
+  if (expression === null || expression === undefined) return undefined;
+  return parseCondition(expression);
+}
+
+function rowToDefinition(row: PolicyRow): PolicyDefinition {
+  const roles = parseTextArray(row.roles);
+  return {
+    name: row.name,
+    table: qualifiedTableName(row.schema, row.table),
+    operation: row.cmd as PolicyOperation,
+    role: roles.length > 0 ? roles.join(', ') : undefined,
+    type: row.permissive === 'RESTRICTIVE' ? 'RESTRICTIVE' : 'PERMISSIVE',
+    using: expressionToCondition(row.qual),
+    withCheck: expressionToCondition(row.with_check),
+  };
+}
+
+/**
+ * Read the policies deployed in a schema, along with each table's RLS status.
+ *
+ * USING / WITH CHECK bodies are parsed back into conditions (see `parseCondition`);
+ * fragments without a structured equivalent are kept as raw SQL, so regenerating a
+ * loaded builder produces an equivalent policy.
+ *
+ * @param client A pg `Client` or `PoolClient`
+ * @param options Schema and optional table filter
+ *
+ * @example
+ * ```typescript
+ * const { tables, policies, builders } = await loadPolicies(client, {
+ *   tables: ['documents'],
+ * });
+ * console.log(builders.map((b) => b.toSQL()).join(';\n'));
+ * ```
+ */
+export async function loadPolicies(
+  client: QueryClient,
+  options: LoadPoliciesOptions = {}
+): Promise<LoadedPolicies> {
+  const schema = options.schema ?? 'public';
+  const tableFilter = options.tables ?? null;
+
+  const tableResult = await client.query(TABLES_QUERY, [schema, tableFilter]);
+  const policyResult = await client.query(POLICIES_QUERY, [
+    schema,
+    tableFilter,
+  ]);
+
+  const tables = (tableResult.rows as TableRow[]).map((row) => ({
+    schema: row.schema,
+    table: qualifiedTableName(row.schema, row.table),
+    rlsEnabled: row.rls_enabled,
+    rlsForced: row.rls_forced,
+  }));
+  const policies = (policyResult.rows as PolicyRow[]).map(rowToDefinition);
+  const builders = policies.map((def) => PolicyBuilder.fromDefinition(def));
+
+  return { tables, policies, builders };
+}
+
+/**
+ * Read the foreign keys of a schema's tables, for relationship-aware typed templates
+ * (`createRowguard<Database>({ relationships })`).
+ *
+ * @param client A pg `Client` or `PoolClient`
+ * @param options Schema of the referencing tables
+ *
+ * @example
+ * ```typescript
+ * const rg = createRowguard<Database>({ relationships: await loadRelationships(client) });
+ * rg.policies.inheritFrom({ table: 'tasks', parent: 'projects' });
+ * ```
+ */
+export async function loadRelationships(
+  client: QueryClient,
+  options: LoadRelationshipsOptions = {}
+): Promise<Relationship[]> {
+  const result = await client.query(RELATIONSHIPS_QUERY, [
+    options.schema ?? 'public',
+  ]);
+  return (result.rows as RelationshipRow[]).map((row) => ({
+    schema: row.schema,
+    table: row.table,
+    foreignKeyName: row.foreign_key_name,
+    columns: parseTextArray(row.columns),
+    referencedSchema: row.referenced_schema,
+    referencedRelation: row.referenced_relation,
+    referencedColumns: parseTextArray(row.referenced_columns),
+  }));
+}
+
+/**
+ * Read the column types of a schema's tables, so the typed API can cast literals
+ * (`createRowguard<Database>({ columnTypes })`). Supabase generated types map uuids,
+ * timestamps and enums to `string`, so the Postgres type has to come from the database.
+ *
+ * @param client A pg `Client` or `PoolClient`
+ * @param options Schema of the tables
+ *
+ * @example
+ * ```typescript
+ * const rg = createRowguard<Database>({ columnTypes: await loadColumnTypes(client) });
+ * rg.column('orders', 'id').eq('1b4e28ba-2fa1-11d2-883f-0016d3cca427');
+ * // "orders"."id" = '1b4e28ba-2fa1-11d2-883f-0016d3cca427'::uuid
+ * ```
+ */
+export async function loadColumnTypes(
+  client: QueryClient,
+  options: LoadColumnTypesOptions = {}
+): Promise<ColumnDataType[]> {
+  const result = await client.query(COLUMN_TYPES_QUERY, [
+    options.schema ?? 'public',
+  ]);
+  return (result.rows as ColumnTypeRow[]).map((row) => ({
+    schema: row.schema,
+    table: row.table,
+    column: row.column,
+    type: row.type,
+  }));
+}
@@ -0,0 +1,300 @@
+/**
+ * JSONB conditions: paths into a jsonb column, key checks, containment and jsonpath predicates
+ */
+
+import { ConditionChain } from './column';
+import { escapeIdentifier, escapeJson, escapeValue } from './sql';
+import {
+  ComparisonOperator,
+  Condition,
+  ContextValue,
+  JsonCondition,
+  JsonOperator,
+  JsonValue,
+  SQLExpression,
+} from './types';
+
+type JsonOperand = JsonValue | ContextValue | SQLExpression;
+
+const COMPARISON_SQL: Record<ComparisonOperator, string> = {
+  eq: '=',
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const KEY_OPERATOR_SQL: Partial<Record<JsonOperator, string>> = {
+  contains: '@>',
+  'contained by': '<@',
+  'has key': '?',
+  'has any keys': '?|',
+  'has all keys': '?&',
+  'path exists': '@?',
+  'path match': '@@',
+};
+
+/**
+ * Whether a value is compared as text (`->>`) rather than as jsonb (`->`). Strings compare
+ * as text so `eq('admin')` matches the JSON string "admin"; context values and SQL
+ * expressions are text too (auth.uid(), session variables).
+ */
+export function comparesAsText(value: JsonOperand | undefined): boolean {
+  return (
+    typeof value === 'string' ||
+    value instanceof SQLExpression ||
+    (typeof value === 'object' &&
+      value !== null &&
+      (value as Condition).type === 'context')
+  );
+}
+
+/**
+ * The column followed by its path, as jsonb or, when `asText`, with the last step as text
+ */
+export function jsonPathSQL(
+  column: string,
+  path: (string | number)[],
+  asText = false
+): string {
+  if (path.length === 0) {
+    return asText
+      ? `(${escapeIdentifier(column)} #>> '{}')`
+      : escapeIdentifier(column);
+  }
+  const steps = path.map((key, i) => {
+    const arrow = asText && i === path.length - 1 ? '->>' : '->';
+    return `${arrow} ${typeof key === 'number' ? key : escapeValue(key)}`;
+  });
+  return `${escapeIdentifier(column)} ${steps.join(' ')}`;
+}
+
+function operandSQL(value: JsonOperand): string {
+  if (value instanceof SQLExpression) return value.toSQL();
+  if (comparesAsText(value)) {
+    const escaped = escapeValue(value as string | ContextValue);
+    return typeof value === 'string' ? escaped : `${escaped}::text`;
+  }
+  return escapeJson(value as JsonValue);
+}
+
+/**
+ * Build a JSONB condition node. Used by `jsonPath()` and the JSONB methods on `column()`.
+ */
+export function jsonCondition(
+  column: string,
+  path: (string | number)[],
+  operator: JsonOperator,
+  value?: JsonOperand
+): ConditionChain {
+  return new ConditionChain({
+    type: 'json',
+    column,
+    path,
+    operator,
+    value,
+    toSQL(): string {
+      if (operator in COMPARISON_SQL) {
+        const asText = comparesAsText(value);
+        return `${jsonPathSQL(column, path, asText)} ${
+          COMPARISON_SQL[operator as ComparisonOperator]
+        } ${operandSQL(value as JsonOperand)}`;
+      }
+      switch (operator) {
+        case 'in':
+          return `${jsonPathSQL(column, path, true)} IN (${(value as string[])
+            .map((v) => escapeValue(v))
+            .join(', ')})`;
+        case 'null':
+          return `${jsonPathSQL(column, path, true)} IS NULL`;
+        case 'not null':
+          return `${jsonPathSQL(column, path, true)} IS NOT NULL`;
+        case 'contains':
+        case 'contained by':
+          return `${jsonPathSQL(column, path)} ${KEY_OPERATOR_SQL[operator]} ${escapeJson(value as JsonValue)}`;
+        default:
+          return `${jsonPathSQL(column, path)} ${KEY_OPERATOR_SQL[operator]} ${escapeValue(value as string | string[])}`;
+      }
+    },
+  } as JsonCondition);
+}
+
+function requireKeys(method: string, keys: string[]): string[] {
+  if (keys.length === 0) {
+    throw new Error(`${method}() needs at least one key`);
+  }
+  return keys;
+}
+
+/**
+ * A value inside a jsonb column, reached by following object keys and array indexes
+ */
+export class JsonPath {
+  constructor(
+    private readonly column: string,
+    private readonly path: (string | number)[] = []
+  ) {
+    for (const key of path) {
+      if (typeof key === 'number' ? !Number.isInteger(key) : key === '') {
+        throw new Error(
+          `Invalid JSON path step ${JSON.stringify(key)} on column "${column}"`
+        );
+      }
+    }
+  }
+
+  private condition(
+    operator: JsonOperator,
+    value?: JsonOperand
+  ): ConditionChain {
+    return jsonCondition(this.column, this.path, operator, value);
+  }
+
+  /**
+   * Equals. Strings, context values and SQL expressions compare as text (`->>`), other
+   * values as jsonb (`->`), so `eq(5)` matches the JSON number 5 and `eq('5')` the string.
+   *
+   * @example
+   * ```typescript
+   * jsonPath('metadata', 'owner').eq(auth.uid())
+   * // "metadata" ->> 'owner' = (SELECT auth.uid())::text
+   * ```
+   */
+  eq(value: JsonOperand): ConditionChain {
+    return this.condition('eq', value);
+  }
+
+  neq(value: JsonOperand): ConditionChain {
+    return this.condition('neq', value);
+  }
+
+  gt(value: JsonOperand): ConditionChain {
+    return this.condition('gt', value);
+  }
+
+  gte(value: JsonOperand): ConditionChain {
+    return this.condition('gte', value);
+  }
+
+  lt(value: JsonOperand): ConditionChain {
+    return this.condition('lt', value);
+  }
+
+  lte(value: JsonOperand): ConditionChain {
+    return this.condition('lte', value);
+  }
+
+  /**
+   * Value (as text) is one of `values`
+   */
+  in(values: string[]): ConditionChain {
+    if (values.length === 0) {
+      throw new Error('in() needs at least one value');
+    }
+    return this.condition('in', values);
+  }
+
+  /**
+   * Key is missing or holds JSON null
+   */
+  isNull(): ConditionChain {
+    return this.condition('null');
+  }
+
+  isNotNull(): ConditionChain {
+    return this.condition('not null');
+  }
+
+  /**
+   * jsonb containment (`@>`)
+   *
+   * @example
+   * ```typescript
+   * jsonPath('settings', 'features').contains(['beta'])
+   * // "settings" -> 'features' @> '["beta"]'::jsonb
+   * ```
+   */
+  contains(value: JsonValue): ConditionChain {
+    return this.condition('contains', value);
+  }
+
+  /**
+   * jsonb is contained in `value` (`<@`)
+   */
+  containedBy(value: JsonValue): ConditionChain {
+    return this.condition('contained by', value);
+  }
+
+  /**
+   * Object has the key, or array has the string element (`?`)
+   */
+  hasKey(key: string): ConditionChain {
+    return this.condition('has key', key);
+  }
+
+  /**
+   * Object has at least one of the keys (`?|`)
+   */
+  hasAnyKey(keys: string[]): ConditionChain {
+    return this.condition('has any keys', requireKeys('hasAnyKey', keys));
+  }
+
+  /**
+   * Object has every key (`?&`)
+   */
+  hasAllKeys(keys: string[]): ConditionChain {
+    return this.condition('has all keys', requireKeys('hasAllKeys', keys));
+  }
+
+  /**
+   * jsonpath returns at least one item (`@?`)
+   *
+   * @example
+   * ```typescript
+   * jsonPath('metadata').jsonPathExists('$.tags[*] ? (@ == "public")')
+   * ```
+   */
+  jsonPathExists(jsonpath: string): ConditionChain {
+    return this.condition('path exists', jsonpath);
+  }
+
+  /**
+   * jsonpath predicate is true (`@@`)
+   *
+   * @example
+   * ```typescript
+   * jsonPath('metadata').jsonPathMatches('$.priority > 2')
+   * ```
+   */
+  jsonPathMatches(jsonpath: string): ConditionChain {
+    return this.condition('path match', jsonpath);
+  }
+
+  /**
+   * The jsonb value at the path
+   */
+  toSQL(): string {
+    return jsonPathSQL(this.column, this.path);
+  }
+}
+
+/**
+ * Reference a value inside a jsonb column by following object keys and array indexes.
+ * With no keys it is the column itself, compared as jsonb.
+ *
+ * @example
+ * ```typescript
+ * policy('team_documents')
+ *   .on('documents')
+ *   .read()
+ *   .when(jsonPath('metadata', 'team', 'id').eq(auth.jwt('app_metadata.team_id')))
+ * // "metadata" -> 'team' ->> 'id' = (SELECT auth.jwt() -> 'app_metadata' ->> 'team_id')::text
+ * ```
+ */
+export function jsonPath(
+  column: string,
+  ...path: (string | number)[]
+): JsonPath {
+  return new JsonPath(column, path);
+}
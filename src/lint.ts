@@ -0,0 +1,520 @@
+/**
+ * Policy linter: rule-based checks for common RLS mistakes
+ */
+
+import { PolicyBuilder } from './policy-builder';
+import { SubqueryBuilder } from './subquery-builder';
+import { Literal, OuterReference } from './sql';
+import { SQLExpression } from './types';
+import type {
+  ComparisonCondition,
+  Condition,
+  FunctionCondition,
+  HelperCondition,
+  JsonCondition,
+  LogicalCondition,
+  MembershipCondition,
+  PolicyDefinition,
+  SubqueryCondition,
+  SubqueryDefinition,
+} from './types';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Known columns per table, e.g. `{ documents: ['id', 'user_id', 'title'] }`
+ */
+export type LintSchema = Record<string, string[]>;
+
+export interface LintPolicy {
+  definition: PolicyDefinition;
+  builder: PolicyBuilder;
+}
+
+export interface LintRuleContext {
+  policies: LintPolicy[];
+  schema?: LintSchema;
+}
+
+export interface LintFinding {
+  message: string;
+  table?: string;
+  policy?: string;
+}
+
+export interface LintRule {
+  /** Stable identifier used for configuration and suppressions, e.g. 'missing-role' */
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(context: LintRuleContext): LintFinding[];
+}
+
+export interface LintIssue extends LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+}
+
+export interface LintSuppression {
+  rule: string;
+  /** Only suppress findings for this table */
+  table?: string;
+  /** Only suppress findings for this policy */
+  policy?: string;
+}
+
+export interface LintOptions {
+  /** Override rule severities, or turn rules off */
+  rules?: Record<string, LintSeverity | 'off'>;
+  /** Additional project-specific rules, run after the built-in ones */
+  customRules?: LintRule[];
+  /** Findings to ignore */
+  suppressions?: LintSuppression[];
+}
+
+// ─── Condition helpers ───────────────────────────────────────────────────────
+
+function subqueryOf(value: unknown): SubqueryDefinition | undefined {
+  if (value instanceof SubqueryBuilder) return value.toSubquery();
+  if (
+    value &&
+    typeof value === 'object' &&
+    'from' in value &&
+    'select' in value
+  ) {
+    return value as SubqueryDefinition;
+  }
+  return undefined;
+}
+
+function subqueryConditions(def: SubqueryDefinition): Condition[] {
+  const joins = def.joins ?? (def.join ? [def.join] : []);
+  return [...joins.map((j) => j.on), ...(def.where ? [def.where] : [])];
+}
+
+// Raw SQL embedded in a condition: sqlCondition() bodies and sql() values
+function rawFragments(condition: Condition | undefined): string[] {
+  if (!condition) return [];
+  switch (condition.type) {
+    case 'comparison': {
+      const value = (condition as ComparisonCondition).value;
+      if (value instanceof OuterReference || value instanceof Literal)
+        return [];
+      if (value instanceof SQLExpression) return [value.toSQL()];
+      if (
+        value &&
+        typeof value === 'object' &&
+        !(value instanceof Date) &&
+        (value as Condition).type !== 'context'
+      ) {
+        return rawFragments(value as Condition);
+      }
+      return [];
+    }
+    case 'membership': {
+      const value = (condition as MembershipCondition).value;
+      if (value instanceof SQLExpression) return [value.toSQL()];
+      const subquery = subqueryOf(value);
+      return subquery ? subqueryConditions(subquery).flatMap(rawFragments) : [];
+    }
+    case 'json': {
+      const value = (condition as JsonCondition).value;
+      return value instanceof SQLExpression ? [value.toSQL()] : [];
+    }
+    case 'subquery':
+      return subqueryConditions(
+        (condition as SubqueryCondition).subquery
+      ).flatMap(rawFragments);
+    case 'logical':
+      return (condition as LogicalCondition).conditions.flatMap(rawFragments);
+    case 'function':
+      return (condition as FunctionCondition).arguments.flatMap((arg) =>
+        typeof arg === 'string' ? [] : rawFragments(arg)
+      );
+    case 'helper':
+      return (condition as HelperCondition).helperType === 'raw'
+        ? [condition.toSQL()]
+        : [];
+    case 'pattern':
+    case 'null':
+    case 'context':
+      return [];
+    default:
+      // Conditions from outside the builders: all we have is their SQL
+      return [condition.toSQL()];
+  }
+}
+
+function policyFragments(def: PolicyDefinition): string[] {
+  return [...rawFragments(def.using), ...rawFragments(def.withCheck)];
+}
+
+function isTriviallyTrue(condition: Condition | undefined): boolean {
+  if (!condition) return false;
+  if (condition.type === 'helper') {
+    const helper = condition as HelperCondition;
+    if (helper.helperType === 'alwaysTrue') return true;
+    return (
+      helper.helperType === 'raw' &&
+      /^\(*\s*true\s*\)*$/i.test(helper.toSQL().trim())
+    );
+  }
+  if (condition.type === 'logical') {
+    const logical = condition as LogicalCondition;
+    if (logical.operator === 'NOT') return false;
+    return logical.operator === 'OR'
+      ? logical.conditions.some(isTriviallyTrue)
+      : logical.conditions.every(isTriviallyTrue);
+  }
+  return false;
+}
+
+// Column references per table, resolving aliases inside subqueries
+function referencedColumns(
+  condition: Condition | undefined,
+  table: string
+): [string, string][] {
+  const refs: [string, string][] = [];
+  const visit = (
+    cond: Condition,
+    current: string,
+    aliases: Map<string, string>
+  ): void => {
+    const add = (ref: string) => {
+      const dot = ref.lastIndexOf('.');
+      if (dot === -1) refs.push([current, ref]);
+      else {
+        const qualifier = ref.slice(0, dot);
+        refs.push([aliases.get(qualifier) ?? qualifier, ref.slice(dot + 1)]);
+      }
+    };
+    const visitSubquery = (subquery: SubqueryDefinition) => {
+      const scoped = new Map(aliases);
+      if (subquery.alias) scoped.set(subquery.alias, subquery.from);
+      for (const join of subquery.joins ??
+        (subquery.join ? [subquery.join] : [])) {
+        if (join.alias) scoped.set(join.alias, join.table);
+      }
+      subqueryConditions(subquery).forEach((c) =>
+        visit(c, subquery.from, scoped)
+      );
+    };
+    switch (cond.type) {
+      case 'comparison': {
+        const { column, value } = cond as ComparisonCondition;
+        add(column);
+        // outer() columns belong to the policy table
+        if (value instanceof OuterReference && !value.column.includes('.'))
+          refs.push([table, value.column]);
+        break;
+      }
+      case 'pattern':
+      case 'null':
+      case 'json':
+        add((cond as ComparisonCondition).column);
+        break;
+      case 'membership': {
+        const membership = cond as MembershipCondition;
+        add(membership.column);
+        const subquery = subqueryOf(membership.value);
+        if (subquery) visitSubquery(subquery);
+        break;
+      }
+      case 'subquery': {
+        const sub = cond as SubqueryCondition;
+        if (sub.column) add(sub.column);
+        visitSubquery(sub.subquery);
+        break;
+      }
+      case 'logical':
+        (cond as LogicalCondition).conditions.forEach((c) =>
+          visit(c, current, aliases)
+        );
+        break;
+    }
+  };
+  if (condition) visit(condition, table, new Map());
+  return refs;
+}
+
+const AUTH_CALL = /auth\.(uid|jwt|role)\s*\(\s*\)/gi;
+
+// ─── Built-in rules ──────────────────────────────────────────────────────────
+
+const authInitPlan: LintRule = {
+  id: 'auth-initplan',
+  severity: 'warning',
+  description:
+    'auth.*() in raw SQL should be wrapped in (SELECT ...) so Postgres evaluates it once per query',
+  check({ policies }) {
+    const findings: LintFinding[] = [];
+    for (const { definition: def } of policies) {
+      for (const fragment of policyFragments(def)) {
+        for (const match of fragment.matchAll(AUTH_CALL)) {
+          if (!/\(\s*select\s+$/i.test(fragment.slice(0, match.index))) {
+            findings.push({
+              table: def.table,
+              policy: def.name,
+              message: `${match[0]} in raw SQL is not wrapped in (SELECT ...) and is re-evaluated for every row`,
+            });
+          }
+        }
+      }
+    }
+    return findings;
+  },
+};
+
+const updateWithoutCheck: LintRule = {
+  id: 'update-without-check',
+  severity: 'warning',
+  description: 'UPDATE policies should state WITH CHECK explicitly',
+  check({ policies }) {
+    return policies
+      .filter(
+        ({ definition: def }) =>
+          def.operation === 'UPDATE' && def.using && !def.withCheck
+      )
+      .map(({ definition: def }) => ({
+        table: def.table,
+        policy: def.name,
+        message:
+          'UPDATE policy has USING but no WITH CHECK; rows can be rewritten into any state USING allows',
+      }));
+  },
+};
+
+const alwaysTrueWrite: LintRule = {
+  id: 'always-true-write',
+  severity: 'error',
+  description: 'Write operations should not be allowed unconditionally',
+  check({ policies }) {
+    return policies
+      .filter(
+        ({ definition: def }) =>
+          def.operation !== 'SELECT' &&
+          def.type !== 'RESTRICTIVE' &&
+          (isTriviallyTrue(def.using) || isTriviallyTrue(def.withCheck))
+      )
+      .map(({ definition: def }) => ({
+        table: def.table,
+        policy: def.name,
+        message: `${def.operation} policy is always true; every role it applies to can write any row`,
+      }));
+  },
+};
+
+const missingRole: LintRule = {
+  id: 'missing-role',
+  severity: 'warning',
+  description: 'Policies should name the roles they apply to',
+  check({ policies }) {
+    return policies
+      .filter(({ definition: def }) => !def.role)
+      .map(({ definition: def }) => ({
+        table: def.table,
+        policy: def.name,
+        message: 'Policy has no TO role and applies to PUBLIC, including anon',
+      }));
+  },
+};
+
+const userMetadata: LintRule = {
+  id: 'user-metadata',
+  severity: 'error',
+  description:
+    'user_metadata is editable by the user and must not drive authorization',
+  check({ policies }) {
+    return policies
+      .filter(({ definition: def }) =>
+        policyFragments(def).some((f) =>
+          /user_metadata|raw_user_meta_data/i.test(f)
+        )
+      )
+      .map(({ definition: def }) => ({
+        table: def.table,
+        policy: def.name,
+        message:
+          'Raw SQL reads user_metadata, which users can edit themselves; use app_metadata',
+      }));
+  },
+};
+
+const restrictiveOnly: LintRule = {
+  id: 'restrictive-only',
+  severity: 'warning',
+  description:
+    'RESTRICTIVE policies only narrow access granted by PERMISSIVE ones',
+  check({ policies }) {
+    const permissive = new Set(
+      policies
+        .filter((p) => p.definition.type !== 'RESTRICTIVE')
+        .map((p) => p.definition.table)
+    );
+    const tables = new Set(
+      policies
+        .filter((p) => p.definition.type === 'RESTRICTIVE')
+        .map((p) => p.definition.table)
+    );
+    return [...tables]
+      .filter((table) => !permissive.has(table))
+      .map((table) => ({
+        table,
+        message: `"${table}" has a RESTRICTIVE policy but no PERMISSIVE policy; all rows will be invisible`,
+      }));
+  },
+};
+
+const subqueryTableWithoutPolicy: LintRule = {
+  id: 'subquery-table-without-policy',
+  severity: 'info',
+  description:
+    'Tables read by subqueries need a policy of their own to return rows',
+  check({ policies }) {
+    const permissive = new Set(
+      policies
+        .filter((p) => p.definition.type !== 'RESTRICTIVE')
+        .map((p) => p.definition.table)
+    );
+    const seen = new Set<string>();
+    const findings: LintFinding[] = [];
+    for (const { builder } of policies) {
+      for (const table of builder.membershipTables()) {
+        if (!permissive.has(table) && !seen.has(table)) {
+          seen.add(table);
+          findings.push({
+            table,
+            message: `"${table}" needs a SELECT policy for subqueries to return rows`,
+          });
+        }
+      }
+    }
+    return findings;
+  },
+};
+
+const unknownColumn: LintRule = {
+  id: 'unknown-column',
+  severity: 'error',
+  description:
+    'Conditions should only reference columns that exist (requires a schema)',
+  check({ policies, schema }) {
+    if (!schema) return [];
+    const findings: LintFinding[] = [];
+    for (const { definition: def } of policies) {
+      const seen = new Set<string>();
+      for (const [table, column] of [
+        ...referencedColumns(def.using, def.table),
+        ...referencedColumns(def.withCheck, def.table),
+      ]) {
+        const columns = schema[table];
+        const key = `${table}.${column}`;
+        if (columns && !columns.includes(column) && !seen.has(key)) {
+          seen.add(key);
+          findings.push({
+            table: def.table,
+            policy: def.name,
+            message: `Column "${column}" does not exist on "${table}"`,
+          });
+        }
+      }
+    }
+    return findings;
+  },
+};
+
+const tableWithoutPolicies: LintRule = {
+  id: 'table-without-policies',
+  severity: 'info',
+  description:
+    'Schema tables without policies deny all access once RLS is enabled (requires a schema)',
+  check({ policies, schema }) {
+    if (!schema) return [];
+    const covered = new Set(policies.map((p) => p.definition.table));
+    return Object.keys(schema)
+      .filter((table) => !covered.has(table))
+      .map((table) => ({
+        table,
+        message: `"${table}" has no policies; with RLS enabled it returns no rows`,
+      }));
+  },
+};
+
+/**
+ * Rules run by `lintPolicies()`, in order
+ */
+export const builtinLintRules: readonly LintRule[] = [
+  authInitPlan,
+  updateWithoutCheck,
+  alwaysTrueWrite,
+  missingRole,
+  userMetadata,
+  restrictiveOnly,
+  subqueryTableWithoutPolicy,
+  unknownColumn,
+  tableWithoutPolicies,
+];
+
+function isSuppressed(
+  issue: LintIssue,
+  suppressions: LintSuppression[]
+): boolean {
+  return suppressions.some(
+    (s) =>
+      s.rule === issue.ruleId &&
+      (s.table === undefined || s.table === issue.table) &&
+      (s.policy === undefined || s.policy === issue.policy)
+  );
+}
+
+/**
+ * Check policies for common RLS mistakes.
+ *
+ * Every finding carries the rule ID and severity. Rules can be re-graded or turned off
+ * through `options.rules`, individual findings silenced through `options.suppressions`,
+ * and project-specific checks added through `options.customRules`. Incomplete builders
+ * (no table or operation yet) are skipped.
+ *
+ * @param policies Builders or definitions to check
+ * @param schema Known columns per table, enabling the `unknown-column` and
+ * `table-without-policies` rules
+ * @param options Severity overrides, custom rules and suppressions
+ *
+ * @example
+ * ```typescript
+ * const issues = lintPolicies(allPolicies, { documents: ['id', 'user_id'] }, {
+ *   rules: { 'missing-role': 'off' },
+ *   suppressions: [{ rule: 'always-true-write', table: 'audit_log' }],
+ * });
+ * const errors = issues.filter((i) => i.severity === 'error');
+ * ```
+ */
+export function lintPolicies(
+  policies: (PolicyBuilder | PolicyDefinition)[],
+  schema?: LintSchema,
+  options: LintOptions = {}
+): LintIssue[] {
+  const entries: LintPolicy[] = [];
+  for (const p of policies) {
+    try {
+      const builder =
+        p instanceof PolicyBuilder ? p : PolicyBuilder.fromDefinition(p);
+      entries.push({ builder, definition: builder.toDefinition() });
+    } catch {
+      /* incomplete policy */
+    }
+  }
+
+  const context: LintRuleContext = { policies: entries, schema };
+  const suppressions = options.suppressions ?? [];
+  const issues: LintIssue[] = [];
+  for (const rule of [...builtinLintRules, ...(options.customRules ?? [])]) {
+    const severity = options.rules?.[rule.id] ?? rule.severity;
+    if (severity === 'off') continue;
+    for (const finding of rule.check(context)) {
+      const issue: LintIssue = { ruleId: rule.id, severity, ...finding };
+      if (!isSuppressed(issue, suppressions)) issues.push(issue);
+    }
+  }
+  return issues;
+}
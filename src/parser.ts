@@ -0,0 +1,1408 @@
+/**
+ * SQL expression parser: turns USING / WITH CHECK bodies back into the Condition AST
+ *
+ * Handles both hand-written SQL and the form Postgres deparses stored policies into
+ * (`pg_get_expr`), e.g. `(user_id = ( SELECT auth.uid() AS uid))` or
+ * `(status = ANY (ARRAY['a'::text, 'b'::text]))`. Anything it cannot map onto a
+ * builder falls back to a raw SQL condition for just that fragment.
+ */
+
+import type {
+  Condition,
+  ContextValue,
+  JsonObject,
+  JsonValue,
+  MembershipCondition,
+  PolicyDefinition,
+  PolicyOperation,
+  SessionVariableType,
+} from './types';
+import { SQLExpression } from './types';
+import {
+  ColumnBuilder,
+  ConditionChain,
+  alwaysTrue,
+  call,
+  column,
+  exists,
+  notExists,
+  sqlCondition,
+} from './column';
+import { auth, session, currentUser, now, nowMinus } from './context';
+import { from, SubqueryBuilder } from './subquery-builder';
+import { literal, outer, sql } from './sql';
+import { jsonPath, JsonPath } from './json';
+
+type TokenKind = 'string' | 'quoted' | 'word' | 'number' | 'op' | 'punct';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  /** Unquoted identifier / unescaped string content; lowercased for words */
+  value: string;
+  start: number;
+  end: number;
+}
+
+type Literal = string | number | boolean | null;
+
+type Operand =
+  | { kind: 'column'; name: string; text: string }
+  | { kind: 'literal'; value: Literal; text: string; cast?: string }
+  | { kind: 'value'; value: ContextValue | SQLExpression; text: string };
+
+// A column followed by -> / ->> steps
+interface JsonPathOperand {
+  column: string;
+  path: (string | number)[];
+  /** Last step is ->> */
+  asText: boolean;
+}
+
+// jsonb key and jsonpath operators, mapped to their JsonPath methods
+const JSONB_OPERATORS: Record<
+  string,
+  'hasKey' | 'hasAnyKey' | 'hasAllKeys' | 'jsonPathExists' | 'jsonPathMatches'
+> = {
+  '?': 'hasKey',
+  '?|': 'hasAnyKey',
+  '?&': 'hasAllKeys',
+  '@?': 'jsonPathExists',
+  '@@': 'jsonPathMatches',
+};
+
+interface SubqueryScope {
+  /** Table name whose qualifier is stripped from column refs (single-table subqueries) */
+  strip?: string;
+  /** Table names and aliases that column refs may be qualified with */
+  tables: Set<string>;
+}
+
+class ParseError extends Error {}
+
+function isJsonObject(value: JsonValue): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const TOKEN_PATTERN =
+  /\s+|--[^\n]*|\/\*[\s\S]*?\*\/|\$([A-Za-z_]*)\$[\s\S]*?\$\1\$|'(?:[^']|'')*'|"(?:[^"]|"")*"|[A-Za-z_][A-Za-z0-9_$]*|\d+(?:\.\d+)?|::|[+\-*/<>=~!@#%^&|?]+|[(),.;[\]]|./g;
+
+const COMPARISON_OPERATORS: Record<
+  string,
+  'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+> = {
+  '=': 'eq',
+  '<>': 'neq',
+  '!=': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const FLIPPED: Record<string, string> = {
+  '=': '=',
+  '<>': '<>',
+  '!=': '!=',
+  '>': '<',
+  '>=': '<=',
+  '<': '>',
+  '<=': '>=',
+};
+
+// Words that end a predicate inside a subquery (besides AND / OR / closing paren)
+const CLAUSE_BOUNDARIES = new Set([
+  'where',
+  'join',
+  'inner',
+  'left',
+  'right',
+  'full',
+  'on',
+  'group',
+  'order',
+  'limit',
+]);
+
+const TYPE_CONTINUATIONS = new Set([
+  'varying',
+  'precision',
+  'with',
+  'without',
+  'time',
+  'zone',
+]);
+
+// Casts Postgres adds to string literals that carry no type information
+const TEXT_CASTS = new Set([
+  'text',
+  'character varying',
+  'varchar',
+  'character',
+  'bpchar',
+  'name',
+  'unknown',
+]);
+
+const LITERAL_CASTS: Record<string, string> = {
+  'timestamp with time zone': 'timestamptz',
+  'timestamp without time zone': 'timestamp',
+};
+
+const SESSION_TYPES: Record<string, SessionVariableType> = {
+  integer: 'integer',
+  int: 'integer',
+  int4: 'integer',
+  uuid: 'uuid',
+  boolean: 'boolean',
+  bool: 'boolean',
+  timestamp: 'timestamp',
+  text: 'text',
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+    const text = match[0];
+    const start = match.index;
+    const end = start + text.length;
+    if (/^\s+$/.test(text) || /^(--|\/\*)/.test(text)) continue;
+    if (text.startsWith('$')) {
+      // Dollar-quoted function bodies are only ever skipped over
+      tokens.push({ kind: 'string', text, value: text, start, end });
+    } else if (text.startsWith("'")) {
+      tokens.push({
+        kind: 'string',
+        text,
+        value: text.slice(1, -1).replace(/''/g, "'"),
+        start,
+        end,
+      });
+    } else if (text.startsWith('"')) {
+      tokens.push({
+        kind: 'quoted',
+        text,
+        value: text.slice(1, -1).replace(/""/g, '"'),
+        start,
+        end,
+      });
+    } else if (/^[A-Za-z_]/.test(text)) {
+      tokens.push({
+        kind: 'word',
+        text,
+        value: text.toLowerCase(),
+        start,
+        end,
+      });
+    } else if (/^\d/.test(text)) {
+      tokens.push({ kind: 'number', text, value: text, start, end });
+    } else if (/^[(),.;[\]]$/.test(text) || text === '::') {
+      tokens.push({ kind: 'punct', text, value: text, start, end });
+    } else {
+      tokens.push({ kind: 'op', text, value: text, start, end });
+    }
+  }
+  return tokens;
+}
+
+// Shared token navigation for the expression and statement parsers
+class TokenCursor {
+  protected pos = 0;
+
+  constructor(
+    protected source: string,
+    protected tokens: Token[]
+  ) {}
+
+  protected peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  protected next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new ParseError('Unexpected end of expression');
+    return token;
+  }
+
+  protected isWord(token: Token | undefined, ...words: string[]): boolean {
+    return token?.kind === 'word' && words.includes(token.value);
+  }
+
+  protected isPunct(token: Token | undefined, text: string): boolean {
+    return token?.kind === 'punct' && token.text === text;
+  }
+
+  protected expectPunct(text: string): Token {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.text !== text) {
+      throw new ParseError(`Expected "${text}" but found "${token.text}"`);
+    }
+    return token;
+  }
+
+  protected expectWord(word: string): void {
+    if (!this.isWord(this.next(), word))
+      throw new ParseError(`Expected ${word.toUpperCase()}`);
+  }
+
+  protected textBetween(start: number, end: number): string {
+    return this.source.slice(
+      this.tokens[start].start,
+      this.tokens[end - 1].end
+    );
+  }
+
+  // Index just past the parenthesis matching the one at `open`
+  protected skipBalanced(open: number): number {
+    let depth = 0;
+    for (let i = open; i < this.tokens.length; i++) {
+      if (this.isPunct(this.tokens[i], '(')) depth++;
+      else if (this.isPunct(this.tokens[i], ')') && --depth === 0) return i + 1;
+    }
+    throw new ParseError('Unbalanced parentheses');
+  }
+
+  protected tryParseQualifiedName(): string | undefined {
+    const parts: string[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'word' && token?.kind !== 'quoted') break;
+      parts.push(token.kind === 'word' ? token.text : token.value);
+      this.pos++;
+      if (!this.isPunct(this.peek(), '.')) break;
+      this.pos++;
+    }
+    return parts.length > 0 ? parts.join('.') : undefined;
+  }
+}
+
+class ConditionParser extends TokenCursor {
+  // Tables visible inside each enclosing subquery
+  private scopes: SubqueryScope[] = [];
+
+  parse(): Condition {
+    const condition = this.parseExpression();
+    if (this.pos < this.tokens.length) {
+      throw new ParseError(`Unexpected token "${this.tokens[this.pos].text}"`);
+    }
+    return condition.toCondition();
+  }
+
+  private isBoundary(token: Token | undefined): boolean {
+    return (
+      token === undefined ||
+      this.isPunct(token, ')') ||
+      this.isWord(token, 'and', 'or') ||
+      (token.kind === 'word' && CLAUSE_BOUNDARIES.has(token.value))
+    );
+  }
+
+  // ─── Boolean structure ──────────────────────────────────────────────────────
+
+  private parseExpression(): ConditionChain {
+    return this.parseOr();
+  }
+
+  private parseOr(): ConditionChain {
+    let left = this.parseAnd();
+    while (this.isWord(this.peek(), 'or')) {
+      this.pos++;
+      left = left.or(this.parseAnd());
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionChain {
+    let left = this.parseTerm();
+    while (this.isWord(this.peek(), 'and')) {
+      this.pos++;
+      left = left.and(this.parseTerm());
+    }
+    return left;
+  }
+
+  // A single predicate; unparseable predicates become raw SQL up to the next AND / OR
+  private parseTerm(): ConditionChain {
+    const start = this.pos;
+    try {
+      const condition = this.parsePredicate();
+      if (!this.isBoundary(this.peek())) {
+        throw new ParseError(`Unexpected token "${this.peek()!.text}"`);
+      }
+      return condition;
+    } catch (err) {
+      // Inside a subquery the whole subquery falls back instead
+      if (!(err instanceof ParseError) || this.scopes.length > 0) throw err;
+      this.pos = start;
+      this.skipToBoundary();
+      if (this.pos === start) throw err;
+      return sqlCondition(sql(this.textBetween(start, this.pos)));
+    }
+  }
+
+  private skipToBoundary(): void {
+    let depth = 0;
+    let pendingBetween = false;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (this.isPunct(token, '(')) depth++;
+      else if (this.isPunct(token, ')')) {
+        if (depth === 0) return;
+        depth--;
+      } else if (depth === 0 && this.isWord(token, 'between')) {
+        pendingBetween = true;
+      } else if (depth === 0 && this.isWord(token, 'and') && pendingBetween) {
+        pendingBetween = false;
+      } else if (depth === 0 && this.isBoundary(token)) {
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  // ─── Predicates ─────────────────────────────────────────────────────────────
+
+  private parsePredicate(): ConditionChain {
+    const token = this.peek();
+
+    // Before parenthesized expressions: deparsed paths start with parentheses
+    const path = this.tryParseJsonPath();
+    if (path) return this.jsonPredicate(path);
+
+    if (this.isPunct(token, '(') && !this.isWord(this.peek(1), 'select')) {
+      const start = this.pos;
+      try {
+        this.pos++;
+        const inner = this.parseExpression();
+        this.expectPunct(')');
+        return inner;
+      } catch (err) {
+        if (!(err instanceof ParseError)) throw err;
+        this.pos = start;
+      }
+    }
+
+    if (this.isWord(token, 'true') && this.isBoundary(this.peek(1))) {
+      this.pos++;
+      return alwaysTrue();
+    }
+
+    if (this.isWord(token, 'exists')) {
+      this.pos++;
+      return exists(this.parseSubquery(false));
+    }
+
+    if (this.isWord(token, 'not')) return this.parseNot();
+
+    const functionCall = this.tryParseFunctionCall();
+    if (functionCall) return functionCall;
+
+    const lhs = this.parseOperand();
+    const op = this.peek();
+
+    if (op?.kind === 'op' && op.text in COMPARISON_OPERATORS) {
+      this.pos++;
+      if (op.text === '=' && this.isWord(this.peek(), 'any')) {
+        return this.parseAnyArray(lhs);
+      }
+      return this.comparison(lhs, op.text, this.parseOperand());
+    }
+
+    if (op?.kind === 'op' && (op.text === '~~' || op.text === '~~*')) {
+      this.pos++;
+      return this.pattern(lhs, op.text === '~~' ? 'like' : 'ilike');
+    }
+
+    if (this.isWord(op, 'like', 'ilike')) {
+      this.pos++;
+      return this.pattern(lhs, op!.value as 'like' | 'ilike');
+    }
+
+    if (this.isWord(op, 'is')) {
+      this.pos++;
+      const negated = this.isWord(this.peek(), 'not');
+      if (negated) this.pos++;
+      this.expectWord('null');
+      const col = this.requireColumn(lhs);
+      return negated ? col.isNotNull() : col.isNull();
+    }
+
+    if (this.isWord(op, 'in')) {
+      this.pos++;
+      return this.parseIn(lhs);
+    }
+
+    if (this.isWord(op, 'not') && this.isWord(this.peek(1), 'in')) {
+      this.pos += 2;
+      if (this.isPunct(this.peek(), '(') && this.isWord(this.peek(1), 'select'))
+        return this.requireColumn(lhs).notIn(this.parseSubquery());
+      return this.parseIn(lhs).not();
+    }
+
+    if (op?.kind === 'op' && (op.text === '@>' || op.text === '<@')) {
+      this.pos++;
+      const col = this.requireColumn(lhs);
+      const contains = op.text === '@>';
+      if (this.isWord(this.peek(), 'array')) {
+        const values = this.parseArrayLiteral();
+        return contains ? col.contains(values) : col.containedBy(values);
+      }
+      const rhs = this.parseOperand();
+      if (
+        contains &&
+        rhs.kind === 'value' &&
+        !(rhs.value instanceof SQLExpression) &&
+        rhs.value.contextType === 'now' &&
+        !rhs.value.interval
+      )
+        return col.containsNow();
+      if (rhs.kind !== 'literal')
+        throw new ParseError(`Unsupported ${op.text} operand`);
+      if (this.castTo('jsonb')) {
+        const value = this.jsonValue(rhs.value);
+        // Objects stay column conditions; other JSON values need jsonPath() to render as jsonb
+        if (isJsonObject(value))
+          return contains ? col.contains(value) : col.containedBy(value);
+        const target = this.requireJsonColumn(lhs);
+        return contains ? target.contains(value) : target.containedBy(value);
+      }
+      if (!contains) throw new ParseError('Unsupported <@ operand');
+      return col.contains(rhs.value);
+    }
+
+    if (op?.kind === 'op' && op.text === '&&') {
+      this.pos++;
+      const col = this.requireColumn(lhs);
+      const values = this.parseArrayLiteral();
+      if (values.includes(null))
+        throw new ParseError('Unsupported NULL in && array');
+      return col.overlaps(values as Exclude<Literal, null>[]);
+    }
+
+    if (op?.kind === 'op' && op.text in JSONB_OPERATORS) {
+      return this.jsonbOperator(this.requireJsonColumn(lhs));
+    }
+
+    throw new ParseError(
+      `Unsupported predicate near "${op?.text ?? 'end of input'}"`
+    );
+  }
+
+  // A column followed by -> / ->> steps, as written or as Postgres deparses it:
+  // ((metadata -> 'team'::text) ->> 'id'::text)
+  private tryParseJsonPath(): JsonPathOperand | undefined {
+    const start = this.pos;
+    let open = 0;
+    while (this.isPunct(this.peek(), '(')) {
+      open++;
+      this.pos++;
+    }
+    const name = this.tryParseQualifiedName();
+    const path: (string | number)[] = [];
+    let asText = false;
+    while (name && !asText && this.isArrow(this.peek())) {
+      asText = this.next().text === '->>';
+      const step = this.parseOperand();
+      if (
+        step.kind !== 'literal' ||
+        (typeof step.value !== 'string' && typeof step.value !== 'number')
+      )
+        throw new ParseError('JSON path steps must be literals');
+      path.push(step.value);
+      while (open > 0 && this.isPunct(this.peek(), ')')) {
+        open--;
+        this.pos++;
+      }
+    }
+    if (!name || path.length === 0 || open > 0) {
+      this.pos = start;
+      return undefined;
+    }
+    return { column: this.stripQualifier(name), path, asText };
+  }
+
+  private isArrow(token: Token | undefined): boolean {
+    return (
+      token?.kind === 'op' && (token.text === '->' || token.text === '->>')
+    );
+  }
+
+  // Comparisons, IN and null checks read the ->> text; jsonb operators apply to ->
+  private jsonPredicate({
+    column: name,
+    path,
+    asText,
+  }: JsonPathOperand): ConditionChain {
+    const target = jsonPath(name, ...path);
+    const op = this.peek();
+    if (op?.kind === 'op' && op.text in COMPARISON_OPERATORS) {
+      this.pos++;
+      // Postgres deparses IN lists as = ANY (ARRAY[...])
+      if (asText && op.text === '=' && this.isWord(this.peek(), 'any')) {
+        this.pos++;
+        this.expectPunct('(');
+        const values = this.parseArrayLiteral();
+        this.expectPunct(')');
+        return target.in(this.textValues(values));
+      }
+      const method = COMPARISON_OPERATORS[op.text];
+      const rhs = this.parseOperand();
+      if (!asText) {
+        if (rhs.kind !== 'literal' || !this.castTo('jsonb'))
+          throw new ParseError('Expected a jsonb literal');
+        return target[method](this.jsonValue(rhs.value));
+      }
+      if (rhs.kind === 'value') return target[method](rhs.value);
+      if (rhs.kind !== 'literal' || typeof rhs.value !== 'string')
+        throw new ParseError('Expected a text value');
+      return target[method](rhs.value);
+    }
+    if (!asText) {
+      if (op?.kind === 'op' && (op.text === '@>' || op.text === '<@')) {
+        this.pos++;
+        const rhs = this.parseOperand();
+        if (rhs.kind !== 'literal' || !this.castTo('jsonb'))
+          throw new ParseError('Expected a jsonb literal');
+        const value = this.jsonValue(rhs.value);
+        return op.text === '@>'
+          ? target.contains(value)
+          : target.containedBy(value);
+      }
+      return this.jsonbOperator(target);
+    }
+    if (this.isWord(op, 'is')) {
+      this.pos++;
+      const negated = this.isWord(this.peek(), 'not');
+      if (negated) this.pos++;
+      this.expectWord('null');
+      return negated ? target.isNotNull() : target.isNull();
+    }
+    if (this.isWord(op, 'in')) {
+      this.pos++;
+      this.expectPunct('(');
+      return target.in(this.textValues(this.parseLiteralList(')')));
+    }
+    throw new ParseError(
+      `Unsupported JSON predicate near "${op?.text ?? 'end of input'}"`
+    );
+  }
+
+  // ?, ?|, ?&, @? and @@
+  private jsonbOperator(target: JsonPath): ConditionChain {
+    const op = this.peek();
+    const method = op?.kind === 'op' ? JSONB_OPERATORS[op.text] : undefined;
+    if (!method)
+      throw new ParseError(
+        `Unsupported jsonb operator "${op?.text ?? 'end of input'}"`
+      );
+    this.pos++;
+    if (method === 'hasAnyKey' || method === 'hasAllKeys') {
+      return target[method](this.textValues(this.parseArrayLiteral()));
+    }
+    const rhs = this.parseOperand();
+    if (rhs.kind !== 'literal' || typeof rhs.value !== 'string')
+      throw new ParseError(`Expected a string after ${op!.text}`);
+    return target[method](rhs.value);
+  }
+
+  private textValues(values: Literal[]): string[] {
+    if (!values.every((v) => typeof v === 'string'))
+      throw new ParseError('Expected text values');
+    return values as string[];
+  }
+
+  // Whether the operand just parsed had a cast to `type`, e.g. '{}'::jsonb
+  private castTo(type: string): boolean {
+    return (
+      this.isPunct(this.tokens[this.pos - 2], '::') &&
+      this.isWord(this.tokens[this.pos - 1], type)
+    );
+  }
+
+  private jsonValue(literal: Literal): JsonValue {
+    if (typeof literal !== 'string')
+      throw new ParseError('Expected a jsonb literal');
+    try {
+      return JSON.parse(literal) as JsonValue;
+    } catch {
+      throw new ParseError('Invalid jsonb literal');
+    }
+  }
+
+  private requireColumn(operand: Operand): ColumnBuilder {
+    if (operand.kind !== 'column')
+      throw new ParseError('Expected a column reference');
+    return column(operand.name);
+  }
+
+  private requireJsonColumn(operand: Operand): JsonPath {
+    if (operand.kind !== 'column')
+      throw new ParseError('Expected a column reference');
+    return jsonPath(operand.name);
+  }
+
+  // NOT applies to the next predicate. NOT EXISTS and NOT x IN (subquery), parenthesized
+  // or not, map onto notExists() / notIn().
+  private parseNot(): ConditionChain {
+    this.expectWord('not');
+    const wrapped =
+      this.isPunct(this.peek(), '(') && this.isWord(this.peek(1), 'exists');
+    if (wrapped) this.pos++;
+    if (this.isWord(this.peek(), 'exists')) {
+      this.pos++;
+      const condition = notExists(this.parseSubquery(false));
+      if (wrapped) this.expectPunct(')');
+      return condition;
+    }
+    const negated = this.parsePredicate();
+    const inner = negated.toCondition();
+    if (
+      inner.type === 'membership' &&
+      (inner as MembershipCondition).value instanceof SubqueryBuilder
+    ) {
+      const { column: col, value } = inner as MembershipCondition;
+      return column(col).notIn(value as unknown as SubqueryBuilder);
+    }
+    return negated.not();
+  }
+
+  private comparison(
+    lhs: Operand,
+    operator: string,
+    rhs: Operand
+  ): ConditionChain {
+    // The left side must be a column of the current query; outer references go right
+    if (
+      rhs.kind === 'column' &&
+      (lhs.kind !== 'column' ||
+        (this.isOuterReference(lhs.name) && !this.isOuterReference(rhs.name)))
+    ) {
+      return this.comparison(rhs, FLIPPED[operator], lhs);
+    }
+    const col = this.requireColumn(lhs);
+    if (rhs.kind === 'column' && this.isOuterReference(rhs.name)) {
+      return col[COMPARISON_OPERATORS[operator]](outer(rhs.name));
+    }
+    if (rhs.kind === 'column') this.checkInScope(rhs.name);
+    // Column-to-column comparisons keep the right-hand reference as raw SQL
+    const value =
+      rhs.kind === 'column'
+        ? sql(rhs.text)
+        : rhs.kind === 'literal'
+          ? this.typedLiteral(rhs.value, rhs.cast)
+          : rhs.value;
+    return col[COMPARISON_OPERATORS[operator]](value);
+  }
+
+  // '…'::uuid, '…'::timestamp with time zone, '…'::order_status keep their cast as literal()
+  private typedLiteral(value: Literal, cast?: string): Literal | SQLExpression {
+    if (typeof value !== 'string' || !cast) return value;
+    const name =
+      /^("[^"]+"|[A-Za-z_][\w$]*)(\.("[^"]+"|[A-Za-z_][\w$]*))?$/.test(cast)
+        ? cast
+            .split('.')
+            .map((part) =>
+              part.startsWith('"') ? part.slice(1, -1) : part.toLowerCase()
+            )
+            .join('.')
+        : undefined;
+    const type = name ?? LITERAL_CASTS[cast.toLowerCase()];
+    // jsonb literals are JSON text rather than a value; arrays and typmods stay plain
+    if (!type || TEXT_CASTS.has(type) || type === 'json' || type === 'jsonb')
+      return value;
+    return literal(value, type);
+  }
+
+  private pattern(lhs: Operand, operator: 'like' | 'ilike'): ConditionChain {
+    const col = this.requireColumn(lhs);
+    const rhs = this.parseOperand();
+    if (rhs.kind !== 'literal' || typeof rhs.value !== 'string') {
+      throw new ParseError('Pattern must be a string literal');
+    }
+    return operator === 'like' ? col.like(rhs.value) : col.ilike(rhs.value);
+  }
+
+  private parseIn(lhs: Operand): ConditionChain {
+    const col = this.requireColumn(lhs);
+    if (this.isPunct(this.peek(), '(') && this.isWord(this.peek(1), 'select')) {
+      return col.in(this.parseSubquery());
+    }
+    this.expectPunct('(');
+    const values = this.parseLiteralList(')');
+    return col.in(values);
+  }
+
+  // col = ANY (ARRAY[...]) — how Postgres deparses `col IN (...)`
+  // column = ANY (ARRAY[...]) is an IN list, column = ANY (ARRAY(SELECT ...)) a JWT array
+  // claim and value = ANY (column) an array column check
+  private parseAnyArray(lhs: Operand): ConditionChain {
+    this.expectWord('any');
+    this.expectPunct('(');
+    let condition: ConditionChain;
+    if (this.isWord(this.peek(), 'array')) {
+      const col = this.requireColumn(lhs);
+      condition = this.isPunct(this.peek(1), '[')
+        ? col.in(this.parseArrayLiteral())
+        : col.in(this.parseJwtArray());
+    } else {
+      const name = this.tryParseQualifiedName();
+      if (!name || lhs.kind === 'column' || lhs.value === null)
+        throw new ParseError('Unsupported ANY operand');
+      condition = column(this.stripQualifier(name)).containsValue(
+        lhs.value as Exclude<Literal, null>
+      );
+    }
+    this.expectPunct(')');
+    return condition;
+  }
+
+  // ARRAY(SELECT jsonb_array_elements_text(auth.jwt() -> 'a' -> 'b')), as written by
+  // auth.jwtArray() or deparsed by Postgres
+  private parseJwtArray(): ContextValue {
+    this.expectWord('array');
+    this.expectPunct('(');
+    this.expectWord('select');
+    this.expectWord('jsonb_array_elements_text');
+    let open = 0;
+    while (this.isPunct(this.peek(), '(')) {
+      open++;
+      this.pos++;
+    }
+    if (this.tryParseQualifiedName()?.toLowerCase() !== 'auth.jwt')
+      throw new ParseError('Expected auth.jwt()');
+    this.expectPunct('(');
+    this.expectPunct(')');
+    const path: string[] = [];
+    while (this.peek()?.kind === 'op' && this.peek()!.text === '->') {
+      this.pos++;
+      const key = this.next();
+      if (key.kind !== 'string')
+        throw new ParseError('Expected a JWT claim name');
+      this.skipCast();
+      path.push(key.value);
+      while (open > 1 && this.isPunct(this.peek(), ')')) {
+        open--;
+        this.pos++;
+      }
+    }
+    for (; open > 0; open--) this.expectPunct(')');
+    if (this.isWord(this.peek(), 'as')) this.pos += 2;
+    this.expectPunct(')');
+    if (path.length === 0) throw new ParseError('Expected a JWT claim path');
+    try {
+      return auth.jwtArray(path.join('.'));
+    } catch (err) {
+      // user_metadata paths
+      throw new ParseError((err as Error).message);
+    }
+  }
+
+  private parseArrayLiteral(): Literal[] {
+    this.expectWord('array');
+    this.expectPunct('[');
+    const values = this.parseLiteralList(']');
+    this.skipCast();
+    return values;
+  }
+
+  private parseLiteralList(close: string): Literal[] {
+    const values: Literal[] = [];
+    if (this.isPunct(this.peek(), close)) {
+      this.pos++;
+      return values;
+    }
+    for (;;) {
+      const operand = this.parseOperand();
+      if (operand.kind !== 'literal')
+        throw new ParseError('Expected a literal in list');
+      values.push(operand.value);
+      const token = this.next();
+      if (this.isPunct(token, close)) return values;
+      if (!this.isPunct(token, ','))
+        throw new ParseError(`Expected "," or "${close}"`);
+    }
+  }
+
+  // Top-level boolean function such as is_project_member(id)
+  private tryParseFunctionCall(): ConditionChain | undefined {
+    const start = this.pos;
+    const name = this.tryParseQualifiedName();
+    if (!name || !this.isPunct(this.peek(), '(')) {
+      this.pos = start;
+      return undefined;
+    }
+    const end = this.skipBalanced(this.pos);
+    if (!this.isBoundary(this.tokens[end])) {
+      this.pos = start;
+      return undefined;
+    }
+    this.pos++;
+    const args: string[] = [];
+    while (!this.isPunct(this.peek(), ')')) {
+      const arg = this.tryParseQualifiedName();
+      if (!arg) throw new ParseError('Unsupported function argument');
+      args.push(arg);
+      if (this.isPunct(this.peek(), ',')) this.pos++;
+      else if (!this.isPunct(this.peek(), ')'))
+        throw new ParseError('Unsupported function argument');
+    }
+    this.pos++;
+    return call(name, args);
+  }
+
+  // ─── Subqueries ─────────────────────────────────────────────────────────────
+
+  // EXISTS subqueries ignore their select list, so it isn't parsed when `selected` is false
+  private parseSubquery(selected = true): SubqueryBuilder {
+    this.expectPunct('(');
+    this.expectWord('select');
+
+    const selectStart = this.pos;
+    while (!this.isWord(this.peek(), 'from')) {
+      if (!this.peek()) throw new ParseError('Expected FROM');
+      this.pos++;
+    }
+    const selectEnd = this.pos;
+    this.pos++;
+
+    const table = this.tryParseQualifiedName();
+    if (!table) throw new ParseError('Expected table name');
+    const alias = this.parseAlias();
+
+    const joinStart = this.pos;
+    const hasJoins = this.isWord(
+      this.peek(),
+      'join',
+      'inner',
+      'left',
+      'right',
+      'full'
+    );
+    // Postgres qualifies every column in a deparsed single-table subquery; strip it back off
+    const scope: SubqueryScope = {
+      strip: !hasJoins && !alias ? table : undefined,
+      tables: new Set([alias ?? table]),
+    };
+    this.scopes.push(scope);
+    try {
+      const builder = from(table, alias);
+      if (selected) {
+        this.pos = selectStart;
+        const columns = this.parseSelectList(selectEnd);
+        builder.select(columns.length === 1 ? columns[0] : columns);
+      }
+      this.pos = joinStart;
+
+      while (
+        this.isWord(this.peek(), 'join', 'inner', 'left', 'right', 'full')
+      ) {
+        let type: 'inner' | 'left' | 'right' | 'full' = 'inner';
+        if (!this.isWord(this.peek(), 'join')) {
+          type = this.next().value as typeof type;
+          if (this.isWord(this.peek(), 'outer')) this.pos++;
+        }
+        this.expectWord('join');
+        const joinTable = this.tryParseQualifiedName();
+        if (!joinTable) throw new ParseError('Expected join table');
+        const joinAlias = this.parseAlias();
+        scope.tables.add(joinAlias ?? joinTable);
+        this.expectWord('on');
+        builder.join(joinTable, this.parseExpression(), type, joinAlias);
+      }
+
+      if (this.isWord(this.peek(), 'where')) {
+        this.pos++;
+        builder.where(this.parseExpression());
+      }
+
+      this.expectPunct(')');
+      return builder;
+    } catch (err) {
+      // SubqueryBuilder rejects references it cannot resolve (e.g. the outer table)
+      if (err instanceof ParseError) throw err;
+      throw new ParseError((err as Error).message);
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  private parseSelectList(end: number): string[] {
+    const columns: string[] = [];
+    while (this.pos < end) {
+      const name = this.tryParseQualifiedName();
+      if (!name) throw new ParseError('Unsupported select list');
+      columns.push(this.stripQualifier(name));
+      if (this.pos < end) this.expectPunct(',');
+    }
+    return columns;
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.isWord(this.peek(), 'as')) this.pos++;
+    const token = this.peek();
+    if (
+      (token?.kind === 'word' || token?.kind === 'quoted') &&
+      !this.isBoundary(token) &&
+      !CLAUSE_BOUNDARIES.has(token.value)
+    ) {
+      this.pos++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  // Qualified with a table outside every enclosing subquery: the policy's table, read with outer()
+  private isOuterReference(name: string): boolean {
+    const dot = name.lastIndexOf('.');
+    return (
+      this.scopes.length > 0 &&
+      dot !== -1 &&
+      !this.scopes.some((scope) => scope.tables.has(name.slice(0, dot)))
+    );
+  }
+
+  // References to an enclosing subquery's tables have no builder equivalent yet
+  private checkInScope(name: string): void {
+    const scope = this.scopes[this.scopes.length - 1];
+    const dot = name.lastIndexOf('.');
+    if (scope && dot !== -1 && !scope.tables.has(name.slice(0, dot))) {
+      throw new ParseError(`Reference to outer table in "${name}"`);
+    }
+  }
+
+  private stripQualifier(name: string): string {
+    const qualifier = this.scopes[this.scopes.length - 1]?.strip;
+    if (qualifier && name.startsWith(`${qualifier}.`)) {
+      return name.slice(qualifier.length + 1);
+    }
+    return name;
+  }
+
+  // ─── Operands ───────────────────────────────────────────────────────────────
+
+  private skipCast(): boolean {
+    if (!this.isPunct(this.peek(), '::')) return false;
+    this.pos++;
+    if (!this.tryParseQualifiedName())
+      throw new ParseError('Expected type name');
+    while (TYPE_CONTINUATIONS.has(this.peek()?.value ?? '')) this.pos++;
+    while (this.isPunct(this.peek(), '[') && this.isPunct(this.peek(1), ']'))
+      this.pos += 2;
+    return true;
+  }
+
+  private parseOperand(): Operand {
+    const start = this.pos;
+    const operand = this.parseBareOperand();
+    if (!this.isPunct(this.peek(), '::')) return operand;
+
+    const castStart = this.pos;
+    this.skipCast();
+    // Casts on literals are what Postgres adds when deparsing; anything else stays raw
+    if (operand.kind === 'literal') {
+      return { ...operand, cast: this.textBetween(castStart + 1, this.pos) };
+    }
+    if (operand.kind === 'value' && !(operand.value instanceof SQLExpression)) {
+      const contextValue = operand.value;
+      if (
+        contextValue.contextType === 'session' &&
+        !this.isPunct(this.peek(), '::')
+      ) {
+        const typeName = this.textBetween(
+          castStart + 1,
+          this.pos
+        ).toLowerCase();
+        const sessionType = SESSION_TYPES[typeName];
+        if (sessionType && contextValue.sessionType === 'text') {
+          return {
+            kind: 'value',
+            value: session.get(contextValue.key!, sessionType),
+            text: this.textBetween(start, this.pos),
+          };
+        }
+      }
+    }
+    const text = this.textBetween(start, this.pos);
+    return { kind: 'value', value: sql(text), text };
+  }
+
+  private parseBareOperand(): Operand {
+    const start = this.pos;
+    const token = this.peek();
+    if (!token) throw new ParseError('Unexpected end of expression');
+
+    if (token.kind === 'string') {
+      this.pos++;
+      return { kind: 'literal', value: token.value, text: token.text };
+    }
+    if (token.kind === 'number') {
+      this.pos++;
+      return { kind: 'literal', value: Number(token.text), text: token.text };
+    }
+    if (
+      token.kind === 'op' &&
+      token.text === '-' &&
+      this.peek(1)?.kind === 'number'
+    ) {
+      this.pos += 2;
+      return {
+        kind: 'literal',
+        value: -Number(this.tokens[this.pos - 1].text),
+        text: this.textBetween(start, this.pos),
+      };
+    }
+    if (this.isWord(token, 'true', 'false')) {
+      this.pos++;
+      return {
+        kind: 'literal',
+        value: token.value === 'true',
+        text: token.text,
+      };
+    }
+    if (this.isWord(token, 'null')) {
+      this.pos++;
+      return { kind: 'literal', value: null, text: token.text };
+    }
+    if (
+      this.isWord(token, 'current_user') &&
+      !this.isPunct(this.peek(1), '(')
+    ) {
+      this.pos++;
+      return { kind: 'value', value: currentUser(), text: token.text };
+    }
+    if (
+      this.isWord(token, 'current_setting') &&
+      this.isPunct(this.peek(1), '(')
+    ) {
+      return this.parseCurrentSetting();
+    }
+    if (
+      this.isWord(token, 'now') &&
+      this.isPunct(this.peek(1), '(') &&
+      this.isPunct(this.peek(2), ')')
+    ) {
+      this.pos += 3;
+      return this.parseNow(start);
+    }
+    if (
+      this.isWord(token, 'current_timestamp') &&
+      !this.isPunct(this.peek(1), '(')
+    ) {
+      this.pos++;
+      return this.parseNow(start);
+    }
+
+    if (this.isPunct(token, '(')) {
+      if (this.isWord(this.peek(1), 'select')) {
+        const end = this.skipBalanced(this.pos);
+        const context = this.tryParseContextSubquery(end);
+        this.pos = end;
+        const text = this.textBetween(start, end);
+        return { kind: 'value', value: context ?? sql(text), text };
+      }
+      this.pos++;
+      const inner = this.parseOperand();
+      this.expectPunct(')');
+      return inner;
+    }
+
+    const name = this.tryParseQualifiedName();
+    if (name) {
+      if (this.isPunct(this.peek(), '(')) {
+        this.pos = this.skipBalanced(this.pos);
+        const text = this.textBetween(start, this.pos);
+        return { kind: 'value', value: sql(text), text };
+      }
+      const stripped = this.stripQualifier(name);
+      return {
+        kind: 'column',
+        name: stripped,
+        text: stripped === name ? this.textBetween(start, this.pos) : stripped,
+      };
+    }
+
+    throw new ParseError(`Unexpected token "${token.text}"`);
+  }
+
+  // current_setting('key', true) — only the missing_ok form maps onto session.get()
+  private parseCurrentSetting(): Operand {
+    const start = this.pos;
+    this.pos += 2;
+    const key = this.parseOperand();
+    if (key.kind !== 'literal' || typeof key.value !== 'string') {
+      throw new ParseError('Expected setting name');
+    }
+    let missingOk = false;
+    if (this.isPunct(this.peek(), ',')) {
+      this.pos++;
+      missingOk = this.isWord(this.next(), 'true');
+    }
+    this.expectPunct(')');
+    const text = this.textBetween(start, this.pos);
+    if (!missingOk) return { kind: 'value', value: sql(text), text };
+    return { kind: 'value', value: session.get(key.value, 'text'), text };
+  }
+
+  // now(), optionally minus an interval: now() - interval '7 days' or, as Postgres
+  // deparses it, now() - '7 days'::interval
+  private parseNow(start: number): Operand {
+    if (!(this.peek()?.kind === 'op' && this.peek()!.text === '-')) {
+      return {
+        kind: 'value',
+        value: now(),
+        text: this.textBetween(start, this.pos),
+      };
+    }
+    let interval: Token | undefined;
+    let length = 0;
+    if (
+      this.isWord(this.peek(1), 'interval') &&
+      this.peek(2)?.kind === 'string'
+    ) {
+      interval = this.peek(2);
+      length = 3;
+    } else if (
+      this.peek(1)?.kind === 'string' &&
+      this.isPunct(this.peek(2), '::') &&
+      this.isWord(this.peek(3), 'interval')
+    ) {
+      interval = this.peek(1);
+      length = 4;
+    }
+    if (!interval) {
+      return {
+        kind: 'value',
+        value: now(),
+        text: this.textBetween(start, this.pos),
+      };
+    }
+    this.pos += length;
+    try {
+      const value = nowMinus(interval.value);
+      return { kind: 'value', value, text: this.textBetween(start, this.pos) };
+    } catch (err) {
+      throw new ParseError((err as Error).message);
+    }
+  }
+
+  // (SELECT auth.uid()), (SELECT auth.role()), (SELECT auth.jwt() -> 'a' ->> 'b'), with
+  // Postgres' optional `AS alias` and extra parentheses
+  private tryParseContextSubquery(end: number): ContextValue | undefined {
+    const start = this.pos;
+    try {
+      this.pos += 2;
+      let wrapped = 0;
+      while (this.isPunct(this.peek(), '(')) {
+        this.pos++;
+        wrapped++;
+      }
+      const name = this.tryParseQualifiedName()?.toLowerCase();
+      this.expectPunct('(');
+      this.expectPunct(')');
+
+      let value: ContextValue | undefined;
+      if (name === 'auth.uid') value = auth.uid();
+      else if (name === 'auth.role') value = auth.role();
+      else if (name === 'auth.jwt') {
+        const path: string[] = [];
+        let finished = false;
+        while (
+          this.peek()?.kind === 'op' &&
+          (this.peek()!.text === '->' || this.peek()!.text === '->>')
+        ) {
+          if (finished) return undefined;
+          finished = this.next().text === '->>';
+          const key = this.next();
+          if (key.kind !== 'string') return undefined;
+          this.skipCast();
+          path.push(key.value);
+          while (wrapped > 0 && this.isPunct(this.peek(), ')')) {
+            this.pos++;
+            wrapped--;
+          }
+        }
+        if (path.length > 0 && !finished) return undefined;
+        value = auth.jwt(path.length > 0 ? path.join('.') : undefined);
+      }
+      if (!value) return undefined;
+
+      for (; wrapped > 0; wrapped--) this.expectPunct(')');
+      if (this.isWord(this.peek(), 'as')) this.pos += 2;
+      this.expectPunct(')');
+      return this.pos === end ? value : undefined;
+    } catch {
+      // Not a recognised context subquery (auth.jwt() also rejects user_metadata paths)
+      return undefined;
+    } finally {
+      this.pos = start;
+    }
+  }
+}
+
+/**
+ * Parse a SQL boolean expression (a policy's USING or WITH CHECK body) into a Condition.
+ *
+ * Recognises comparisons, AND / OR, IN lists and subqueries, IS [NOT] NULL, LIKE / ILIKE,
+ * `@>` / `<@` / `&&`, `= ANY`, JSONB paths and key operators, `(SELECT auth.uid())`,
+ * `auth.jwt()` paths and `current_setting(..., true)`, producing the same condition objects
+ * as the `column()` builders. Fragments it cannot parse are kept as raw SQL conditions, so
+ * `parseCondition(text).toSQL()` is always equivalent to `text`.
+ *
+ * @example
+ * ```typescript
+ * parseCondition('(user_id = ( SELECT auth.uid() AS uid))');
+ * // same as column('user_id').isOwner()
+ * ```
+ */
+export function parseCondition(expression: string): Condition {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    throw new Error('Cannot parse an empty expression');
+  }
+  try {
+    return new ConditionParser(expression, tokens).parse();
+  } catch (err) {
+    if (!(err instanceof ParseError)) throw err;
+    return sqlCondition(sql(expression.trim())).toCondition();
+  }
+}
+
+const POLICY_OPERATIONS = new Set([
+  'all',
+  'select',
+  'insert',
+  'update',
+  'delete',
+]);
+
+// CREATE POLICY name ON table [AS ...] [FOR ...] [TO ...] [USING (...)] [WITH CHECK (...)]
+class PolicyStatementParser extends TokenCursor {
+  parseAll(): PolicyDefinition[] {
+    const definitions: PolicyDefinition[] = [];
+    let statementStart = true;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (
+        statementStart &&
+        this.isWord(token, 'create') &&
+        this.isWord(this.peek(1), 'policy')
+      ) {
+        const start = this.pos;
+        try {
+          definitions.push(this.parseCreatePolicy());
+        } catch (err) {
+          if (!(err instanceof ParseError)) throw err;
+          const end = this.statementEnd(start);
+          throw new Error(
+            `Cannot parse CREATE POLICY statement (${err.message}): ${this.textBetween(start, end)}`
+          );
+        }
+        continue;
+      }
+      statementStart = this.isPunct(token, ';');
+      this.pos++;
+    }
+    return definitions;
+  }
+
+  private statementEnd(start: number): number {
+    let end = start;
+    while (end < this.tokens.length && !this.isPunct(this.tokens[end], ';')) {
+      end++;
+    }
+    return end;
+  }
+
+  private parseCreatePolicy(): PolicyDefinition {
+    this.pos += 2;
+    const name = this.parseIdentifier();
+    this.expectWord('on');
+    const table = this.tryParseQualifiedName();
+    if (!table) throw new ParseError('Expected table name');
+
+    const def: PolicyDefinition = {
+      name,
+      table: table.replace(/^public\./, ''),
+      operation: 'ALL',
+      type: 'PERMISSIVE',
+    };
+
+    if (this.isWord(this.peek(), 'as')) {
+      this.pos++;
+      const type = this.next();
+      if (!this.isWord(type, 'permissive', 'restrictive')) {
+        throw new ParseError('Expected PERMISSIVE or RESTRICTIVE');
+      }
+      def.type = type.value === 'restrictive' ? 'RESTRICTIVE' : 'PERMISSIVE';
+    }
+
+    if (this.isWord(this.peek(), 'for')) {
+      this.pos++;
+      const operation = this.next();
+      if (
+        operation.kind !== 'word' ||
+        !POLICY_OPERATIONS.has(operation.value)
+      ) {
+        throw new ParseError('Expected a command after FOR');
+      }
+      def.operation = operation.value.toUpperCase() as PolicyOperation;
+    }
+
+    if (this.isWord(this.peek(), 'to')) {
+      this.pos++;
+      const roles = [this.parseIdentifier()];
+      while (this.isPunct(this.peek(), ',')) {
+        this.pos++;
+        roles.push(this.parseIdentifier());
+      }
+      def.role = roles.join(', ');
+    }
+
+    if (this.isWord(this.peek(), 'using')) {
+      this.pos++;
+      def.using = this.parseClause();
+    }
+
+    if (this.isWord(this.peek(), 'with')) {
+      this.pos++;
+      this.expectWord('check');
+      def.withCheck = this.parseClause();
+    }
+
+    const end = this.peek();
+    if (end && !this.isPunct(end, ';')) {
+      throw new ParseError(`Unexpected token "${end.text}"`);
+    }
+    return def;
+  }
+
+  private parseIdentifier(): string {
+    const token = this.next();
+    if (token.kind !== 'word' && token.kind !== 'quoted') {
+      throw new ParseError(`Expected an identifier but found "${token.text}"`);
+    }
+    return token.value;
+  }
+
+  private parseClause(): Condition {
+    if (!this.isPunct(this.peek(), '(')) throw new ParseError('Expected "("');
+    const open = this.pos;
+    this.pos = this.skipBalanced(open);
+    return parseCondition(this.textBetween(open + 1, this.pos - 1));
+  }
+}
+
+/**
+ * Read the CREATE POLICY statements in a SQL script (e.g. a migration file) as policy
+ * definitions. Other statements are skipped; conditions are parsed with `parseCondition`.
+ *
+ * @example
+ * ```typescript
+ * const defs = parsePolicies(readFileSync('supabase/migrations/001_rls.sql', 'utf8'));
+ * ```
+ */
+export function parsePolicies(script: string): PolicyDefinition[] {
+  return new PolicyStatementParser(script, tokenize(script)).parseAll();
+}
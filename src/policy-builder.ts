@@ -7,20 +7,43 @@ import type {
   Condition,
   ContextValue,
   HelperCondition,
+  IndexDefinition,
+  JsonCondition,
+  JsonOperator,
   LogicalCondition,
   MembershipCondition,
+  NullCondition,
   PolicyBuilderState,
   PolicyDefinition,
   PolicyOperation,
   SQLGenerationOptions,
+  SubqueryCondition,
   SubqueryDefinition,
 } from './types';
-import { escapeIdentifier, sanitizePolicyName } from './sql';
+import {
+  escapeIdentifier,
+  sanitizePolicyName,
+  truncateIdentifier,
+  withOuterTable,
+} from './sql';
+
+/**
+ * Tables owned by Supabase with RLS already enabled: ALTER TABLE and CREATE INDEX on them
+ * fail with "must be owner"
+ */
+export const SUPABASE_MANAGED_TABLES = new Set(['storage.objects', 'realtime.messages']);
 
 const POSTGRES_ROLE_KEYWORDS = new Set(['public', 'current_user', 'current_role', 'session_user']);
 
-function escapeRole(role: string): string {
-  return POSTGRES_ROLE_KEYWORDS.has(role.toLowerCase()) ? role : escapeIdentifier(role);
+/**
+ * Escape a role or comma-separated role list, leaving keywords such as PUBLIC unquoted
+ */
+export function escapeRole(role: string): string {
+  return role
+    .split(',')
+    .map((r) => r.trim())
+    .map((r) => (POSTGRES_ROLE_KEYWORDS.has(r.toLowerCase()) ? r : escapeIdentifier(r)))
+    .join(', ');
 }
 import { ConditionChain } from './column';
 import { SubqueryBuilder } from './subquery-builder';
@@ -66,16 +89,22 @@ function isContextValue(value: unknown): value is ContextValue {
 type ColumnAddFn = (table: string, column: string) => void;
 type AliasMap = Map<string, string>;
 
+// "schema.table.column" splits into ["schema.table", "column"]
+function splitColumnReference(columnRef: string, currentTable: string): [string, string] {
+  const dot = columnRef.lastIndexOf('.');
+  return dot === -1
+    ? [currentTable, columnRef]
+    : [columnRef.slice(0, dot), columnRef.slice(dot + 1)];
+}
+
 function parseColumnReference(
   columnRef: string,
   currentTable: string,
   aliasMap: AliasMap
 ): { table: string; column: string } {
-  const parts = columnRef.includes('.')
-    ? columnRef.split('.')
-    : [currentTable, columnRef];
-  const table = aliasMap.get(parts[0]) || parts[0];
-  return { table, column: parts[1] };
+  const [qualifier, column] = splitColumnReference(columnRef, currentTable);
+  const table = aliasMap.get(qualifier) || qualifier;
+  return { table, column };
 }
 
 function registerAlias(
@@ -151,6 +180,14 @@ function processComparisonCondition(
   }
 }
 
+function membershipSubquery(mem: MembershipCondition): SubqueryDefinition | undefined {
+  if (mem.value instanceof SubqueryBuilder) return mem.value.toSubquery();
+  if (typeof mem.value === 'object' && mem.value !== null && 'from' in mem.value) {
+    return mem.value as SubqueryDefinition;
+  }
+  return undefined;
+}
+
 function processMembershipCondition(
   mem: MembershipCondition,
   currentTable: string,
@@ -167,15 +204,8 @@ function processMembershipCondition(
   );
   addColumn(table, column);
 
-  if (mem.value instanceof SubqueryBuilder) {
-    const subquery = mem.value.toSubquery();
-    processSubqueryForIndexing(subquery, aliasMap, processCondition, addColumn);
-  } else if (
-    typeof mem.value === 'object' &&
-    mem.value !== null &&
-    'from' in mem.value
-  ) {
-    const subquery = mem.value as SubqueryDefinition;
+  const subquery = membershipSubquery(mem);
+  if (subquery) {
     processSubqueryForIndexing(subquery, aliasMap, processCondition, addColumn);
   }
 }
@@ -187,10 +217,7 @@ function processHelperCondition(
 ): void {
   if (helper.helperType === 'isMemberOf') {
     const localKey = helper.params.localKey as string;
-    const localKeyParts = localKey.includes('.')
-      ? localKey.split('.')
-      : [currentTable, localKey];
-    addColumn(localKeyParts[0], localKeyParts[1]);
+    addColumn(...splitColumnReference(localKey, currentTable));
 
     const joinTable = helper.params.joinTable as string;
     const foreignKey = helper.params.foreignKey as string;
@@ -200,9 +227,22 @@ function processHelperCondition(
   }
 }
 
+// Conditions on columns that already have an index, such as a parent's primary key
+const indexedByKey = new WeakSet<Condition>();
+
+/**
+ * Mark a condition as served by an existing index (e.g. a primary key) so no index is
+ * generated for its columns
+ */
+export function skipIndex(condition: ConditionChain): ConditionChain {
+  indexedByKey.add(condition.toCondition());
+  return condition;
+}
+
 function extractIndexableColumns(
   condition: Condition | undefined,
-  tableName: string
+  tableName: string,
+  skip?: Set<Condition>
 ): Map<string, Set<string>> {
   const tableColumns = new Map<string, Set<string>>();
   const aliasToTable: AliasMap = new Map<string, string>();
@@ -220,6 +260,7 @@ function extractIndexableColumns(
   };
 
   function processCondition(cond: Condition, currentTable: string): void {
+    if (skip?.has(cond) || indexedByKey.has(cond)) return;
     switch (cond.type) {
       case 'comparison':
         processComparisonCondition(
@@ -240,24 +281,27 @@ function extractIndexableColumns(
         );
         break;
 
-      case 'logical':
-        (cond as LogicalCondition).conditions.forEach((c) =>
-          processCondition(c, currentTable)
+      case 'logical': {
+        const logical = cond as LogicalCondition;
+        logical.conditions.forEach((c) =>
+          logical.operator === 'NOT'
+            ? processNegated(c, currentTable)
+            : processCondition(c, currentTable)
         );
         break;
+      }
 
       case 'subquery': {
-        const subqueryCond = cond as unknown as {
-          type: 'subquery';
-          column: string;
-          subquery: SubqueryDefinition;
-        };
-        const { table, column } = parseColumnReference(
-          subqueryCond.column,
-          currentTable,
-          aliasToTable
-        );
-        addColumn(table, column);
+        const subqueryCond = cond as SubqueryCondition;
+        // EXISTS subqueries have no outer column
+        if (subqueryCond.column) {
+          const { table, column } = parseColumnReference(
+            subqueryCond.column,
+            currentTable,
+            aliasToTable
+          );
+          addColumn(table, column);
+        }
         processSubqueryForIndexing(
           subqueryCond.subquery,
           aliasToTable,
@@ -277,30 +321,231 @@ function extractIndexableColumns(
     }
   }
 
+  // A negated check can't use an index on its own columns, but subqueries under
+  // NOT still look up rows in their tables
+  function processNegated(cond: Condition, currentTable: string): void {
+    switch (cond.type) {
+      case 'logical': {
+        const logical = cond as LogicalCondition;
+        logical.conditions.forEach((c) =>
+          logical.operator === 'NOT'
+            ? processCondition(c, currentTable)
+            : processNegated(c, currentTable)
+        );
+        break;
+      }
+      case 'membership': {
+        const subquery = membershipSubquery(cond as MembershipCondition);
+        if (subquery) {
+          processSubqueryForIndexing(subquery, aliasToTable, processCondition, addColumn);
+        }
+        break;
+      }
+      case 'subquery':
+        processSubqueryForIndexing(
+          (cond as SubqueryCondition).subquery,
+          aliasToTable,
+          processCondition,
+          addColumn
+        );
+        break;
+    }
+  }
+
   processCondition(condition, tableName);
   return tableColumns;
 }
 
 /**
- * Generate CREATE INDEX statements for columns
+ * Default name for a generated index: `idx_<table>_<columns>`, with `_gin` / `_gist` appended
+ * for GIN / GiST indexes and `_where_<predicate>` for partial ones. Names over 63 characters
+ * end in a hash, as policy names do.
  */
-function generateIndexSQL(tableColumns: Map<string, Set<string>>): string[] {
-  const indexes: string[] = [];
-
-  tableColumns.forEach((columns, tableName) => {
-    columns.forEach((columnName) => {
-      const indexName = `idx_${tableName}_${columnName}`;
-      indexes.push(
-        `CREATE INDEX IF NOT EXISTS ${escapeIdentifier(
-          indexName
-        )} ON ${escapeIdentifier(tableName)} (${escapeIdentifier(columnName)});`
-      );
-    });
-  });
+export function defaultIndexName(index: IndexDefinition): string {
+  // Index names can't be schema-qualified: "billing.invoices" becomes idx_billing_invoices
+  const parts = [`idx_${index.table.replace(/\./g, '_')}`, ...index.columns];
+  if (index.method !== 'btree') parts.push(index.method);
+  if (index.where) {
+    parts.push('where', index.where.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''));
+  }
+  return truncateIdentifier(parts.join('_'));
+}
+
+/**
+ * Name of the single-column index Rowguard generates for a policy column
+ */
+export function policyIndexName(tableName: string, columnName: string): string {
+  return defaultIndexName({ table: tableName, columns: [columnName], method: 'btree' });
+}
+
+/**
+ * CREATE INDEX statement for a generated index
+ */
+export function createIndexSQL(index: IndexDefinition, options?: SQLGenerationOptions): string {
+  const name = (options?.indexName ?? defaultIndexName)(index);
+  const concurrently = options?.concurrentIndexes ? 'CONCURRENTLY ' : '';
+  const using = index.method === 'btree' ? '' : `USING ${index.method} `;
+  const where = index.where ? ` WHERE ${index.where}` : '';
+  return (
+    `CREATE INDEX ${concurrently}IF NOT EXISTS ${escapeIdentifier(name)} ` +
+    `ON ${escapeIdentifier(index.table)} ${using}(${index.columns.map(escapeIdentifier).join(', ')})${where};`
+  );
+}
+
+// Column on the policy table, or undefined when qualified with another table
+function ownColumn(columnRef: string, tableName: string): string | undefined {
+  if (!columnRef.includes('.')) return columnRef;
+  const dot = columnRef.lastIndexOf('.');
+  return columnRef.slice(0, dot) === tableName ? columnRef.slice(dot + 1) : undefined;
+}
+
+function isIndexableEquality(cond: Condition): cond is ComparisonCondition {
+  if (cond.type !== 'comparison') return false;
+  const comp = cond as ComparisonCondition;
+  return (
+    comp.operator === 'eq' &&
+    (isContextValue(comp.value) ||
+      (typeof comp.value === 'object' &&
+        comp.value !== null &&
+        'toSQL' in comp.value &&
+        typeof (comp.value as { toSQL(): string }).toSQL === 'function'))
+  );
+}
 
+// Conditions ANDed together, one group per AND node in the tree
+function andGroups(condition: Condition): Condition[][] {
+  if (condition.type !== 'logical') return [[condition]];
+  const logical = condition as LogicalCondition;
+  // Negated groups can't be served by an index on their columns
+  if (logical.operator === 'NOT') return [];
+  const nested = logical.conditions.filter((c) => c.type === 'logical').flatMap(andGroups);
+  return logical.operator === 'AND' ? [logical.conditions, ...nested] : nested;
+}
+
+/**
+ * Composite and partial indexes shaped after the AND groups of a condition.
+ * Comparisons they index are added to `consumed` so they don't also get single-column indexes.
+ */
+function groupIndexes(
+  condition: Condition,
+  tableName: string,
+  options: SQLGenerationOptions,
+  consumed: Set<Condition>
+): IndexDefinition[] {
+  const indexes: IndexDefinition[] = [];
+  for (const group of andGroups(condition)) {
+    const equalities = new Map<string, Condition>();
+    for (const cond of group) {
+      const column = isIndexableEquality(cond) ? ownColumn(cond.column, tableName) : undefined;
+      if (column && !equalities.has(column)) equalities.set(column, cond);
+    }
+    const predicates = options.partialIndexes
+      ? group.filter((c) => c.type === 'null' && !(c as NullCondition).column.includes('.'))
+      : [];
+    const where = predicates.length > 0 ? predicates.map((c) => c.toSQL()).join(' AND ') : undefined;
+
+    if (options.compositeIndexes && equalities.size >= 2) {
+      indexes.push({ table: tableName, columns: [...equalities.keys()], method: 'btree', where });
+    } else if (where && equalities.size > 0) {
+      equalities.forEach((_, column) => indexes.push({ table: tableName, columns: [column], method: 'btree', where }));
+    } else {
+      continue;
+    }
+    equalities.forEach((cond) => consumed.add(cond));
+  }
   return indexes;
 }
 
+// JSONB operators a default (jsonb_ops) GIN index supports
+const GIN_JSON_OPERATORS = new Set<JsonOperator>([
+  'contains',
+  'has key',
+  'has any keys',
+  'has all keys',
+  'path exists',
+  'path match',
+]);
+
+function isGinIndexable(condition: Condition): boolean {
+  if (condition.type === 'membership') {
+    const { operator } = condition as MembershipCondition;
+    return operator === 'contains' || operator === 'overlaps';
+  }
+  if (condition.type !== 'json') return false;
+  // Operators on a path inside the column need an expression index
+  const json = condition as JsonCondition;
+  return json.path.length === 0 && GIN_JSON_OPERATORS.has(json.operator);
+}
+
+// Range columns checked with containsNow() (@> now()), which GIN can't index
+function isRangeContainment(condition: Condition): boolean {
+  const { operator, value } = condition as MembershipCondition;
+  return (
+    condition.type === 'membership' &&
+    operator === 'contains' &&
+    isContextValue(value) &&
+    value.contextType === 'now'
+  );
+}
+
+// GIN indexes for contains() (@>), overlaps() (&&) and JSONB key / jsonpath operators on the policy table's
+// columns, GiST for range containment
+function containsIndexes(condition: Condition, tableName: string): IndexDefinition[] {
+  if (condition.type === 'logical') {
+    const logical = condition as LogicalCondition;
+    if (logical.operator === 'NOT') return [];
+    return logical.conditions.flatMap((c) => containsIndexes(c, tableName));
+  }
+  if (!isGinIndexable(condition)) return [];
+  const column = ownColumn((condition as MembershipCondition | JsonCondition).column, tableName);
+  const method = isRangeContainment(condition) ? 'gist' : 'gin';
+  return column ? [{ table: tableName, columns: [column], method }] : [];
+}
+
+/**
+ * Indexes to generate for a policy: single-column B-tree indexes for columns compared
+ * with the current user or session (including subquery tables), plus composite / partial
+ * indexes, GIN indexes for `contains()`, `overlaps()` and JSONB operators, and GiST
+ * indexes for `containsNow()` when enabled. Supabase-managed tables get none.
+ */
+function collectIndexDefinitions(def: PolicyDefinition, options: SQLGenerationOptions = {}): IndexDefinition[] {
+  const conditions = [def.using, def.withCheck !== def.using ? def.withCheck : undefined].filter(
+    Boolean
+  ) as Condition[];
+  const consumed = new Set<Condition>();
+  const grouped =
+    options.compositeIndexes || options.partialIndexes
+      ? conditions.flatMap((c) => groupIndexes(c, def.table, options, consumed))
+      : [];
+
+  const tableColumns = new Map<string, Set<string>>();
+  for (const condition of conditions) {
+    extractIndexableColumns(condition, def.table, consumed).forEach((cols, tbl) => {
+      if (!tableColumns.has(tbl)) tableColumns.set(tbl, new Set());
+      cols.forEach((col) => tableColumns.get(tbl)!.add(col));
+    });
+  }
+  const single: IndexDefinition[] = [...tableColumns].flatMap(([table, columns]) =>
+    [...columns].map((column) => ({ table, columns: [column], method: 'btree' as const }))
+  );
+
+  const operator =
+    options.ginIndexes || options.gistIndexes
+      ? conditions
+          .flatMap((c) => containsIndexes(c, def.table))
+          .filter((index) => (index.method === 'gin' ? options.ginIndexes : options.gistIndexes))
+      : [];
+
+  const seen = new Set<string>();
+  return [...single, ...grouped, ...operator].filter((index) => {
+    if (SUPABASE_MANAGED_TABLES.has(index.table)) return false;
+    const key = JSON.stringify(index);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 function collectMembershipTables(conditions: Condition[]): string[] {
   const tables = new Set<string>();
   function walk(c: Condition) {
@@ -316,16 +561,81 @@ function collectMembershipTables(conditions: Condition[]): string[] {
         tables.add(val.toSubquery().from);
       }
     }
+    if (c.type === 'subquery') {
+      tables.add((c as SubqueryCondition).subquery.from);
+    }
   }
   conditions.forEach(walk);
   return [...tables];
 }
 
+// outer() references in subqueries resolve to the policy table
+function clauseSQL(def: PolicyDefinition, condition: Condition): string {
+  return withOuterTable(def.table, () => condition.toSQL());
+}
+
+/**
+ * CREATE POLICY statement for a definition (no trailing semicolon)
+ */
+export function createPolicySQL(def: PolicyDefinition): string {
+  const parts: string[] = [];
+
+  parts.push(`CREATE POLICY ${escapeIdentifier(def.name)}`);
+  parts.push(`ON ${escapeIdentifier(def.table)}`);
+
+  if (def.type === 'RESTRICTIVE') {
+    parts.push('AS RESTRICTIVE');
+  }
+
+  parts.push(`FOR ${def.operation}`);
+
+  if (def.role) {
+    parts.push(`TO ${escapeRole(def.role)}`);
+  }
+
+  if (def.using) {
+    parts.push(`USING (${clauseSQL(def, def.using)})`);
+  }
+
+  if (def.withCheck) {
+    parts.push(`WITH CHECK (${clauseSQL(def, def.withCheck)})`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * ALTER POLICY statement that rewrites role and expressions in place.
+ * ALTER cannot change the command or PERMISSIVE/RESTRICTIVE type, nor drop a clause.
+ */
+export function alterPolicySQL(def: PolicyDefinition): string {
+  const parts: string[] = [];
+
+  parts.push(`ALTER POLICY ${escapeIdentifier(def.name)}`);
+  parts.push(`ON ${escapeIdentifier(def.table)}`);
+  parts.push(`TO ${def.role ? escapeRole(def.role) : 'public'}`);
+
+  if (def.using) {
+    parts.push(`USING (${clauseSQL(def, def.using)})`);
+  }
+
+  if (def.withCheck) {
+    parts.push(`WITH CHECK (${clauseSQL(def, def.withCheck)})`);
+  }
+
+  return parts.join(' ');
+}
+
+export function dropPolicySQL(def: Pick<PolicyDefinition, 'name' | 'table'>): string {
+  return `DROP POLICY IF EXISTS ${escapeIdentifier(def.name)} ON ${escapeIdentifier(def.table)}`;
+}
+
 /**
  * Policy builder class implementing fluent API
  */
 export class PolicyBuilder {
   private state: PolicyBuilderState = {};
+  private verbatimName = false;
 
   constructor(name?: string) {
     if (name) {
@@ -333,6 +643,29 @@ export class PolicyBuilder {
     }
   }
 
+  /**
+   * Create a builder from an existing policy definition
+   *
+   * The definition's name is kept verbatim (no sanitization), so a policy loaded
+   * from the database regenerates under the exact name it was deployed with.
+   *
+   * @example
+   * ```typescript
+   * const { policies } = await loadPolicies(client, { tables: ['documents'] });
+   * const builders = policies.map((def) => PolicyBuilder.fromDefinition(def));
+   * ```
+   */
+  static fromDefinition(def: PolicyDefinition): PolicyBuilder {
+    const builder = new PolicyBuilder(def.name).on(def.table).for(def.operation);
+    builder.verbatimName = true;
+    if (def.role) builder.to(def.role);
+    if (def.type === 'RESTRICTIVE') builder.restrictive();
+    if (def.using) builder.when(def.using);
+    if (def.withCheck) builder.withCheck(def.withCheck);
+    if (def.description) builder.description(def.description);
+    return builder;
+  }
+
   /**
    * Specify the table for this policy
    */
@@ -653,8 +986,8 @@ export class PolicyBuilder {
 
     // Use provided name or auto-generate one
     const rawName = this.state.name || this.generatePolicyName();
-    // Sanitize the name for PostgreSQL compatibility
-    const name = sanitizePolicyName(rawName);
+    // Sanitize the name for PostgreSQL compatibility (names from fromDefinition are already valid)
+    const name = this.verbatimName ? rawName : sanitizePolicyName(rawName);
 
     return {
       name,
@@ -676,54 +1009,44 @@ export class PolicyBuilder {
    */
   toSQL(options?: SQLGenerationOptions): string {
     const def = this.toDefinition();
-    const parts: string[] = [];
-
-    parts.push(`CREATE POLICY ${escapeIdentifier(def.name)}`);
-    parts.push(`ON ${escapeIdentifier(def.table)}`);
-
-    if (def.type === 'RESTRICTIVE') {
-      parts.push('AS RESTRICTIVE');
-    }
-
-    parts.push(`FOR ${def.operation}`);
-
-    if (def.role) {
-      parts.push(`TO ${escapeRole(def.role)}`);
-    }
-
-    if (def.using) {
-      parts.push(`USING (${def.using.toSQL()})`);
-    }
-
-    if (def.withCheck) {
-      parts.push(`WITH CHECK (${def.withCheck.toSQL()})`);
-    }
-
-    const policySQL = parts.join(' ');
+    const policySQL = createPolicySQL(def);
 
     if (options?.includeIndexes) {
-      const stmts = this.indexStatementsFromDef(def);
+      const stmts = this.indexStatementsFromDef(def, options);
       if (stmts.length > 0) return `${policySQL};\n\n${stmts.join('\n')}`;
     }
 
     return policySQL;
   }
 
-  indexStatements(): string[] {
-    try { return this.indexStatementsFromDef(this.toDefinition()); } catch { return []; }
+  /**
+   * CREATE INDEX statements for the columns this policy filters on (empty for incomplete policies)
+   * @param options Index shape and naming options (see `SQLGenerationOptions`)
+   */
+  indexStatements(options?: SQLGenerationOptions): string[] {
+    try { return this.indexStatementsFromDef(this.toDefinition(), options); } catch { return []; }
+  }
+
+  /**
+   * Columns used in this policy's conditions that Rowguard would index, including
+   * columns of tables read by subqueries. Empty for incomplete policies.
+   *
+   * @example
+   * ```typescript
+   * policy('p').on('documents').read().when(column('user_id').isOwner()).indexColumns();
+   * // [{ table: 'documents', column: 'user_id' }]
+   * ```
+   */
+  indexColumns(): { table: string; column: string }[] {
+    let def: PolicyDefinition;
+    try { def = this.toDefinition(); } catch { return []; }
+    return collectIndexDefinitions(def)
+      .filter((index) => index.method === 'btree')
+      .map((index) => ({ table: index.table, column: index.columns[0] }));
   }
 
-  private indexStatementsFromDef(def: PolicyDefinition): string[] {
-    const tableColumns = new Map<string, Set<string>>();
-    const mergeColumns = (condition: Condition) => {
-      extractIndexableColumns(condition, def.table).forEach((cols, tbl) => {
-        if (!tableColumns.has(tbl)) tableColumns.set(tbl, new Set());
-        cols.forEach((col) => tableColumns.get(tbl)!.add(col));
-      });
-    };
-    if (def.using) mergeColumns(def.using);
-    if (def.withCheck && def.withCheck !== def.using) mergeColumns(def.withCheck);
-    return generateIndexSQL(tableColumns);
+  private indexStatementsFromDef(def: PolicyDefinition, options?: SQLGenerationOptions): string[] {
+    return collectIndexDefinitions(def, options).map((index) => createIndexSQL(index, options));
   }
 
   /**
@@ -798,10 +1121,13 @@ export function policy(name?: string): PolicyBuilder {
   return new PolicyBuilder(name);
 }
 
-export function collectUniqueIndexStatements(builders: PolicyBuilder[]): string[] {
+export function collectUniqueIndexStatements(
+  builders: PolicyBuilder[],
+  options?: SQLGenerationOptions
+): string[] {
   const seen = new Set<string>();
   return builders.flatMap((b) =>
-    b.indexStatements().filter((stmt) => {
+    b.indexStatements(options).filter((stmt) => {
       if (seen.has(stmt)) return false;
       seen.add(stmt);
       return true;
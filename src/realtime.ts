@@ -0,0 +1,189 @@
+/**
+ * Supabase Realtime helpers: Broadcast / Presence authorization policies on realtime.messages
+ */
+
+import { PolicyBuilder, skipIndex } from './policy-builder';
+import { column, exists, ConditionChain } from './column';
+import { auth } from './context';
+import { from } from './subquery-builder';
+import { escapeIdentifier, sql } from './sql';
+import type { Condition, SQLExpression } from './types';
+
+type RealtimeOperation = 'SELECT' | 'INSERT';
+export type RealtimeExtension = 'broadcast' | 'presence';
+
+const REALTIME_MESSAGES_TABLE = 'realtime.messages';
+const TOPIC_SQL = '(SELECT realtime.topic())';
+// Realtime checks the policies against a realtime.messages row whose topic is the channel's
+const TOPIC_COLUMN = `${REALTIME_MESSAGES_TABLE}.topic`;
+
+// `column::text = value`, so a topic part that isn't of the column's type (`room:lobby` for
+// a uuid column) is denied instead of failing a cast. The text comparison can't use an
+// index on the column, so none is generated for it.
+function textEquals(columnName: string, value: SQLExpression): ConditionChain {
+  const condition = column(columnName).eq(value).toCondition();
+  return skipIndex(
+    new ConditionChain({
+      ...condition,
+      toSQL: () => `${escapeIdentifier(columnName)}::text = ${value.toSQL()}`,
+    })
+  );
+}
+
+export interface RealtimeChannelPolicyOptions {
+  /**
+   * SELECT lets users receive messages on the channel, INSERT lets them send broadcasts
+   * and track presence
+   * @default ['SELECT', 'INSERT']
+   */
+  operations?: RealtimeOperation[];
+  /**
+   * Realtime extensions the policies apply to
+   * @default ['broadcast', 'presence']
+   */
+  extensions?: RealtimeExtension[];
+  /** @default 'authenticated' */
+  role?: string;
+}
+
+export interface RealtimeMembersOptions extends RealtimeChannelPolicyOptions {
+  /**
+   * User ID column in the membership table
+   * @default 'user_id'
+   */
+  userColumn?: string;
+}
+
+/**
+ * A Realtime channel topic, exact (`'lobby'`) or with a trailing wildcard (`'room:*'`)
+ */
+export class RealtimeChannel {
+  private readonly prefix: string;
+  private readonly wildcard: boolean;
+
+  constructor(readonly pattern: string) {
+    const star = pattern.indexOf('*');
+    if (star !== -1 && star !== pattern.length - 1) {
+      throw new Error(
+        `Realtime topic pattern "${pattern}" may only contain a trailing *`
+      );
+    }
+    this.wildcard = star !== -1;
+    this.prefix = this.wildcard ? pattern.slice(0, -1) : pattern;
+  }
+
+  /**
+   * The topic being joined matches this channel's pattern
+   */
+  topic(): ConditionChain {
+    if (!this.wildcard) return column('topic').eq(this.prefix);
+    return column('topic').like(
+      this.prefix.replace(/[\\%_]/g, (c) => `\\${c}`) + '%'
+    );
+  }
+
+  /**
+   * The part of the topic matched by `*`, e.g. the room ID in `room:<id>`. The topic
+   * column is qualified, so the key can be used inside subqueries.
+   * @param type Type to cast it to (`text` skips the cast). The cast can run before the
+   * topic check, so a topic whose suffix isn't of that type (`room:lobby` with `uuid`)
+   * fails with an error instead of being denied; prefer comparing as text.
+   */
+  key(type = 'text'): SQLExpression {
+    if (!this.wildcard) {
+      throw new Error(
+        `Realtime topic "${this.pattern}" has no wildcard to extract a key from`
+      );
+    }
+    if (!/^[A-Za-z_][A-Za-z0-9_ ]*$/.test(type)) {
+      throw new Error(`Invalid type for a realtime topic key: ${type}`);
+    }
+    const part = `substr(${escapeIdentifier(TOPIC_COLUMN)}, ${this.prefix.length + 1})`;
+    return sql(type === 'text' ? part : `${part}::${type}`);
+  }
+
+  /**
+   * Policies allowing users that pass `condition` on this channel
+   *
+   * @example
+   * ```typescript
+   * realtime.channel('announcements').allow(alwaysTrue(), { operations: ['SELECT'] });
+   * ```
+   */
+  allow(
+    condition: Condition | ConditionChain,
+    options: RealtimeChannelPolicyOptions = {}
+  ): PolicyBuilder[] {
+    return this.buildPolicies(condition, options, 'access');
+  }
+
+  /**
+   * Only members listed in a membership table can use the channel. For wildcard topics
+   * the membership column holds the wildcard part (`room_members.room_id` for
+   * `room:<room id>`), for exact topics it holds the whole topic.
+   *
+   * For wildcard topics the membership column is compared as text: casting the topic
+   * instead could fail for topics another policy allows (`room:lobby` isn't a uuid), since
+   * Postgres doesn't evaluate the topic check first. An index is generated for the user
+   * column of the membership table, and for the key column of exact topics.
+   *
+   * @example
+   * ```typescript
+   * realtime.channel('room:*').members('room_members', 'room_id');
+   * // USING ("topic" LIKE 'room:%' AND "extension" IN ('broadcast', 'presence')
+   * //   AND EXISTS (SELECT 1 FROM "room_members" WHERE ("user_id" = (SELECT auth.uid())
+   * //     AND "room_id"::text = substr("realtime"."messages"."topic", 6))))
+   * ```
+   */
+  members(
+    table: string,
+    keyColumn: string,
+    options: RealtimeMembersOptions = {}
+  ): PolicyBuilder[] {
+    const { userColumn = 'user_id' } = options;
+    const isMember = column(userColumn).eq(auth.uid());
+    const membership = this.wildcard
+      ? exists(
+          from(table).where(isMember.and(textEquals(keyColumn, this.key())))
+        )
+      : column('topic').isMemberOf(table, keyColumn, 'topic', userColumn);
+    return this.buildPolicies(membership, options, 'members');
+  }
+
+  private buildPolicies(
+    condition: Condition | ConditionChain,
+    {
+      operations = ['SELECT', 'INSERT'],
+      extensions = ['broadcast', 'presence'],
+      role = 'authenticated',
+    }: RealtimeChannelPolicyOptions,
+    nameSuffix: string
+  ): PolicyBuilder[] {
+    const cond = this.topic()
+      .and(column('extension').in(extensions))
+      .and(condition);
+    return operations.map((op) =>
+      new PolicyBuilder(`${this.prefix}_${op.toLowerCase()}_${nameSuffix}`)
+        .on(REALTIME_MESSAGES_TABLE)
+        .for(op)
+        .to(role)
+        .allow(cond)
+    );
+  }
+}
+
+export const realtime = {
+  /**
+   * Policies and conditions for a channel topic
+   */
+  channel(pattern: string): RealtimeChannel {
+    return new RealtimeChannel(pattern);
+  },
+
+  /**
+   * Topic of the channel being joined: `(SELECT realtime.topic())`
+   */
+  topic(): SQLExpression {
+    return sql(TOPIC_SQL);
+  },
+};
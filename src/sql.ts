@@ -3,6 +3,8 @@ import {
   SubqueryDefinition,
   ComparisonCondition,
   ComparisonOperator,
+  JsonObject,
+  JsonValue,
   SQLExpression,
 } from './types';
 
@@ -38,14 +40,21 @@ export function sanitizePolicyName(name: string): string {
     );
   }
 
-  if (sanitized.length > POSTGRES_MAX_IDENTIFIER_LENGTH) {
-    const hash = simpleHash(name);
-    const hashSuffix = `_${hash}`;
-    const maxBaseLength = POSTGRES_MAX_IDENTIFIER_LENGTH - hashSuffix.length;
-    sanitized = sanitized.substring(0, maxBaseLength) + hashSuffix;
-  }
+  return truncateIdentifier(sanitized, name);
+}
 
-  return sanitized;
+/**
+ * Shorten an identifier to Postgres' 63-character limit, replacing the tail with a hash
+ * of `hashSource` so names that share a long prefix stay distinct
+ */
+export function truncateIdentifier(
+  identifier: string,
+  hashSource: string = identifier
+): string {
+  if (identifier.length <= POSTGRES_MAX_IDENTIFIER_LENGTH) return identifier;
+  const hashSuffix = `_${simpleHash(hashSource)}`;
+  const maxBaseLength = POSTGRES_MAX_IDENTIFIER_LENGTH - hashSuffix.length;
+  return identifier.substring(0, maxBaseLength) + hashSuffix;
 }
 
 // Re-export SQLExpression from types
@@ -55,6 +64,181 @@ export function sql(expression: string): SQLExpression {
   return new SQLExpression(expression);
 }
 
+// Policy table that unqualified outer() references resolve to while a policy is rendered
+let outerTable: string | undefined;
+
+/**
+ * Run `render` with unqualified `outer()` references resolving to `table`
+ */
+export function withOuterTable<T>(table: string, render: () => T): T {
+  const previous = outerTable;
+  outerTable = table;
+  try {
+    return render();
+  } finally {
+    outerTable = previous;
+  }
+}
+
+/**
+ * Correlated reference from a subquery to a column of the policy's table
+ */
+export class OuterReference extends SQLExpression {
+  constructor(readonly column: string) {
+    super(column);
+  }
+
+  toSQL(): string {
+    if (this.column.includes('.')) return escapeIdentifier(this.column);
+    if (!outerTable) {
+      throw new Error(
+        `outer('${this.column}') is only rendered inside a policy; qualify it with the table, e.g. outer('<table>.${this.column}')`
+      );
+    }
+    return escapeIdentifier(`${outerTable}.${this.column}`);
+  }
+
+  toString(): string {
+    return this.toSQL();
+  }
+}
+
+/**
+ * Reference a column of the policy's table from inside a subquery (a correlated
+ * reference). Unqualified names resolve to the table the policy is on.
+ *
+ * @example
+ * ```typescript
+ * policy('comments_read').on('comments').read().when(
+ *   exists(from('posts').where(column('posts.id').eq(outer('post_id'))))
+ * );
+ * // USING (EXISTS (SELECT 1 FROM "posts" WHERE "posts"."id" = "comments"."post_id"))
+ * ```
+ */
+export function outer(column: string): OuterReference {
+  return new OuterReference(column);
+}
+
+/**
+ * Types `literal()` is usually cast to. Any other name is taken as an enum or domain,
+ * optionally schema-qualified (`'billing.invoice_status'`).
+ */
+export type LiteralType =
+  | 'uuid'
+  | 'timestamptz'
+  | 'timestamp'
+  | 'date'
+  | 'bigint'
+  | 'numeric'
+  | 'jsonb'
+  | (string & {});
+
+export type LiteralValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Date
+  | null
+  | JsonObject
+  | JsonValue[];
+
+// Rendered without quoting; anything else is an enum or domain name
+const SQL_TYPES = new Set([
+  'uuid',
+  'text',
+  'varchar',
+  'character varying',
+  'bpchar',
+  'citext',
+  'timestamptz',
+  'timestamp with time zone',
+  'timestamp',
+  'timestamp without time zone',
+  'date',
+  'time',
+  'timetz',
+  'interval',
+  'smallint',
+  'int2',
+  'integer',
+  'int',
+  'int4',
+  'bigint',
+  'int8',
+  'numeric',
+  'decimal',
+  'real',
+  'float4',
+  'double precision',
+  'float8',
+  'boolean',
+  'bool',
+  'json',
+  'jsonb',
+  'inet',
+  'cidr',
+  'bytea',
+]);
+
+function typeSQL(type: string): string {
+  const normalized = type.trim().toLowerCase();
+  if (SQL_TYPES.has(normalized)) return normalized;
+  if (!/^[A-Za-z_][\w$]*(\.[A-Za-z_][\w$]*)?$/.test(type)) {
+    throw new Error(`Invalid type for a literal: "${type}"`);
+  }
+  return escapeIdentifier(type);
+}
+
+/**
+ * A value cast to an explicit type, created by `literal()`
+ */
+export class Literal extends SQLExpression {
+  constructor(
+    readonly value: LiteralValue,
+    readonly type: LiteralType
+  ) {
+    super(Literal.render(value, type));
+  }
+
+  private static render(value: LiteralValue, type: string): string {
+    const cast = typeSQL(type);
+    if (value === null) return `NULL::${cast}`;
+    if (cast === 'json' || cast === 'jsonb') {
+      return `'${JSON.stringify(value instanceof Date ? value.toISOString() : value).replace(/'/g, "''")}'::${cast}`;
+    }
+    if (value instanceof Date) {
+      const iso = value.toISOString();
+      return `'${cast === 'date' ? iso.slice(0, 10) : iso}'::${cast}`;
+    }
+    if (typeof value === 'object') {
+      throw new Error(
+        'Only json and jsonb literals can hold objects or arrays'
+      );
+    }
+    return `'${String(value).replace(/'/g, "''")}'::${cast}`;
+  }
+}
+
+/**
+ * A literal with an explicit cast, for columns where Postgres would otherwise rely on an
+ * implicit conversion from text: uuids, timestamptz, bigints beyond `Number` precision,
+ * enums. Dates render as ISO strings (only the day for `date`), objects as JSON.
+ *
+ * @example
+ * ```typescript
+ * column('id').eq(literal('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'uuid'));
+ * // "id" = '1b4e28ba-2fa1-11d2-883f-0016d3cca427'::uuid
+ * column('published_at').lt(literal(new Date('2024-06-01'), 'timestamptz'));
+ * column('views').gt(literal(9007199254740993n, 'bigint'));
+ * column('status').eq(literal('shipped', 'order_status'));
+ * // "status" = 'shipped'::"order_status"
+ * ```
+ */
+export function literal(value: LiteralValue, type: LiteralType): Literal {
+  return new Literal(value, type);
+}
+
 /**
  * Escape SQL identifier
  * If identifier contains special characters or spaces, wrap in double quotes
@@ -71,17 +255,20 @@ export function escapeIdentifier(identifier: string): string {
 
 /**
  * Escape SQL value
- * Handles null, boolean, number, Date, string, arrays, SQLExpression, and Condition objects
+ * Handles null, boolean, number, Date, string, arrays, SQLExpression, Condition objects
+ * and plain objects (as `jsonb` literals)
  */
 export function escapeValue(
   value:
     | string
     | number
+    | bigint
     | boolean
     | Date
     | null
     | Condition
     | SQLExpression
+    | JsonObject
     | unknown[]
 ): string {
   if (value === null) {
@@ -90,7 +277,7 @@ export function escapeValue(
   if (typeof value === 'boolean') {
     return value ? 'TRUE' : 'FALSE';
   }
-  if (typeof value === 'number') {
+  if (typeof value === 'number' || typeof value === 'bigint') {
     return String(value);
   }
   if (value instanceof Date) {
@@ -105,6 +292,7 @@ export function escapeValue(
         item as
           | string
           | number
+          | bigint
           | boolean
           | Date
           | null
@@ -120,16 +308,34 @@ export function escapeValue(
   if (value && typeof value === 'object' && 'toSQL' in value) {
     return (value as Condition).toSQL();
   }
+  if (value && typeof value === 'object') {
+    return escapeJson(value as JsonObject);
+  }
   return `'${String(value)}'`;
 }
 
+/**
+ * Escape a JSON value as a `jsonb` literal, e.g. `'{"status":"active"}'::jsonb`
+ */
+export function escapeJson(value: JsonValue): string {
+  return `'${JSON.stringify(value).replace(/'/g, "''")}'::jsonb`;
+}
+
 /**
  * Helper to create comparison conditions
  */
 export function createComparison(
   column: string,
   operator: ComparisonOperator,
-  value: string | number | boolean | Date | null | Condition | SQLExpression
+  value:
+    | string
+    | number
+    | bigint
+    | boolean
+    | Date
+    | null
+    | Condition
+    | SQLExpression
 ): ComparisonCondition {
   const operatorMap: Record<ComparisonOperator, string> = {
     eq: '=',
@@ -155,13 +361,19 @@ export function createComparison(
 
 /**
  * Convert subquery definition to SQL
+ * @param selectList Raw select list replacing the subquery's columns, e.g. `1` for EXISTS
  */
-export function subqueryToSQL(subquery: SubqueryDefinition): string {
+export function subqueryToSQL(
+  subquery: SubqueryDefinition,
+  selectList?: string
+): string {
   const from = escapeIdentifier(subquery.from);
   const alias = subquery.alias ? ` ${escapeIdentifier(subquery.alias)}` : '';
-  const select = Array.isArray(subquery.select)
-    ? subquery.select.map(escapeIdentifier).join(', ')
-    : escapeIdentifier(subquery.select);
+  const select =
+    selectList ??
+    (Array.isArray(subquery.select)
+      ? subquery.select.map(escapeIdentifier).join(', ')
+      : escapeIdentifier(subquery.select));
 
   let sql = `SELECT ${select} FROM ${from}${alias}`;
 
@@ -0,0 +1,184 @@
+/**
+ * Supabase Storage helpers: policies on storage.objects using bucket and path conventions
+ */
+
+import { PolicyBuilder } from './policy-builder';
+import { column, sqlCondition, ConditionChain } from './column';
+import { auth } from './context';
+import { escapeValue } from './sql';
+import type { Condition, SQLExpression } from './types';
+
+type StorageOperation = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+type PathValue = string | number | Condition | SQLExpression;
+
+const STORAGE_OBJECTS_TABLE = 'storage.objects';
+
+export interface OwnerFolderOptions {
+  /**
+   * Operations to generate policies for
+   * @default ['SELECT', 'INSERT', 'UPDATE', 'DELETE']
+   */
+  operations?: StorageOperation[];
+  /**
+   * Folder level holding the user ID (1 = top-level folder)
+   * @default 1
+   */
+  level?: number;
+  /** @default 'authenticated' */
+  role?: string;
+}
+
+export interface PublicReadOptions {
+  /** @default 'public' */
+  role?: string;
+}
+
+/**
+ * Text expression over an object's path (`storage.foldername(name)`, `storage.filename(name)`, ...)
+ */
+export class StoragePathExpression {
+  constructor(private readonly expression: string) {}
+
+  // Context values (auth.uid(), session.get()) are not text, and storage paths are
+  private operand(value: PathValue): string {
+    const escaped = escapeValue(value);
+    return typeof value === 'object' && (value as Condition).type === 'context'
+      ? `${escaped}::text`
+      : escaped;
+  }
+
+  eq(value: PathValue): ConditionChain {
+    return sqlCondition(`${this.expression} = ${this.operand(value)}`);
+  }
+
+  neq(value: PathValue): ConditionChain {
+    return sqlCondition(`${this.expression} != ${this.operand(value)}`);
+  }
+
+  in(values: string[]): ConditionChain {
+    if (values.length === 0) return sqlCondition('FALSE');
+    return sqlCondition(
+      `${this.expression} IN (${values.map((v) => escapeValue(v)).join(', ')})`
+    );
+  }
+
+  like(pattern: string): ConditionChain {
+    return sqlCondition(`${this.expression} LIKE ${escapeValue(pattern)}`);
+  }
+
+  ilike(pattern: string): ConditionChain {
+    return sqlCondition(`${this.expression} ILIKE ${escapeValue(pattern)}`);
+  }
+
+  /**
+   * Path segment equals the current user's ID
+   */
+  isOwner(): ConditionChain {
+    return this.eq(auth.uid());
+  }
+
+  toSQL(): string {
+    return this.expression;
+  }
+}
+
+/**
+ * A storage bucket, for building policies on `storage.objects`
+ */
+export class StorageBucket {
+  constructor(readonly name: string) {}
+
+  /**
+   * `bucket_id = '<name>'`
+   */
+  condition(): ConditionChain {
+    return column('bucket_id').eq(this.name);
+  }
+
+  /**
+   * Objects in this bucket that also match `condition`
+   *
+   * @example
+   * ```typescript
+   * policy('avatar_images')
+   *   .on('storage.objects')
+   *   .write()
+   *   .to('authenticated')
+   *   .withCheck(storage.bucket('avatars').where(storage.extension().in(['png', 'jpg'])));
+   * ```
+   */
+  where(condition: Condition | ConditionChain): ConditionChain {
+    return this.condition().and(condition);
+  }
+
+  /**
+   * Users manage their own files under a folder named after their user ID,
+   * e.g. `avatars/<user id>/profile.png`
+   *
+   * @example
+   * ```typescript
+   * storage.bucket('avatars').ownerFolder();
+   * // USING ("bucket_id" = 'avatars' AND (storage.foldername("name"))[1] = (SELECT auth.uid())::text)
+   * ```
+   */
+  ownerFolder({
+    operations = ['SELECT', 'INSERT', 'UPDATE', 'DELETE'],
+    level = 1,
+    role = 'authenticated',
+  }: OwnerFolderOptions = {}): PolicyBuilder[] {
+    const cond = this.where(storage.folder(level).isOwner());
+    return operations.map((op) =>
+      new PolicyBuilder(`${this.name}_${op.toLowerCase()}_owner_folder`)
+        .on(STORAGE_OBJECTS_TABLE)
+        .for(op)
+        .to(role)
+        .allow(cond)
+    );
+  }
+
+  /**
+   * Anyone can read objects in this bucket
+   */
+  publicRead({ role = 'public' }: PublicReadOptions = {}): PolicyBuilder[] {
+    return [
+      new PolicyBuilder(`${this.name}_select_public`)
+        .on(STORAGE_OBJECTS_TABLE)
+        .for('SELECT')
+        .to(role)
+        .when(this.condition()),
+    ];
+  }
+}
+
+export const storage = {
+  /**
+   * Policies and conditions for a bucket
+   */
+  bucket(name: string): StorageBucket {
+    return new StorageBucket(name);
+  },
+
+  /**
+   * Folder of an object's path at `level` (1-based): `(storage.foldername(name))[level]`
+   */
+  folder(level = 1): StoragePathExpression {
+    if (!Number.isInteger(level) || level < 1) {
+      throw new Error(`Folder level must be a positive integer, got ${level}`);
+    }
+    return new StoragePathExpression(`(storage.foldername("name"))[${level}]`);
+  },
+
+  /**
+   * File name without folders: `storage.filename(name)`
+   */
+  filename(): StoragePathExpression {
+    return new StoragePathExpression('storage.filename("name")');
+  },
+
+  /**
+   * File extension: `storage.extension(name)`
+   */
+  extension(): StoragePathExpression {
+    return new StoragePathExpression('storage.extension("name")');
+  },
+};
@@ -29,7 +29,8 @@ function validateTableReferences(
       } else {
         throw new Error(
           `Missing join(s) for table(s): ${filteredMissing.join(', ')}. ` +
-            `Add a join using .join('${filteredMissing[0]}', ...) before calling .where()`
+            `Add a join using .join('${filteredMissing[0]}', ...) before calling .where(), ` +
+            `or use outer() to reference the policy's table`
         );
       }
     }
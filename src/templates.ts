@@ -1,9 +1,9 @@
-import { PolicyBuilder } from './policy-builder';
-import { column, hasRole, ConditionChain, alwaysTrue } from './column';
+import { PolicyBuilder, skipIndex } from './policy-builder';
+import { column, hasRole, ConditionChain, alwaysTrue, sqlCondition, exists } from './column';
 import { from } from './subquery-builder';
 import { auth, session } from './context';
-import { escapeValue, escapeIdentifier } from './sql';
-import type { ContextValue, PolicyOperation, HelperCondition } from './types';
+import { escapeValue, escapeIdentifier, outer } from './sql';
+import type { ContextValue, PolicyOperation } from './types';
 
 type CrudOp = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
 type RoleSource =
@@ -69,15 +69,22 @@ export interface OpenConfig {
   role?: string;
 }
 
-function rawCond(expression: string): ConditionChain {
-  return new ConditionChain({
-    type: 'helper',
-    helperType: 'raw',
-    params: {},
-    toSQL(): string { return expression; },
-  } as HelperCondition);
+export interface InheritConfig {
+  tables: string[];
+  parent: string;
+  /** Column(s) on the child tables referencing the parent */
+  foreignKey: string | string[];
+  /**
+   * Referenced column(s) on the parent, in the same order as `foreignKey`. The default `id`
+   * is taken to be the primary key and gets no generated index.
+   */
+  parentKey?: string | string[];
+  operations?: CrudOp[];
+  role?: string;
 }
 
+const rawCond = (expression: string): ConditionChain => sqlCondition(expression);
+
 function buildJwtRoleCond(jwtPath: string, roles: string[]): ConditionChain {
   const jwtExpr = auth.jwt(jwtPath).toSQL();
   if (roles.length === 1) return rawCond(`${jwtExpr} = ${escapeValue(roles[0])}`);
@@ -89,7 +96,7 @@ function buildTableRoleCond(roles: string[], rolesTable: string, userColumn: str
   if (roles.length === 1) return hasRole(roles[0], rolesTable);
   const list = roles.map((r) => escapeValue(r)).join(', ');
   return rawCond(
-    `EXISTS (SELECT 1 FROM "${rolesTable}" WHERE "${userColumn}" = ${auth.uid().toSQL()} AND "${roleColumn}" IN (${list}))`
+    `EXISTS (SELECT 1 FROM ${escapeIdentifier(rolesTable)} WHERE ${escapeIdentifier(userColumn)} = ${auth.uid().toSQL()} AND ${escapeIdentifier(roleColumn)} IN (${list}))`
   );
 }
 
@@ -198,6 +205,33 @@ export function open({ tables, role = 'public' }: OpenConfig): PolicyBuilder[] {
   );
 }
 
+export function inherit({ tables, parent, foreignKey, parentKey = 'id', operations = ALL_CRUD, role = 'authenticated' }: InheritConfig): PolicyBuilder[] {
+  const foreignKeys = Array.isArray(foreignKey) ? foreignKey : [foreignKey];
+  const parentKeys = Array.isArray(parentKey) ? parentKey : [parentKey];
+  if (foreignKeys.length !== parentKeys.length) {
+    throw new Error(`inherit(): foreignKey has ${foreignKeys.length} column(s) but parentKey has ${parentKeys.length}`);
+  }
+  const sameTable = (a: string, b: string) => a.replace(/^public\./, '') === b.replace(/^public\./, '');
+  const selfReference = tables.find((t) => sameTable(t, parent));
+  if (selfReference) {
+    throw new Error(
+      `inherit(): "${selfReference}" can't inherit from itself: the EXISTS subquery would be checked by the same ` +
+        'policy and Postgres reports infinite recursion. Use definerFunction() to look up the parent row instead.'
+    );
+  }
+  const parentName = parent.slice(parent.lastIndexOf('.') + 1);
+  const keyIsPrimary = parentKeys.length === 1 && parentKeys[0] === 'id';
+
+  return tables.flatMap((t) => {
+    const comparisons = foreignKeys.map((fk, i) => column(`parent.${parentKeys[i]}`).eq(outer(`${t}.${fk}`)));
+    const match = comparisons.map((c) => (keyIsPrimary ? skipIndex(c) : c)).reduce((acc, cond) => acc.and(cond));
+    const cond = exists(from(parent, 'parent').where(match));
+    return operations.map((op) =>
+      new PolicyBuilder(`${t}_${op.toLowerCase()}_inherit_${parentName}`).on(t).for(op).to(role).allow(cond)
+    );
+  });
+}
+
 export const policies = {
   owned,
   shared,
@@ -207,4 +241,5 @@ export const policies = {
   immutable,
   admin,
   open,
+  inherit,
 };
@@ -2,7 +2,9 @@ import { ColumnBuilder, ConditionChain } from './column';
 import { PolicyBuilder } from './policy-builder';
 import { auth, session } from './context';
 import type {
+  Condition,
   SQLExpression,
+  SubqueryDefinition,
   ComparisonCondition,
   PatternCondition,
   MembershipCondition,
@@ -11,7 +13,8 @@ import type {
   PolicyOperation,
 } from './types';
 import { SubqueryBuilder } from './subquery-builder';
-import { escapeIdentifier, escapeValue, subqueryToSQL } from './sql';
+import type { ColumnDataType, Relationship } from './introspect';
+import { escapeIdentifier, escapeValue, literal, Literal, sql, subqueryToSQL } from './sql';
 import {
   owned,
   shared,
@@ -21,6 +24,7 @@ import {
   immutable,
   admin,
   open,
+  inherit,
 } from './templates';
 import type {
   OwnedConfig,
@@ -35,119 +39,389 @@ import type {
 
 // ─── Schema type extraction ───────────────────────────────────────────────────
 
-export type TableNames<DB> = 'public' extends keyof DB
-  ? DB['public'] extends { Tables: infer T }
-    ? keyof T & string
+// Schemas in the generated types that have tables (skips __InternalSupabase)
+export type SchemaNames<DB> = {
+  [S in keyof DB & string]: DB[S] extends { Tables: unknown } ? S : never;
+}[keyof DB & string];
+
+type SchemaTables<DB, S extends string> = S extends keyof DB
+  ? DB[S] extends { Tables: infer T }
+    ? T
     : never
   : never;
 
-export type ColumnNames<DB, TableName extends TableNames<DB>> =
-  'public' extends keyof DB
-    ? DB['public'] extends { Tables: infer T }
-      ? TableName extends keyof T
-        ? T[TableName] extends { Row: infer R }
-          ? keyof R & string
-          : never
-        : never
-      : never
+// Only `Tables` entries with an Insert type can be policy targets: views live under
+// `Views`, and read-only foreign tables are typed without Insert.
+export type TableNames<DB, S extends string = 'public'> = {
+  [K in keyof SchemaTables<DB, S> & string]: SchemaTables<DB, S>[K] extends {
+    Row: unknown;
+    Insert: unknown;
+  }
+    ? K
     : never;
+}[keyof SchemaTables<DB, S> & string];
+
+export type ColumnNames<
+  DB,
+  TableName extends TableNames<DB, S>,
+  S extends string = 'public',
+> = TableName extends keyof SchemaTables<DB, S>
+  ? SchemaTables<DB, S>[TableName] extends { Row: infer R }
+    ? keyof R & string
+    : never
+  : never;
 
 // Union of every column from every table in the schema.
 // Used for config fields like userColumn, publicColumn where the column
 // must exist in the schema but we can't statically know which table it comes from.
-export type AnyColumn<DB> = ColumnNames<DB, TableNames<DB>>;
+export type AnyColumn<DB, S extends string = 'public'> = ColumnNames<DB, TableNames<DB, S>, S>;
+
+// Row type of a column, e.g. `boolean` or `string | null`
+export type ColumnType<
+  DB,
+  TableName extends TableNames<DB, S>,
+  Col extends ColumnNames<DB, TableName, S>,
+  S extends string = 'public',
+> = SchemaTables<DB, S>[TableName] extends { Row: infer R }
+  ? Col extends keyof R
+    ? R[Col]
+    : never
+  : never;
+
+// ─── Relationships ────────────────────────────────────────────────────────────
+
+// Entries of a table's generated `Relationships` (foreign keys)
+type TableRelationship<DB, S extends string, T> = T extends keyof SchemaTables<DB, S>
+  ? SchemaTables<DB, S>[T] extends { Relationships: readonly (infer R)[] }
+    ? R
+    : never
+  : never;
+
+type ReferencedRelation<R> = R extends { referencedRelation: infer P extends string } ? P : never;
+type ForeignKeyName<R> = R extends { foreignKeyName: infer N extends string } ? N : never;
+
+// Tables T references with a foreign key; any table when the types carry no Relationships
+export type ParentTables<DB, S extends string, T> = [TableRelationship<DB, S, T>] extends [never]
+  ? TableNames<DB, S>
+  : ReferencedRelation<TableRelationship<DB, S, T>> & TableNames<DB, S>;
+
+/**
+ * A foreign key as listed under a table's `Relationships` in the generated types
+ */
+export interface GeneratedRelationship {
+  foreignKeyName: string;
+  columns: readonly string[];
+  referencedRelation: string;
+  referencedColumns: readonly string[];
+}
+
+/**
+ * The generated `Relationships` arrays of a schema's tables, keyed by table name. Each entry
+ * must match the generated type, so it can be copied from the types file.
+ */
+export type TableRelationships<DB, S extends string = 'public'> = {
+  [T in TableNames<DB, S>]?: readonly ([TableRelationship<DB, S, T>] extends [never]
+    ? GeneratedRelationship
+    : TableRelationship<DB, S, T>)[];
+};
+
+type ParentForeignKey<DB, S extends string, T, P> = [
+  ForeignKeyName<Extract<TableRelationship<DB, S, T>, { referencedRelation: P }>>,
+] extends [never]
+  ? string
+  : ForeignKeyName<Extract<TableRelationship<DB, S, T>, { referencedRelation: P }>>;
+
+// ─── Column value types ───────────────────────────────────────────────────────
+
+type Scalar = string | number | bigint | boolean | Date | null;
+
+// Supabase types timestamps, dates and UUIDs as string, so string columns also accept
+// Date, and bigint / numeric as number, so number columns also accept bigint. null is
+// only accepted for nullable columns. Columns typed `unknown` accept any scalar.
+export type ColumnValue<V> = unknown extends V
+  ? Scalar
+  :
+      | NonNullable<V>
+      | (string extends NonNullable<V> ? Date : never)
+      | (number extends NonNullable<V> ? bigint : never)
+      | (null extends V ? null : never);
+
+// Another typed column compares column to column, e.g. in join conditions
+type ComparableValue<V> = ColumnValue<V> | ContextValue | SQLExpression | TypedColumn<V>;
+
+type ContainsValue<V> = unknown extends V
+  ? Scalar | Scalar[]
+  : NonNullable<V> extends readonly (infer E)[]
+    ? NonNullable<V> | E
+    : Scalar | Scalar[];
+
+type IsText<V> = unknown extends V ? true : NonNullable<V> extends string ? true : false;
+type IsBoolean<V> = unknown extends V ? true : NonNullable<V> extends boolean ? true : false;
+// Arrays and Json: anything with an object member
+type IsContainer<V> = unknown extends V
+  ? true
+  : [Extract<NonNullable<V>, object>] extends [never]
+    ? false
+    : true;
+type IsNullable<V> = null extends V ? true : false;
+
+type TypedColumnOverrides =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'like' | 'ilike' | 'in' | 'contains'
+  | 'isNull' | 'isPublic';
+
+/**
+ * Column returned by `rg.column()`, with values checked against the column's Row type.
+ * Methods that don't apply to the column type are typed `never`: `like()` / `ilike()`
+ * need a text column, `contains()` an array or JSON column, `isNull()` a nullable
+ * column and `isPublic()` a boolean column.
+ */
+export interface TypedColumn<V> extends Omit<ColumnBuilder, TypedColumnOverrides> {
+  eq(value: ComparableValue<V>): ConditionChain;
+  neq(value: ComparableValue<V>): ConditionChain;
+  gt(value: ComparableValue<V>): ConditionChain;
+  gte(value: ComparableValue<V>): ConditionChain;
+  lt(value: ComparableValue<V>): ConditionChain;
+  lte(value: ComparableValue<V>): ConditionChain;
+  between(low: ComparableValue<V>, high: ComparableValue<V>): ConditionChain;
+  /**
+   * Typed subqueries (`rg.from()`) must select a column whose type matches this column
+   */
+  in(values: ColumnValue<V>[] | SubqueryBuilder | SelectingSubquery<V> | ContextValue): ConditionChain;
+  like: IsText<V> extends true ? (pattern: string) => ConditionChain : never;
+  ilike: IsText<V> extends true ? (pattern: string) => ConditionChain : never;
+  contains: IsContainer<V> extends true ? (value: ContainsValue<V>) => ConditionChain : never;
+  isNull: IsNullable<V> extends true ? () => ConditionChain : never;
+  isPublic: IsBoolean<V> extends true ? () => ConditionChain : never;
+}
+
+// ─── Typed subqueries ─────────────────────────────────────────────────────────
+
+// Tables in a subquery, keyed by the name they're referenced with (alias or table name)
+type SubqueryScope<DB, S extends string> = Record<string, TableNames<DB, S>>;
+
+// Bare columns of the FROM table, plus "alias.column" for every table in scope
+export type ScopeColumn<
+  DB,
+  S extends string,
+  From extends TableNames<DB, S>,
+  Scope extends SubqueryScope<DB, S>,
+> =
+  | ColumnNames<DB, From, S>
+  | { [A in keyof Scope & string]: `${A}.${ColumnNames<DB, Scope[A], S>}` }[keyof Scope & string];
+
+type ScopeColumnType<
+  DB,
+  S extends string,
+  From extends TableNames<DB, S>,
+  Scope extends SubqueryScope<DB, S>,
+  Ref extends string,
+> = Ref extends `${infer A}.${infer C}`
+  ? A extends keyof Scope
+    ? C extends ColumnNames<DB, Scope[A], S>
+      ? ColumnType<DB, Scope[A], C, S>
+      : never
+    : never
+  : Ref extends ColumnNames<DB, From, S>
+    ? ColumnType<DB, From, Ref, S>
+    : never;
+
+type ScopeColumnRef<DB, S extends string, From extends TableNames<DB, S>, Scope extends SubqueryScope<DB, S>> =
+  <R extends ScopeColumn<DB, S, From, Scope>>(ref: R) => TypedColumn<ScopeColumnType<DB, S, From, Scope, R>>;
+
+type ScopeCondition<DB, S extends string, From extends TableNames<DB, S>, Scope extends SubqueryScope<DB, S>> =
+  | Condition
+  | ConditionChain
+  | ((col: ScopeColumnRef<DB, S, From, Scope>) => Condition | ConditionChain);
+
+// What TypedColumn.in() accepts from a typed subquery: one selected column of type V
+interface SelectingSubquery<V> {
+  readonly selected?: V | null;
+  toSubquery(): SubqueryDefinition;
+}
+
+/**
+ * Subquery returned by `rg.from()`. Selected, joined and filtered columns must belong to
+ * the tables in scope; `where()` and `join()` take a callback for typed column references.
+ */
+export interface TypedSubquery<
+  DB,
+  S extends string,
+  From extends TableNames<DB, S>,
+  Scope extends SubqueryScope<DB, S>,
+  Selected = unknown,
+> extends Omit<SubqueryBuilder, 'select' | 'where' | 'join'> {
+  /** Type of the selected column (type-level only, never set) */
+  readonly selected?: Selected;
+  select<R extends ScopeColumn<DB, S, From, Scope>>(
+    column: R
+  ): TypedSubquery<DB, S, From, Scope, ScopeColumnType<DB, S, From, Scope, R>>;
+  select(columns: ScopeColumn<DB, S, From, Scope>[]): TypedSubquery<DB, S, From, Scope>;
+  where(condition: ScopeCondition<DB, S, From, Scope>): this;
+  join<T extends TableNames<DB, S>, A extends string = T>(
+    table: T,
+    on: ScopeCondition<DB, S, From, Scope & Record<A, T>>,
+    type?: 'inner' | 'left' | 'right' | 'full',
+    alias?: A
+  ): TypedSubquery<DB, S, From, Scope & Record<A, T>, Selected>;
+}
 
 // ─── Typed config interfaces ──────────────────────────────────────────────────
 
 type CrudOp = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
 
-type TypedRoleSource<DB> =
+type TypedRoleSource<DB, S extends string> =
   | { jwt: string }
-  | { table: TableNames<DB>; userColumn?: AnyColumn<DB>; roleColumn?: AnyColumn<DB> };
+  | { table: TableNames<DB, S>; userColumn?: AnyColumn<DB, S>; roleColumn?: AnyColumn<DB, S> };
 
-export interface TypedOwnedConfig<DB> {
-  tables: TableNames<DB>[];
-  userColumn?: AnyColumn<DB>;
+export interface TypedOwnedConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
+  userColumn?: AnyColumn<DB, S>;
   operations?: CrudOp[];
   role?: string;
 }
 
-export interface TypedSharedConfig<DB> {
-  tables: TableNames<DB>[];
-  userColumn?: AnyColumn<DB>;
-  publicColumn?: AnyColumn<DB>;
+export interface TypedSharedConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
+  userColumn?: AnyColumn<DB, S>;
+  publicColumn?: AnyColumn<DB, S>;
   role?: string;
 }
 
-// Via extends TableNames<DB> so that `key` narrows to only the columns
+// Via extends TableNames<DB, S> so that `key` narrows to only the columns
 // of the specified membership table rather than every column in the schema.
-export interface TypedMembershipConfig<DB, Via extends TableNames<DB> = TableNames<DB>> {
-  tables: TableNames<DB>[];
+export interface TypedMembershipConfig<
+  DB,
+  S extends string = 'public',
+  Via extends TableNames<DB, S> = TableNames<DB, S>,
+> {
+  tables: TableNames<DB, S>[];
   via: Via;
-  key: ColumnNames<DB, Via>;
-  localColumn?: AnyColumn<DB>;
-  userColumn?: ColumnNames<DB, Via>;
+  /**
+   * Inferred from the foreign keys when omitted: a key on `via` referencing the table,
+   * or keys on both referencing the same parent. Needs `relationships`.
+   */
+  key?: ColumnNames<DB, Via, S>;
+  localColumn?: AnyColumn<DB, S>;
+  userColumn?: ColumnNames<DB, Via, S>;
   operations?: CrudOp[];
   role?: string;
 }
 
-export interface TypedTenantConfig<DB> {
-  tables: TableNames<DB>[];
-  column?: AnyColumn<DB>;
+export interface TypedTenantConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
+  column?: AnyColumn<DB, S>;
   source?: ContextValue;
-  userColumn?: AnyColumn<DB>;
+  userColumn?: AnyColumn<DB, S>;
   ownerPolicies?: boolean;
   role?: string;
 }
 
-export interface TypedRoleConfig<DB> {
-  tables: TableNames<DB>[];
+export interface TypedRoleConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
   is: string | string[];
-  via?: TypedRoleSource<DB>;
+  via?: TypedRoleSource<DB, S>;
   operations?: PolicyOperation[];
 }
 
-export interface TypedImmutableConfig<DB> {
-  tables: TableNames<DB>[];
-  userColumn?: AnyColumn<DB>;
+export interface TypedImmutableConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
+  userColumn?: AnyColumn<DB, S>;
   allowRead?: boolean;
   role?: string;
 }
 
-export interface TypedAdminConfig<DB> {
-  tables: TableNames<DB>[];
+export interface TypedAdminConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
   is: string | string[];
-  via?: TypedRoleSource<DB>;
+  via?: TypedRoleSource<DB, S>;
   operations?: PolicyOperation[];
 }
 
-export interface TypedOpenConfig<DB> {
-  tables: TableNames<DB>[];
+export interface TypedOpenConfig<DB, S extends string = 'public'> {
+  tables: TableNames<DB, S>[];
+  role?: string;
+}
+
+// T is inferred from `table`, narrowing `parent` to the tables it references
+export interface TypedInheritFromConfig<
+  DB,
+  S extends string = 'public',
+  T extends TableNames<DB, S> = TableNames<DB, S>,
+> {
+  table: T;
+  parent: ParentTables<DB, S, T>;
+  /** Foreign key to follow when the table references the parent more than once */
+  foreignKey?: ParentForeignKey<DB, S, T, this['parent']>;
+  operations?: CrudOp[];
   role?: string;
 }
 
 // ─── Typed policies interface ─────────────────────────────────────────────────
 
-interface TypedPolicies<DB> {
-  owned(config: TypedOwnedConfig<DB>): PolicyBuilder[];
-  shared(config: TypedSharedConfig<DB>): PolicyBuilder[];
+interface TypedPolicies<DB, S extends string> {
+  owned(config: TypedOwnedConfig<DB, S>): PolicyBuilder[];
+  shared(config: TypedSharedConfig<DB, S>): PolicyBuilder[];
   // Via is inferred from the `via` field, constraining `key` to columns of that table
-  membership<Via extends TableNames<DB>>(config: TypedMembershipConfig<DB, Via>): PolicyBuilder[];
-  tenant(config: TypedTenantConfig<DB>): PolicyBuilder[];
-  role(config: TypedRoleConfig<DB>): PolicyBuilder[];
-  immutable(config: TypedImmutableConfig<DB>): PolicyBuilder[];
-  admin(config: TypedAdminConfig<DB>): PolicyBuilder[];
-  open(config: TypedOpenConfig<DB>): PolicyBuilder[];
+  membership<Via extends TableNames<DB, S>>(config: TypedMembershipConfig<DB, S, Via>): PolicyBuilder[];
+  tenant(config: TypedTenantConfig<DB, S>): PolicyBuilder[];
+  role(config: TypedRoleConfig<DB, S>): PolicyBuilder[];
+  immutable(config: TypedImmutableConfig<DB, S>): PolicyBuilder[];
+  admin(config: TypedAdminConfig<DB, S>): PolicyBuilder[];
+  open(config: TypedOpenConfig<DB, S>): PolicyBuilder[];
+  /**
+   * Access to `table` follows access to the parent row its foreign key points to:
+   * `EXISTS (SELECT 1 FROM parent WHERE parent.id = table.parent_id)`, evaluated under
+   * the parent's own policies. Needs `relationships`.
+   */
+  inheritFrom<T extends TableNames<DB, S>>(config: TypedInheritFromConfig<DB, S, T>): PolicyBuilder[];
 }
 
 // ─── Typed Rowguard interface ─────────────────────────────────────────────────
 
-export interface TypedRowguard<DB> {
-  policy(name?: string): { on<T extends TableNames<DB>>(table: T): PolicyBuilder };
-  column<T extends TableNames<DB>, C extends ColumnNames<DB, T>>(table: T, col: C): ColumnBuilder;
+export interface TypedRowguardOptions<S extends string, DB = unknown> {
+  /** @default 'public' */
+  schema?: S;
+  /**
+   * Foreign keys, used by `inheritFrom` and by `membership` when `key` is omitted: the
+   * generated `Relationships` arrays keyed by table, or `loadRelationships(client)`
+   */
+  relationships?: TableRelationships<DB, S> | Relationship[];
+  /**
+   * Column types (see `loadColumnTypes`). String, Date and bigint values compared with
+   * a column of known non-text type are cast to it, e.g. `'…'::uuid`.
+   */
+  columnTypes?: ColumnDataType[];
+}
+
+export interface TypedRowguard<DB, S extends string = 'public'> {
+  policy(name?: string): { on<T extends TableNames<DB, S>>(table: T): PolicyBuilder };
+  column<T extends TableNames<DB, S>, C extends ColumnNames<DB, T, S>>(
+    table: T,
+    col: C
+  ): TypedColumn<ColumnType<DB, T, C, S>>;
+  /**
+   * The same API for tables in another schema, referenced as `"schema"."table"`
+   */
+  schema<S2 extends SchemaNames<DB>>(name: S2): TypedRowguard<DB, S2>;
+  /**
+   * Subquery over a table of the schema, for `.in()` on typed columns
+   *
+   * @example
+   * ```typescript
+   * rg.column('projects', 'id').in(
+   *   rg.from('project_members')
+   *     .select('project_id')
+   *     .where((col) => col('project_members.user_id').isOwner())
+   * );
+   * ```
+   */
+  from<T extends TableNames<DB, S>, A extends string = T>(
+    table: T,
+    alias?: A
+  ): TypedSubquery<DB, S, T, Record<A, T>>;
   auth: typeof auth;
   session: typeof session;
-  policies: TypedPolicies<DB>;
+  policies: TypedPolicies<DB, S>;
 }
 
 // ─── TypedColumnBuilder (local — generates qualified "table"."column" refs) ───
@@ -156,13 +430,21 @@ function escapeQualifiedIdentifier(table: string, col: string): string {
   return `${escapeIdentifier(table)}.${escapeIdentifier(col)}`;
 }
 
+// Column types whose values need no cast: text compares with string literals as is
+const UNCAST_TYPES = new Set(['text', 'varchar', 'bpchar', 'citext', 'name', 'json', 'jsonb']);
+
+type ColumnTypeLookup = (table: string, column: string) => string | undefined;
+
 function createQualifiedComparison(
   table: string,
   col: string,
   operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte',
-  value: string | number | boolean | Date | null | ContextValue | SQLExpression
+  value: string | number | bigint | boolean | Date | null | ContextValue | SQLExpression | TypedColumnBuilder
 ): ComparisonCondition {
   const operatorMap = { eq: '=', neq: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+  if (value instanceof TypedColumnBuilder) {
+    value = value.reference();
+  }
   return {
     type: 'comparison',
     column: `${table}.${col}`,
@@ -174,38 +456,60 @@ function createQualifiedComparison(
   };
 }
 
+type TypedValue = string | number | bigint | boolean | Date | null | ContextValue | SQLExpression;
+
 class TypedColumnBuilder extends ColumnBuilder {
   private table: string;
   private col: string;
+  private dataType?: string;
 
-  constructor(table: string, column: string) {
+  constructor(table: string, column: string, dataType?: string) {
     super(`${table}.${column}`);
     this.table = table;
     this.col = column;
+    this.dataType = dataType;
+  }
+
+  // The column as a value, for column-to-column comparisons
+  reference(): SQLExpression {
+    return sql(escapeQualifiedIdentifier(this.table, this.col));
   }
 
-  eq(value: string | number | boolean | Date | null | ContextValue | SQLExpression): ConditionChain {
-    return new ConditionChain(createQualifiedComparison(this.table, this.col, 'eq', value));
+  // Strings, Dates and bigints cast to the column's type, when known and not text
+  private cast<T>(value: T): T | Literal {
+    if (!this.dataType || UNCAST_TYPES.has(this.dataType)) return value;
+    if (typeof value === 'string' || typeof value === 'bigint' || value instanceof Date) {
+      return literal(value, this.dataType);
+    }
+    return value;
   }
 
-  neq(value: string | number | boolean | Date | null | ContextValue | SQLExpression): ConditionChain {
-    return new ConditionChain(createQualifiedComparison(this.table, this.col, 'neq', value));
+  private compare(operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte', value: TypedValue): ConditionChain {
+    return new ConditionChain(createQualifiedComparison(this.table, this.col, operator, this.cast(value)));
   }
 
-  gt(value: string | number | boolean | Date | null | ContextValue | SQLExpression): ConditionChain {
-    return new ConditionChain(createQualifiedComparison(this.table, this.col, 'gt', value));
+  eq(value: TypedValue): ConditionChain {
+    return this.compare('eq', value);
   }
 
-  gte(value: string | number | boolean | Date | null | ContextValue | SQLExpression): ConditionChain {
-    return new ConditionChain(createQualifiedComparison(this.table, this.col, 'gte', value));
+  neq(value: TypedValue): ConditionChain {
+    return this.compare('neq', value);
   }
 
-  lt(value: string | number | boolean | Date | null | ContextValue | SQLExpression): ConditionChain {
-    return new ConditionChain(createQualifiedComparison(this.table, this.col, 'lt', value));
+  gt(value: TypedValue): ConditionChain {
+    return this.compare('gt', value);
   }
 
-  lte(value: string | number | boolean | Date | null | ContextValue | SQLExpression): ConditionChain {
-    return new ConditionChain(createQualifiedComparison(this.table, this.col, 'lte', value));
+  gte(value: TypedValue): ConditionChain {
+    return this.compare('gte', value);
+  }
+
+  lt(value: TypedValue): ConditionChain {
+    return this.compare('lt', value);
+  }
+
+  lte(value: TypedValue): ConditionChain {
+    return this.compare('lte', value);
   }
 
   like(pattern: string): ConditionChain {
@@ -224,7 +528,9 @@ class TypedColumnBuilder extends ColumnBuilder {
     } as PatternCondition);
   }
 
-  in(values: (string | number | boolean | Date | null)[] | SubqueryBuilder): ConditionChain {
+  in(values: (string | number | bigint | boolean | Date | null)[] | SubqueryBuilder | ContextValue): ConditionChain {
+    if (!Array.isArray(values) && !(values instanceof SubqueryBuilder)) return super.in(values);
+    if (Array.isArray(values)) values = values.map((v) => this.cast(v)) as typeof values;
     const { table, col } = this;
     return new ConditionChain({
       type: 'membership', column: `${table}.${col}`, operator: 'in', value: values as any,
@@ -274,27 +580,231 @@ class TypedColumnBuilder extends ColumnBuilder {
   releasedBefore(referenceDate?: Date): ConditionChain { return super.releasedBefore(referenceDate); }
 }
 
+// ─── TypedSubqueryBuilder (runtime side of TypedSubquery) ──────────────────────
+
+type ScopedCondition = Condition | ConditionChain | ((col: (ref: string) => ColumnBuilder) => Condition | ConditionChain);
+
+class TypedSubqueryBuilder extends SubqueryBuilder {
+  // Scope name → SQL qualifier: the alias, or the (schema-qualified) table
+  private readonly qualifiers = new Map<string, string>();
+
+  // Scope name → unqualified table, for column type lookups
+  private readonly tables = new Map<string, string>();
+
+  private readonly fromName: string;
+
+  constructor(
+    private readonly qualify: (table: string) => string,
+    private readonly typeOf: ColumnTypeLookup,
+    table: string,
+    alias?: string
+  ) {
+    super(qualify(table), alias);
+    this.fromName = alias ?? table;
+    this.qualifiers.set(this.fromName, alias ?? qualify(table));
+    this.tables.set(this.fromName, table);
+  }
+
+  // Bare columns belong to the FROM table
+  private readonly col = (ref: string): ColumnBuilder => {
+    const dot = ref.indexOf('.');
+    const name = dot === -1 ? this.fromName : ref.slice(0, dot);
+    const column = ref.slice(dot + 1);
+    const table = this.tables.get(name);
+    return new TypedColumnBuilder(
+      this.qualifiers.get(name) ?? name,
+      column,
+      table === undefined ? undefined : this.typeOf(table, column)
+    );
+  };
+
+  private resolve(condition: ScopedCondition): Condition | ConditionChain {
+    return typeof condition === 'function' ? condition(this.col) : condition;
+  }
+
+  where(condition: ScopedCondition): this {
+    return super.where(this.resolve(condition));
+  }
+
+  join(table: string, on: ScopedCondition, type?: 'inner' | 'left' | 'right' | 'full', alias?: string): this {
+    this.qualifiers.set(alias ?? table, alias ?? this.qualify(table));
+    this.tables.set(alias ?? table, table);
+    return super.join(this.qualify(table), this.resolve(on), type, alias);
+  }
+}
+
+// ─── Relationship lookups ─────────────────────────────────────────────────────
+
+function foreignKeysBetween(
+  relationships: Relationship[],
+  schema: string,
+  table: string,
+  parent?: string
+): Relationship[] {
+  return relationships.filter(
+    (r) =>
+      r.schema === schema &&
+      r.table === table &&
+      r.referencedSchema === schema &&
+      (parent === undefined || r.referencedRelation === parent)
+  );
+}
+
+// Generated `Relationships` arrays keyed by table, as rows for the schema's tables
+function toRelationships(
+  source: Record<string, readonly GeneratedRelationship[] | undefined> | Relationship[] | undefined,
+  schema: string
+): Relationship[] | undefined {
+  if (!source || Array.isArray(source)) return source;
+  return Object.entries(source).flatMap(([table, keys]) =>
+    (keys ?? []).map((k) => ({
+      schema,
+      table,
+      foreignKeyName: k.foreignKeyName,
+      columns: [...k.columns],
+      referencedSchema: schema,
+      referencedRelation: k.referencedRelation,
+      referencedColumns: [...k.referencedColumns],
+    }))
+  );
+}
+
+function requireRelationships(relationships: Relationship[] | undefined, template: string): Relationship[] {
+  if (!relationships) {
+    throw new Error(
+      `${template} needs foreign keys: pass the generated Relationships, ` +
+        'createRowguard<Database>({ relationships: { tasks: [...] } }), or loadRelationships(client)'
+    );
+  }
+  return relationships;
+}
+
+// Key columns linking a table to its membership table
+function inferMembershipKeys(
+  relationships: Relationship[],
+  schema: string,
+  table: string,
+  via: string
+): { key: string[]; localColumn: string[] } {
+  const direct = foreignKeysBetween(relationships, schema, via, table);
+  if (direct.length === 1) {
+    return { key: direct[0].columns, localColumn: direct[0].referencedColumns };
+  }
+  // Both reference the same parent, e.g. tasks.project_id and project_members.project_id
+  const shared =
+    direct.length > 0
+      ? []
+      : foreignKeysBetween(relationships, schema, via).flatMap((viaKey) =>
+          foreignKeysBetween(relationships, schema, table, viaKey.referencedRelation)
+            .filter((k) => k.referencedColumns.join() === viaKey.referencedColumns.join())
+            .map((k) => ({ key: viaKey.columns, localColumn: k.columns }))
+        );
+  if (shared.length === 1) return shared[0];
+  throw new Error(
+    `Cannot infer the membership key between "${table}" and "${via}" from foreign keys ` +
+      `(${direct.length || shared.length} candidates); pass key and localColumn`
+  );
+}
+
 // ─── createRowguard ───────────────────────────────────────────────────────────
 
-export function createRowguard<DB>(): TypedRowguard<DB> {
+/**
+ * Typed API for the tables of one schema in Supabase generated types. Tables outside
+ * `public` are referenced schema-qualified (`"billing"."invoices"`), including in
+ * templates and generated indexes.
+ *
+ * @example
+ * ```typescript
+ * const rg = createRowguard<Database>();
+ * const billing = createRowguard<Database, 'billing'>('billing'); // or rg.schema('billing')
+ * billing.policies.owned({ tables: ['invoices'] });
+ * ```
+ */
+export function createRowguard<DB, S extends string = 'public'>(
+  ...args: S extends 'public'
+    ? [options?: S | TypedRowguardOptions<S, DB>]
+    : [options: S | (TypedRowguardOptions<S, DB> & { schema: S })]
+): TypedRowguard<DB, S> {
+  const options = (typeof args[0] === 'string' ? { schema: args[0] } : (args[0] ?? {})) as TypedRowguardOptions<string>;
+  const schema = options.schema ?? 'public';
+  const { columnTypes } = options;
+  const relationships = toRelationships(
+    options.relationships as Record<string, readonly GeneratedRelationship[]> | Relationship[] | undefined,
+    schema
+  );
+  const qualify = (table: string): string =>
+    schema === 'public' ? table : `${schema}.${table}`;
+  const typeOf: ColumnTypeLookup = (table, col) =>
+    columnTypes?.find((c) => c.schema === schema && c.table === table && c.column === col)?.type;
+  const withTables = <C extends { tables: string[] }>(config: C): C => ({
+    ...config,
+    tables: config.tables.map(qualify),
+  });
+  const withRoleSource = <C extends { tables: string[]; via?: TypedRoleSource<DB, S> }>(config: C): C => ({
+    ...withTables(config),
+    via: config.via && 'table' in config.via ? { ...config.via, table: qualify(config.via.table) } : config.via,
+  });
+
   return {
     policy: (name?: string) => ({
-      on: <T extends TableNames<DB>>(table: T) => new PolicyBuilder(name).on(table as string),
+      on: <T extends TableNames<DB, S>>(table: T) => new PolicyBuilder(name).on(qualify(table)),
     }),
-    column: <T extends TableNames<DB>, C extends ColumnNames<DB, T>>(table: T, col: C) =>
-      new TypedColumnBuilder(table as string, col as string),
+    column: <T extends TableNames<DB, S>, C extends ColumnNames<DB, T, S>>(table: T, col: C) =>
+      new TypedColumnBuilder(qualify(table), col as string, typeOf(table, col as string)) as unknown as TypedColumn<ColumnType<DB, T, C, S>>,
+    schema: <S2 extends SchemaNames<DB>>(name: S2) =>
+      (createRowguard as (options: TypedRowguardOptions<string>) => TypedRowguard<DB, S2>)({
+        schema: name,
+        relationships,
+        columnTypes,
+      }),
+    from: <T extends TableNames<DB, S>, A extends string = T>(table: T, alias?: A) =>
+      new TypedSubqueryBuilder(qualify, typeOf, table, alias) as unknown as TypedSubquery<DB, S, T, Record<A, T>>,
     auth,
     session,
     policies: {
-      owned:      (config) => owned(config as OwnedConfig),
-      shared:     (config) => shared(config as SharedConfig),
-      membership: <Via extends TableNames<DB>>(config: TypedMembershipConfig<DB, Via>) =>
-                    membership(config as unknown as MembershipConfig),
-      tenant:     (config) => tenant(config as TenantConfig),
-      role:       (config) => role(config as RoleConfig),
-      immutable:  (config) => immutable(config as ImmutableConfig),
-      admin:      (config) => admin(config as AdminConfig),
-      open:       (config) => open(config as OpenConfig),
+      owned:      (config) => owned(withTables(config) as OwnedConfig),
+      shared:     (config) => shared(withTables(config) as SharedConfig),
+      membership: <Via extends TableNames<DB, S>>(config: TypedMembershipConfig<DB, S, Via>) => {
+        if (config.key !== undefined) {
+          return membership({ ...withTables(config), via: qualify(config.via) } as unknown as MembershipConfig);
+        }
+        const rels = requireRelationships(relationships, 'membership() without key');
+        return config.tables.flatMap((t) => {
+          const inferred = inferMembershipKeys(rels, schema, t, config.via);
+          return membership({
+            ...config,
+            tables: [qualify(t)],
+            via: qualify(config.via),
+            key: inferred.key,
+            localColumn: config.localColumn ?? inferred.localColumn,
+          } as MembershipConfig);
+        });
+      },
+      tenant:     (config) => tenant(withTables(config) as TenantConfig),
+      role:       (config) => role(withRoleSource(config) as RoleConfig),
+      immutable:  (config) => immutable(withTables(config) as ImmutableConfig),
+      admin:      (config) => admin(withRoleSource(config) as AdminConfig),
+      open:       (config) => open(withTables(config) as OpenConfig),
+      inheritFrom: <T extends TableNames<DB, S>>(config: TypedInheritFromConfig<DB, S, T>) => {
+        const { table, parent, foreignKey, operations, role } = config;
+        const keys = foreignKeysBetween(requireRelationships(relationships, 'inheritFrom()'), schema, table, parent)
+          .filter((k) => foreignKey === undefined || k.foreignKeyName === foreignKey);
+        if (keys.length !== 1) {
+          throw new Error(
+            keys.length === 0
+              ? `No foreign key from "${table}" to "${parent}"${foreignKey ? ` named "${foreignKey}"` : ''}`
+              : `"${table}" references "${parent}" through ${keys.length} foreign keys; pass foreignKey`
+          );
+        }
+        return inherit({
+          tables: [qualify(table)],
+          parent: qualify(parent),
+          foreignKey: keys[0].columns,
+          parentKey: keys[0].referencedColumns,
+          operations,
+          role,
+        });
+      },
     },
   };
 }
@@ -6,7 +6,7 @@ export type PolicyOperation = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'ALL';
 
 export type PolicyType = 'PERMISSIVE' | 'RESTRICTIVE';
 
-export type ConditionOperator = 'AND' | 'OR';
+export type ConditionOperator = 'AND' | 'OR' | 'NOT';
 
 export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
 
@@ -51,7 +51,15 @@ export interface ComparisonCondition extends Condition {
   type: 'comparison';
   column: string;
   operator: ComparisonOperator;
-  value: string | number | boolean | Date | null | Condition | SQLExpression;
+  value:
+    | string
+    | number
+    | bigint
+    | boolean
+    | Date
+    | null
+    | Condition
+    | SQLExpression;
 }
 
 /**
@@ -65,15 +73,19 @@ export interface PatternCondition extends Condition {
 }
 
 /**
- * Membership condition (in, contains)
+ * Membership condition: IN a list, subquery or array-valued context value, and the
+ * array / JSONB operators (@>, <@, &&, and `value = ANY(column)` for 'contains value')
  */
 export interface MembershipCondition extends Condition {
   type: 'membership';
   column: string;
-  operator: 'in' | 'contains';
+  operator: 'in' | 'contains' | 'contained by' | 'contains value' | 'overlaps';
   value:
-    | (string | number | boolean | Date | null)[]
+    | (string | number | bigint | boolean | Date | null)[]
     | SubqueryDefinition
+    | JsonObject
+    | ContextValue
+    | SQLExpression
     | string
     | number
     | boolean
@@ -81,6 +93,45 @@ export interface MembershipCondition extends Condition {
     | null;
 }
 
+/**
+ * A JSON value, rendered as a `jsonb` literal
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | JsonObject;
+
+export type JsonObject = { [key: string]: JsonValue };
+
+export type JsonOperator =
+  | ComparisonOperator
+  | 'in'
+  | 'null'
+  | 'not null'
+  | 'contains'
+  | 'contained by'
+  | 'has key'
+  | 'has any keys'
+  | 'has all keys'
+  | 'path exists'
+  | 'path match';
+
+/**
+ * JSONB condition on a column, or on a path of keys inside it
+ */
+export interface JsonCondition extends Condition {
+  type: 'json';
+  column: string;
+  /** Object keys and array indexes followed from the column (empty for the column itself) */
+  path: (string | number)[];
+  operator: JsonOperator;
+  /** Compared value, key(s) or jsonpath expression; absent for null checks */
+  value?: JsonValue | ContextValue | SQLExpression;
+}
+
 /**
  * Null check condition
  */
@@ -91,7 +142,7 @@ export interface NullCondition extends Condition {
 }
 
 /**
- * Logical operator condition (AND/OR)
+ * Logical operator condition (AND/OR, or NOT with a single condition)
  */
 export interface LogicalCondition extends Condition {
   type: 'logical';
@@ -192,10 +243,32 @@ export interface PolicyBuilderState {
  */
 export interface ContextValue extends Condition {
   type: 'context';
-  contextType: 'auth_uid' | 'auth_jwt' | 'auth_role' | 'session' | 'current_user';
+  contextType:
+    | 'auth_uid'
+    | 'auth_jwt'
+    | 'auth_jwt_array'
+    | 'auth_role'
+    | 'session'
+    | 'current_user'
+    | 'now';
   key?: string;
   sessionType?: SessionVariableType;
   jwtPath?: string;
+  /** Interval subtracted from now(), e.g. '7 days' */
+  interval?: string;
+}
+
+/**
+ * An index generated for columns used in policy conditions
+ */
+export interface IndexDefinition {
+  table: string;
+  /** Indexed columns, in order */
+  columns: string[];
+  /** `gin` for `contains()` (`@>`) columns, `gist` for `containsNow()` range columns, `btree` otherwise */
+  method: 'btree' | 'gin' | 'gist';
+  /** Predicate of a partial index, e.g. `"deleted_at" IS NULL` */
+  where?: string;
 }
 
 /**
@@ -207,4 +280,38 @@ export interface SQLGenerationOptions {
    * @default false
    */
   includeIndexes?: boolean;
+  /**
+   * Index columns compared with equality in the same AND group together,
+   * e.g. `(tenant_id, user_id)` for `tenant_id = session AND user_id = auth.uid()`
+   * @default false
+   */
+  compositeIndexes?: boolean;
+  /**
+   * Add IS NULL / IS NOT NULL filters from the same AND group (e.g. `deleted_at IS NULL`)
+   * as the index predicate
+   * @default false
+   */
+  partialIndexes?: boolean;
+  /**
+   * Generate GIN indexes for columns checked with `contains()`, `overlaps()` and JSONB
+   * key / jsonpath operators
+   * @default false
+   */
+  ginIndexes?: boolean;
+  /**
+   * Generate GiST indexes for range columns checked with `containsNow()`
+   * @default false
+   */
+  gistIndexes?: boolean;
+  /**
+   * Emit `CREATE INDEX CONCURRENTLY`. `applyPolicies` then creates indexes after
+   * committing the policies, since CONCURRENTLY cannot run inside a transaction.
+   * @default false
+   */
+  concurrentIndexes?: boolean;
+  /**
+   * Name generated indexes
+   * @default `idx_<table>_<columns>`, with `_gin`, `_gist` or `_where_<predicate>` appended
+   */
+  indexName?: (index: IndexDefinition) => string;
 }
@@ -11,7 +11,10 @@ import {
   MembershipCondition,
   HelperCondition,
   FunctionCondition,
+  SubqueryCondition,
+  JsonCondition,
 } from './types';
+import { OuterReference } from './sql';
 
 /**
  * Extract table name from a column reference
@@ -20,6 +23,7 @@ import {
  * - 'm.user_id' -> 'm'
  * - 'users.id' -> 'users'
  * - '"table name".column' -> 'table name'
+ * - 'billing.invoices.id' -> 'billing.invoices'
  */
 export function extractTableFromColumn(columnRef: string): string | null {
   // Handle quoted identifiers
@@ -31,7 +35,7 @@ export function extractTableFromColumn(columnRef: string): string | null {
   }
 
   // Handle unquoted identifiers
-  const dotIndex = columnRef.indexOf('.');
+  const dotIndex = columnRef.lastIndexOf('.');
   if (dotIndex > 0) {
     return columnRef.substring(0, dotIndex);
   }
@@ -55,6 +59,10 @@ export function extractTableReferences(condition: Condition): Set<string> {
         if (table) {
           tables.add(table);
         }
+        // outer() values reference the enclosing query's table, not one in scope here
+        if (comp.value instanceof OuterReference) {
+          break;
+        }
         // Check the value if it's a condition
         if (
           comp.value &&
@@ -81,6 +89,13 @@ export function extractTableReferences(condition: Condition): Set<string> {
         }
         break;
       }
+      case 'json': {
+        const table = extractTableFromColumn((cond as JsonCondition).column);
+        if (table) {
+          tables.add(table);
+        }
+        break;
+      }
       case 'logical': {
         const logical = cond as LogicalCondition;
         logical.conditions.forEach(traverse);
@@ -97,6 +112,18 @@ export function extractTableReferences(condition: Condition): Set<string> {
         }
         break;
       }
+      case 'subquery': {
+        // The subquery was validated against its own tables when built; only the
+        // IN / NOT IN column belongs to this scope
+        const subquery = cond as SubqueryCondition;
+        if (subquery.column) {
+          const table = extractTableFromColumn(subquery.column);
+          if (table) {
+            tables.add(table);
+          }
+        }
+        break;
+      }
       case 'helper': {
         // Helper conditions might have table references in params
         const helper = cond as HelperCondition;
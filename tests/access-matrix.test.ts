@@ -0,0 +1,231 @@
+import { describe, test, expect } from 'vitest';
+import {
+  accessMatrix,
+  accessMatrixToMarkdown,
+  accessMatrixToCSV,
+  describeCondition,
+  evaluate,
+  policies,
+  policy,
+  column,
+  from,
+  auth,
+  alwaysTrue,
+  exists,
+  not,
+  outer,
+  jsonPath,
+} from '../src/index';
+
+describe('describeCondition', () => {
+  test('summarizes conditions in plain language', () => {
+    expect(describeCondition(column('user_id').isOwner().toCondition())).toBe(
+      'user_id = current user'
+    );
+    expect(
+      describeCondition(
+        column('status')
+          .in(['draft', 'review'])
+          .and(column('user_id').isOwner().or(column('is_public').eq(true)))
+          .toCondition()
+      )
+    ).toBe(
+      "status in ('draft', 'review') and (user_id = current user or is_public = true)"
+    );
+    expect(
+      describeCondition(
+        column('project_id')
+          .in(
+            from('members')
+              .select('project_id')
+              .where(column('user_id').eq(auth.uid()))
+          )
+          .toCondition()
+      )
+    ).toBe('project_id in members.project_id where user_id = current user');
+    expect(
+      describeCondition(
+        exists(from('posts').where(column('posts.id').eq(outer('post_id'))))
+          .and(column('author_id').notIn(from('bans').select('user_id')))
+          .toCondition()
+      )
+    ).toBe(
+      'exists posts where posts.id = post_id and author_id not in bans.user_id'
+    );
+    expect(
+      describeCondition(
+        column('user_id')
+          .isOwner()
+          .and(
+            not(
+              column('status').eq('archived').or(column('is_hidden').eq(true))
+            )
+          )
+          .toCondition()
+      )
+    ).toBe(
+      "user_id = current user and not (status = 'archived' or is_hidden = true)"
+    );
+    expect(
+      describeCondition(
+        jsonPath('metadata', 'team', 'id')
+          .eq(auth.uid())
+          .and(column('permissions').hasAnyKey(['read', 'write']))
+          .and(column('labels').contains({ visible: true }))
+          .toCondition()
+      )
+    ).toBe(
+      `metadata.team.id = current user and permissions has any keys ('read', 'write') and labels contains {"visible":true}`
+    );
+    expect(
+      describeCondition(
+        column('editor_ids')
+          .containsValue(auth.uid())
+          .or(column('role').in(auth.jwtArray('app_metadata.roles')))
+          .toCondition()
+      )
+    ).toBe(
+      'editor_ids contains current user or role in JWT app_metadata.roles'
+    );
+    expect(
+      describeCondition(
+        column('created_at')
+          .within('7 days')
+          .and(column('valid_during').containsNow())
+          .toCondition()
+      )
+    ).toBe('created_at > now - 7 days and valid_during contains now');
+  });
+});
+
+describe('accessMatrix', () => {
+  test('classifies unconditional, conditional and denied access per role', () => {
+    const matrix = accessMatrix(
+      [
+        ...policies.owned({ tables: ['documents'] }),
+        ...policies.open({ tables: ['documents'], role: 'anon' }),
+      ],
+      { operations: ['SELECT', 'DELETE'] }
+    );
+
+    expect(matrix.tables).toEqual(['documents']);
+    expect(matrix.cells).toHaveLength(4);
+    const cell = (operation: string, role: string) =>
+      matrix.cells.find((c) => c.operation === operation && c.role === role)!;
+
+    expect(cell('SELECT', 'anon')).toMatchObject({
+      access: 'unconditional',
+      permissive: ['documents_select_public'],
+    });
+    expect(cell('SELECT', 'authenticated')).toMatchObject({
+      access: 'conditional',
+      summary: 'user_id = current user',
+      permissive: ['documents_select_owner'],
+    });
+    expect(cell('DELETE', 'anon')).toMatchObject({
+      access: 'denied',
+      permissive: [],
+    });
+  });
+
+  test('ANDs restrictive policies onto permissive grants', () => {
+    const matrix = accessMatrix(
+      [
+        ...policies.tenant({ tables: ['invoices'], ownerPolicies: false }),
+        policy('invoices_read_all')
+          .on('invoices')
+          .read()
+          .to('authenticated')
+          .when(alwaysTrue()),
+        policy('invoices_read_own')
+          .on('invoices')
+          .read()
+          .to('authenticated')
+          .when(column('user_id').isOwner().or(column('shared').eq(true))),
+      ],
+      { roles: ['authenticated'], operations: ['SELECT', 'INSERT'] }
+    );
+
+    expect(matrix.cells[0]).toMatchObject({
+      access: 'conditional',
+      summary: 'tenant_id = session app.current_tenant_id',
+      permissive: ['invoices_read_all', 'invoices_read_own'],
+      restrictive: ['invoices_tenant_isolation'],
+    });
+    // No permissive INSERT policy: restrictive ones can't grant on their own
+    expect(matrix.cells[1]).toMatchObject({ access: 'denied' });
+  });
+
+  test('combines alternative permissive policies with OR', () => {
+    const matrix = accessMatrix(
+      [
+        policy('own').on('notes').read().when(column('user_id').isOwner()),
+        policy('published')
+          .on('notes')
+          .read()
+          .when(column('published').eq(true)),
+      ],
+      { roles: ['anon'], operations: ['SELECT'] }
+    );
+    expect(matrix.cells[0].summary).toBe(
+      '(user_id = current user) or (published = true)'
+    );
+  });
+
+  test('ORs USING and WITH CHECK across permissive UPDATE policies separately', () => {
+    const editors = policy('editors_update')
+      .on('posts')
+      .update()
+      .when(column('is_editor').eq(true))
+      .withCheck(column('status').eq('draft'));
+    const owners = policy('owners_update')
+      .on('posts')
+      .update()
+      .when(column('user_id').isOwner());
+    const matrix = accessMatrix([editors, owners], {
+      roles: ['authenticated'],
+      operations: ['UPDATE'],
+    });
+    expect(matrix.cells[0]).toMatchObject({
+      access: 'conditional',
+      summary:
+        "((is_editor = true) or (user_id = current user)) and ((status = 'draft') or (user_id = current user))",
+      permissive: ['editors_update', 'owners_update'],
+    });
+
+    // An editor may hand a post to themselves: USING passes through editors_update and
+    // WITH CHECK through owners_update
+    const result = evaluate([editors, owners], {
+      table: 'posts',
+      operation: 'UPDATE',
+      auth: { uid: 'alice' },
+      row: { is_editor: true, status: 'published', user_id: 'bob' },
+      newRow: { is_editor: true, status: 'published', user_id: 'alice' },
+    });
+    expect(result.allowed).toBe(true);
+  });
+
+  test('renders Markdown and CSV', () => {
+    const matrix = accessMatrix(
+      policies.owned({ tables: ['docs'], operations: ['SELECT'] }),
+      {
+        operations: ['SELECT', 'UPDATE'],
+      }
+    );
+    expect(accessMatrixToMarkdown(matrix)).toBe(
+      [
+        '| Table | Operation | anon | authenticated |',
+        '| --- | --- | --- | --- |',
+        '| docs | SELECT | denied | if user_id = current user |',
+        '| docs | UPDATE | denied | denied |',
+      ].join('\n')
+    );
+    expect(accessMatrixToCSV(matrix).split('\n')).toEqual([
+      'table,operation,role,access,summary,permissive,restrictive',
+      'docs,SELECT,anon,denied,,,',
+      'docs,SELECT,authenticated,conditional,user_id = current user,docs_select_owner,',
+      'docs,UPDATE,anon,denied,,,',
+      'docs,UPDATE,authenticated,denied,,,',
+    ]);
+  });
+});
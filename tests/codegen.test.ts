@@ -0,0 +1,298 @@
+import { describe, test, expect } from 'vitest';
+import * as rowguard from '../src/index';
+import {
+  sqlToRowguard,
+  parsePolicies,
+  policies,
+  policy,
+  column,
+  session,
+  not,
+  literal,
+  PolicyBuilder,
+} from '../src/index';
+
+// Run generated code against the library and return the builders it exports
+function run(code: string): PolicyBuilder[] {
+  const body = code
+    .replace(/^import .*$/m, '')
+    .replace(/export const \w+ =/, 'return');
+  const names = Object.keys(rowguard);
+  const values = names.map((n) => (rowguard as Record<string, unknown>)[n]);
+  return new Function(...names, body)(...values);
+}
+
+const migration = (builders: PolicyBuilder[]) =>
+  builders.map((b) => b.toSQL() + ';').join('\n\n');
+
+describe('parsePolicies', () => {
+  test('reads CREATE POLICY statements and skips everything else', () => {
+    const defs = parsePolicies(`
+      -- RLS for documents
+      ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+      CREATE FUNCTION f() RETURNS void AS $$ SELECT 1; CREATE POLICY x ON y; $$ LANGUAGE sql;
+      CREATE POLICY "Owners can update" ON public.documents
+        AS RESTRICTIVE FOR UPDATE TO authenticated, "service role"
+        USING (user_id = auth.uid())
+        WITH CHECK (user_id = auth.uid());
+      create policy read_all on documents using (true)
+    `);
+    expect(defs).toHaveLength(2);
+    expect(defs[0]).toMatchObject({
+      name: 'Owners can update',
+      table: 'documents',
+      operation: 'UPDATE',
+      role: 'authenticated, service role',
+      type: 'RESTRICTIVE',
+    });
+    expect(defs[0].withCheck?.toSQL()).toBe('"user_id" = auth.uid()');
+    expect(defs[1]).toMatchObject({
+      name: 'read_all',
+      operation: 'ALL',
+      type: 'PERMISSIVE',
+    });
+    expect(defs[1].role).toBeUndefined();
+  });
+
+  test('reports statements it cannot parse', () => {
+    expect(() => parsePolicies('CREATE POLICY p ON t FOR EVERYTHING;')).toThrow(
+      'Cannot parse CREATE POLICY statement'
+    );
+  });
+});
+
+describe('sqlToRowguard', () => {
+  test('emits a policy builder for a single policy', () => {
+    const code = sqlToRowguard(
+      'CREATE POLICY user_documents ON documents FOR SELECT USING (user_id = auth.uid())'
+    );
+    expect(code).toBe(
+      [
+        "import { column, policy } from 'rowguard';",
+        '',
+        'export const rlsPolicies = [',
+        "  policy('user_documents')",
+        "    .on('documents')",
+        "    .for('SELECT')",
+        "    .allow(column('user_id').isOwner()),",
+        '];',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('recognizes owned and tenant templates', () => {
+    const sql = migration([
+      ...policies.tenant({
+        tables: ['invoices'],
+        source: session.get('app.org_id', 'uuid'),
+      }),
+      ...policies.owned({
+        tables: ['notes'],
+        operations: ['SELECT', 'DELETE'],
+      }),
+      ...policies.owned({
+        tables: ['todos'],
+        operations: ['SELECT', 'DELETE'],
+      }),
+    ]);
+    const code = sqlToRowguard(sql);
+    expect(code).toContain(
+      "...policies.tenant({ tables: ['invoices'], source: session.get('app.org_id', 'uuid') })"
+    );
+    expect(code).toContain(
+      "...policies.owned({ tables: ['notes', 'todos'], operations: ['SELECT', 'DELETE'] })"
+    );
+    expect(code).not.toContain('policy(');
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('recognizes shared, membership and open templates', () => {
+    const sql = migration([
+      ...policies.shared({ tables: ['posts'], publicColumn: 'published' }),
+      ...policies.membership({
+        tables: ['tasks'],
+        via: 'project_members',
+        key: 'project_id',
+        localColumn: 'project_id',
+      }),
+      ...policies.open({ tables: ['countries'] }),
+    ]);
+    const code = sqlToRowguard(sql);
+    expect(code).toContain(
+      "...policies.shared({ tables: ['posts'], publicColumn: 'published' })"
+    );
+    expect(code).toContain(
+      "...policies.membership({ tables: ['tasks'], via: 'project_members', key: 'project_id', localColumn: 'project_id' })"
+    );
+    expect(code).toContain("...policies.open({ tables: ['countries'] })");
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('emits individual policies when templates are disabled', () => {
+    const sql = migration([
+      ...policies.tenant({ tables: ['invoices'], ownerPolicies: false }),
+      policy('invoices_select_owner')
+        .on('invoices')
+        .read()
+        .to('anon')
+        .when(column('user_id').isOwner()),
+    ]);
+    const code = sqlToRowguard(sql, { templates: false });
+    expect(code).not.toContain('policies.');
+    expect(code).toContain(".to('anon')");
+    expect(code).toContain('.restrictive()');
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('round-trips custom conditions through the builder API', () => {
+    const sql = migration([
+      policy('docs_update')
+        .on('documents')
+        .update()
+        .when(
+          column('user_id')
+            .isOwner()
+            .or(
+              column('status')
+                .in(['draft', 'review'])
+                .and(column('deleted_at').isNull())
+            )
+        )
+        .withCheck(column('title').ilike('%report%')),
+    ]);
+    const code = sqlToRowguard(sql);
+    expect(code).toContain(".when(column('user_id').isOwner().or(");
+    expect(code).toContain(".withCheck(column('title').ilike('%report%'))");
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('emits not() for negated conditions', () => {
+    const sql = migration([
+      policy('docs_visible')
+        .on('documents')
+        .read()
+        .when(
+          not(column('status').eq('archived').or(column('is_hidden').eq(true)))
+        ),
+    ]);
+    const code = sqlToRowguard(sql);
+    expect(code).toContain(
+      ".allow(not(column('status').eq('archived').or(column('is_hidden').eq(true))))"
+    );
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('emits literal() for typed casts and bigint values', () => {
+    const sql = `CREATE POLICY "orders_read" ON "orders" FOR SELECT USING ((id = '1b4e28ba-2fa1-11d2-883f-0016d3cca427'::uuid) AND (status = 'shipped'::order_status));`;
+    const code = sqlToRowguard(sql, { templates: false });
+    expect(code).toContain(
+      `import { column, literal, policy } from 'rowguard';`
+    );
+    expect(code).toContain(
+      ".allow(column('id').eq(literal('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'uuid')).and(column('status').eq(literal('shipped', 'order_status'))))"
+    );
+    expect(migration(run(code))).toBe(
+      migration([
+        policy('orders_read')
+          .on('orders')
+          .for('SELECT')
+          .allow(
+            column('id')
+              .eq(literal('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'uuid'))
+              .and(column('status').eq(literal('shipped', 'order_status')))
+          ),
+      ])
+    );
+  });
+
+  test('emits containsValue(), overlaps() and auth.jwtArray()', () => {
+    const sql = migration([
+      policy('shared_docs')
+        .on('documents')
+        .read()
+        .when(
+          column('editor_ids')
+            .containsValue(rowguard.auth.uid())
+            .or(column('role').in(rowguard.auth.jwtArray('app_metadata.roles')))
+            .and(column('tags').overlaps(['public']))
+        ),
+    ]);
+    const code = sqlToRowguard(sql, { templates: false });
+    expect(code).toContain(
+      ".allow(column('editor_ids').containsValue(auth.uid()).or(column('role').in(auth.jwtArray('app_metadata.roles'))).and(column('tags').overlaps(['public'])))"
+    );
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('emits within(), containsNow() and now()', () => {
+    const sql = migration([
+      policy('current_offers')
+        .on('offers')
+        .read()
+        .when(
+          column('created_at')
+            .within('7 days')
+            .and(column('valid_during').containsNow())
+            .and(column('release_date').releasedBefore())
+        ),
+    ]);
+    const code = sqlToRowguard(sql, { templates: false });
+    expect(code).toContain(`import { column, now, policy } from 'rowguard';`);
+    expect(code).toContain(
+      ".allow(column('created_at').within('7 days').and(column('valid_during').containsNow()).and(column('release_date').lte(now())))"
+    );
+    expect(migration(run(code))).toBe(sql);
+  });
+
+  test('emits jsonPath() and JSONB column methods', () => {
+    const code = sqlToRowguard(
+      `CREATE POLICY team_docs ON documents FOR SELECT TO authenticated USING ` +
+        `((((metadata -> 'team'::text) ->> 'id'::text) = 'blue'::text) AND (permissions ? 'read'::text) ` +
+        `AND (labels @> '{"visible": true, "tags": ["a"]}'::jsonb) AND ((metadata -> 'level'::text) >= '2'::jsonb));`
+    );
+    expect(code).toContain(
+      ".allow(jsonPath('metadata', 'team', 'id').eq('blue')" +
+        ".and(column('permissions').hasKey('read'))" +
+        ".and(column('labels').contains({ visible: true, tags: ['a'] }))" +
+        ".and(jsonPath('metadata', 'level').gte(2)))"
+    );
+    expect(run(code)[0].toSQL()).toBe(
+      'CREATE POLICY "team_docs" ON "documents" FOR SELECT TO "authenticated" USING (' +
+        `("metadata" -> 'team' ->> 'id' = 'blue' AND "permissions" ? 'read' ` +
+        `AND "labels" @> '{"visible":true,"tags":["a"]}'::jsonb AND "metadata" -> 'level' >= '2'::jsonb))`
+    );
+  });
+
+  test('emits exists(), notExists() and notIn() with outer() references', () => {
+    const code = sqlToRowguard(
+      `CREATE POLICY comments_read ON comments FOR SELECT TO authenticated USING ` +
+        `((EXISTS ( SELECT 1 FROM posts p WHERE (p.id = comments.post_id))) AND (NOT (EXISTS ( SELECT 1 FROM bans WHERE (bans.user_id = comments.author_id)))) ` +
+        `AND (NOT (author_id IN ( SELECT muted.user_id FROM muted))));`
+    );
+    expect(code).toContain(
+      ".allow(exists(from('posts', 'p').where(column('p.id').eq(outer('comments.post_id'))))" +
+        ".and(notExists(from('bans').where(column('user_id').eq(outer('comments.author_id')))))" +
+        ".and(column('author_id').notIn(from('muted').select('user_id'))))"
+    );
+    expect(run(code)[0].toSQL()).toBe(
+      'CREATE POLICY "comments_read" ON "comments" FOR SELECT TO "authenticated" USING (' +
+        '(EXISTS (SELECT 1 FROM "posts" "p" WHERE "p"."id" = "comments"."post_id") ' +
+        'AND NOT EXISTS (SELECT 1 FROM "bans" WHERE "user_id" = "comments"."author_id") ' +
+        'AND "author_id" NOT IN (SELECT "user_id" FROM "muted")))'
+    );
+  });
+
+  test('keeps unsupported fragments as sqlCondition and notes renamed policies', () => {
+    const code = sqlToRowguard(
+      `CREATE POLICY "Archived are hidden" ON docs FOR SELECT USING (NOT is_archived);`,
+      { exportName: 'docsPolicies', importFrom: '@acme/rowguard' }
+    );
+    expect(code).toContain(
+      "import { policy, sqlCondition } from '@acme/rowguard';"
+    );
+    expect(code).toContain('export const docsPolicies = [');
+    expect(code).toContain('// Deployed as "Archived are hidden"');
+    expect(code).toContain(".allow(sqlCondition('NOT is_archived'))");
+  });
+});
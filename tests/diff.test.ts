@@ -0,0 +1,254 @@
+import { describe, test, expect } from 'vitest';
+import {
+  policy,
+  policies,
+  column,
+  from,
+  diffPolicies,
+  diffToSQL,
+  sqlCondition,
+  parsePolicies,
+  not,
+  ConditionChain,
+} from '../src/index';
+import type { PolicyDefinition } from '../src/index';
+
+function deployed(
+  overrides: Omit<Partial<PolicyDefinition>, 'using' | 'withCheck'> & {
+    using?: string;
+    withCheck?: string;
+  }
+): PolicyDefinition {
+  const { using, withCheck, ...rest } = overrides;
+  return {
+    name: 'docs_read',
+    table: 'documents',
+    operation: 'SELECT',
+    role: 'authenticated',
+    type: 'PERMISSIVE',
+    ...rest,
+    using: using ? sqlCondition(using).toCondition() : undefined,
+    withCheck: withCheck ? sqlCondition(withCheck).toCondition() : undefined,
+  };
+}
+
+const docsRead = () =>
+  policy('docs_read')
+    .on('documents')
+    .read()
+    .to('authenticated')
+    .when(column('user_id').isOwner());
+
+describe('diffPolicies', () => {
+  test('treats the Postgres-deparsed form of the same expression as unchanged', () => {
+    const diff = diffPolicies(
+      [docsRead()],
+      [deployed({ using: '(user_id = ( SELECT auth.uid() AS uid))' })]
+    );
+    expect(diff).toHaveLength(1);
+    expect(diff[0]).toMatchObject({ status: 'unchanged', changes: [] });
+  });
+
+  test('ignores literal casts, quoting and per-comparison parentheses', () => {
+    const desired = policy('docs_read')
+      .on('documents')
+      .read()
+      .to('authenticated')
+      .when(column('user_id').isOwner().or(column('status').neq('deleted')));
+    const diff = diffPolicies(
+      [desired],
+      [
+        deployed({
+          using:
+            "((user_id = ( SELECT auth.uid() AS uid)) OR (status <> 'deleted'::text))",
+        }),
+      ]
+    );
+    expect(diff[0].status).toBe('unchanged');
+  });
+
+  test('ignores the text casts Postgres adds to varchar columns', () => {
+    const desired = (condition: ConditionChain) =>
+      policy('p').on('t').read().to('authenticated').when(condition);
+    const actual = (using: string) =>
+      parsePolicies(
+        `CREATE POLICY p ON public.t AS PERMISSIVE FOR SELECT TO authenticated USING (${using});`
+      );
+    const archived = column('status').eq('archived');
+    expect(
+      diffPolicies(
+        [desired(archived)],
+        actual("((status)::text = 'archived'::text)")
+      )[0].status
+    ).toBe('unchanged');
+    expect(
+      diffPolicies(
+        [desired(archived.and(column('user_id').isOwner()))],
+        actual(
+          "(((status)::text = 'archived'::text) AND (user_id = ( SELECT auth.uid() AS uid)))"
+        )
+      )[0].status
+    ).toBe('unchanged');
+    expect(
+      diffPolicies(
+        [desired(not(archived))],
+        actual("(NOT ((status)::text = 'archived'::text))")
+      )[0].status
+    ).toBe('unchanged');
+    expect(
+      diffPolicies(
+        [desired(archived)],
+        actual("((status)::text = 'draft'::text)")
+      )[0].changes
+    ).toEqual(['using']);
+  });
+
+  test('matches IN lists and subqueries against their deparsed form', () => {
+    const desired = policy('docs_read')
+      .on('documents')
+      .read()
+      .to('authenticated')
+      .when(
+        column('status')
+          .in(['draft', 'published'])
+          .and(
+            column('project_id').in(
+              from('project_members')
+                .select('project_id')
+                .where(column('user_id').isOwner())
+            )
+          )
+      );
+    const diff = diffPolicies(
+      [desired],
+      [
+        deployed({
+          using:
+            "((status = ANY (ARRAY['draft'::text, 'published'::text])) AND (project_id IN ( SELECT project_members.project_id FROM project_members WHERE (project_members.user_id = ( SELECT auth.uid() AS uid)))))",
+        }),
+      ]
+    );
+    expect(diff[0].status).toBe('unchanged');
+  });
+
+  test('classifies added, removed and changed policies', () => {
+    const diff = diffPolicies(
+      [
+        docsRead(),
+        policy('docs_insert')
+          .on('documents')
+          .write()
+          .to('authenticated')
+          .withCheck(column('user_id').isOwner()),
+      ],
+      [
+        deployed({
+          role: 'anon',
+          using: '(user_id = ( SELECT auth.uid() AS uid))',
+        }),
+        deployed({ name: 'legacy', operation: 'ALL', using: 'true' }),
+      ]
+    );
+
+    expect(diff.map((e) => [e.name, e.status])).toEqual([
+      ['docs_read', 'changed'],
+      ['docs_insert', 'added'],
+      ['legacy', 'removed'],
+    ]);
+    expect(diff[0].changes).toEqual(['role']);
+  });
+
+  test('reports every changed field', () => {
+    const diff = diffPolicies(
+      [docsRead()],
+      [
+        deployed({
+          role: undefined,
+          type: 'RESTRICTIVE',
+          operation: 'ALL',
+          using: 'true',
+          withCheck: 'true',
+        }),
+      ]
+    );
+    expect(diff[0].changes).toEqual([
+      'role',
+      'type',
+      'operation',
+      'using',
+      'withCheck',
+    ]);
+  });
+
+  test('matches schema-qualified public tables and the implicit public role', () => {
+    const diff = diffPolicies(
+      [policy('open').on('documents').read().when(sqlCondition('true'))],
+      [
+        deployed({
+          name: 'open',
+          table: 'public.documents',
+          role: 'public',
+          using: 'true',
+        }),
+      ]
+    );
+    expect(diff[0].status).toBe('unchanged');
+  });
+});
+
+describe('diffToSQL', () => {
+  test('emits nothing for an unchanged policy set', () => {
+    const desired = policies.owned({
+      tables: ['documents'],
+      operations: ['SELECT'],
+    });
+    const actual = desired.map((b) => b.toDefinition());
+    expect(diffToSQL(diffPolicies(desired, actual))).toBe('');
+  });
+
+  test('uses ALTER POLICY when only role or expressions change', () => {
+    const sql = diffToSQL(
+      diffPolicies([docsRead()], [deployed({ role: 'anon', using: 'false' })])
+    );
+    expect(sql).toBe(
+      'ALTER POLICY "docs_read" ON "documents" TO "authenticated" USING ("user_id" = (SELECT auth.uid()));'
+    );
+  });
+
+  test('recreates the policy when the command or type changes', () => {
+    const sql = diffToSQL(
+      diffPolicies(
+        [docsRead()],
+        [deployed({ operation: 'ALL', using: 'true' })]
+      )
+    );
+    expect(sql.split('\n')).toEqual([
+      'DROP POLICY IF EXISTS "docs_read" ON "documents";',
+      'CREATE POLICY "docs_read" ON "documents" FOR SELECT TO "authenticated" USING ("user_id" = (SELECT auth.uid()));',
+    ]);
+  });
+
+  test('recreates the policy when a clause is removed', () => {
+    const sql = diffToSQL(
+      diffPolicies(
+        [docsRead()],
+        [deployed({ using: 'true', withCheck: 'true' })]
+      )
+    );
+    expect(sql).toContain('DROP POLICY IF EXISTS "docs_read"');
+    expect(sql).toContain('CREATE POLICY "docs_read"');
+  });
+
+  test('drops removed policies before creating new ones', () => {
+    const sql = diffToSQL(
+      diffPolicies(
+        [policy('fresh').on('documents').read().when(sqlCondition('true'))],
+        [deployed({ name: 'stale', using: 'true' })]
+      )
+    );
+    expect(sql.split('\n')).toEqual([
+      'DROP POLICY IF EXISTS "stale" ON "documents";',
+      'CREATE POLICY "fresh" ON "documents" FOR SELECT USING (true);',
+    ]);
+  });
+});
@@ -0,0 +1,543 @@
+import { describe, test, expect } from 'vitest';
+import {
+  evaluate,
+  policies,
+  policy,
+  column,
+  auth,
+  session,
+  from,
+  hasRole,
+  call,
+  sqlCondition,
+  sql,
+  exists,
+  notExists,
+  not,
+  outer,
+  jsonPath,
+  literal,
+  ConditionChain,
+} from '../src/index';
+
+describe('evaluate', () => {
+  const owned = policies.owned({ tables: ['documents'] });
+
+  test('allows owners and denies everyone else', () => {
+    const row = { id: 1, user_id: 'alice' };
+    const alice = evaluate(owned, {
+      table: 'documents',
+      operation: 'SELECT',
+      row,
+      auth: { uid: 'alice' },
+    });
+    expect(alice.allowed).toBe(true);
+    expect(alice.permissive).toEqual(['documents_select_owner']);
+
+    const bob = evaluate(owned, {
+      table: 'documents',
+      operation: 'SELECT',
+      row,
+      auth: { uid: 'bob' },
+    });
+    expect(bob.allowed).toBe(false);
+    expect(bob.permissive).toEqual([]);
+  });
+
+  test('denies by default when no policy applies to the role', () => {
+    const result = evaluate(owned, {
+      table: 'documents',
+      operation: 'SELECT',
+      row: { user_id: null },
+    });
+    expect(result.allowed).toBe(false);
+    expect(result.policies).toEqual([]);
+  });
+
+  test('checks the new row on INSERT and both rows on UPDATE', () => {
+    const base = { table: 'documents', auth: { uid: 'alice' } };
+    expect(
+      evaluate(owned, {
+        ...base,
+        operation: 'INSERT',
+        newRow: { user_id: 'bob' },
+      }).allowed
+    ).toBe(false);
+
+    const update = evaluate(owned, {
+      ...base,
+      operation: 'UPDATE',
+      row: { user_id: 'alice' },
+      newRow: { user_id: 'bob' },
+    });
+    expect(update.allowed).toBe(false);
+    expect(update.policies[0]).toMatchObject({
+      name: 'documents_update_owner',
+      using: true,
+      withCheck: false,
+      passed: false,
+    });
+  });
+
+  test('requires every restrictive policy to pass', () => {
+    const tenant = policies.tenant({ tables: ['invoices'] });
+    const context = {
+      table: 'invoices',
+      operation: 'SELECT' as const,
+      row: { tenant_id: 7, user_id: 'alice' },
+      auth: { uid: 'alice' },
+    };
+
+    const sameTenant = evaluate(tenant, {
+      ...context,
+      session: { 'app.current_tenant_id': '7' },
+    });
+    expect(sameTenant.allowed).toBe(true);
+    expect(sameTenant.restrictive).toEqual(['invoices_tenant_isolation']);
+    expect(sameTenant.permissive).toEqual(['invoices_select_owner']);
+
+    const otherTenant = evaluate(tenant, {
+      ...context,
+      session: { 'app.current_tenant_id': '8' },
+    });
+    expect(otherTenant.allowed).toBe(false);
+    expect(otherTenant.restrictive).toEqual([]);
+
+    // Unset session variable: NULL comparison fails closed
+    expect(evaluate(tenant, context).allowed).toBe(false);
+  });
+
+  test('evaluates IN subqueries against fixture tables', () => {
+    const members = policies.membership({
+      tables: ['tasks'],
+      via: 'project_members',
+      key: 'project_id',
+      localColumn: 'project_id',
+      operations: ['SELECT'],
+    });
+    const tables = {
+      project_members: [
+        { project_id: 1, user_id: 'alice' },
+        { project_id: 2, user_id: 'bob' },
+      ],
+    };
+    const check = (project_id: number) =>
+      evaluate(members, {
+        table: 'tasks',
+        operation: 'SELECT',
+        row: { id: 10, project_id },
+        auth: { uid: 'alice' },
+        tables,
+      }).allowed;
+
+    expect(check(1)).toBe(true);
+    expect(check(2)).toBe(false);
+  });
+
+  test('negates conditions with SQL three-valued logic', () => {
+    const p = policy('not_archived')
+      .on('documents')
+      .read()
+      .to('authenticated')
+      .when(not(column('status').eq('archived')));
+    const check = (status: string | null) =>
+      evaluate([p], {
+        table: 'documents',
+        operation: 'SELECT',
+        row: { id: 1, status },
+        auth: { uid: 'alice' },
+      }).allowed;
+
+    expect(check('draft')).toBe(true);
+    expect(check('archived')).toBe(false);
+    // NOT (NULL = 'archived') is still unknown
+    expect(check(null)).toBe(false);
+  });
+
+  test('evaluates EXISTS, NOT EXISTS and NOT IN subqueries', () => {
+    const tables = {
+      posts: [
+        { id: 1, is_published: true },
+        { id: 2, is_published: false },
+      ],
+      bans: [{ user_id: 'mallory' }],
+      blocked: [{ post_id: 3 }, { post_id: null }],
+    };
+    const published = policy('comments_read')
+      .on('comments')
+      .read()
+      .to('authenticated')
+      .when(
+        exists(
+          from('posts', 'p').where(
+            column('p.id')
+              .eq(outer('post_id'))
+              .and(column('p.is_published').eq(true))
+          )
+        ).and(
+          notExists(from('bans').where(column('bans.user_id').eq(auth.uid())))
+        )
+      );
+    const check = (post_id: number, uid = 'alice') =>
+      evaluate([published], {
+        table: 'comments',
+        operation: 'SELECT',
+        row: { id: 10, post_id },
+        auth: { uid },
+        tables,
+      }).allowed;
+
+    expect(check(1)).toBe(true);
+    expect(check(2)).toBe(false);
+    expect(check(1, 'mallory')).toBe(false);
+
+    // A NULL in the NOT IN list makes the result unknown, which denies the row
+    const notBlocked = policy('posts_read')
+      .on('posts')
+      .read()
+      .to('authenticated')
+      .when(column('id').notIn(from('blocked').select('post_id')));
+    expect(
+      evaluate([notBlocked], {
+        table: 'posts',
+        operation: 'SELECT',
+        row: { id: 1 },
+        auth: { uid: 'alice' },
+        tables,
+      }).allowed
+    ).toBe(false);
+    expect(
+      evaluate([notBlocked], {
+        table: 'posts',
+        operation: 'SELECT',
+        row: { id: 1 },
+        auth: { uid: 'alice' },
+        tables: { blocked: [{ post_id: 3 }] },
+      }).allowed
+    ).toBe(true);
+  });
+
+  test('evaluates literal() values and bigints by their type', () => {
+    const check = (condition: ConditionChain, row: Record<string, unknown>) =>
+      evaluate([policy('typed').on('orders').read().when(condition)], {
+        table: 'orders',
+        operation: 'SELECT',
+        row,
+      }).allowed;
+
+    const placedBefore = column('placed_at').lt(
+      literal('2024-01-01 00:00:00+00', 'timestamptz')
+    );
+    expect(check(placedBefore, { placed_at: '2023-12-31T23:00:00Z' })).toBe(
+      true
+    );
+    expect(
+      check(placedBefore, { placed_at: '2024-01-01T01:00:00+00:00' })
+    ).toBe(false);
+    expect(
+      check(
+        column('day').eq(literal(new Date('2024-06-01T00:00:00Z'), 'date')),
+        {
+          day: '2024-06-01',
+        }
+      )
+    ).toBe(true);
+    expect(
+      check(
+        column('id').eq(
+          literal('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'uuid')
+        ),
+        {
+          id: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+        }
+      )
+    ).toBe(true);
+    // Beyond Number precision: 2^53 + 1 and 2^53 differ
+    const total = column('total').eq(literal('9007199254740993', 'bigint'));
+    expect(check(total, { total: 9007199254740993n })).toBe(true);
+    expect(check(total, { total: 9007199254740992n })).toBe(false);
+    expect(check(column('total').gt(5n), { total: 6 })).toBe(true);
+    expect(check(column('total').in([5n, 7n]), { total: '7' })).toBe(true);
+  });
+
+  test('evaluates time windows, ranges and releasedBefore() against now', () => {
+    const check = (condition: ConditionChain, row: Record<string, unknown>) =>
+      evaluate([policy('timed').on('offers').read().when(condition)], {
+        table: 'offers',
+        operation: 'SELECT',
+        row,
+        now: new Date('2025-03-31T12:00:00Z'),
+      }).allowed;
+
+    const recent = column('created_at').within('7 days');
+    expect(check(recent, { created_at: '2025-03-25T00:00:00Z' })).toBe(true);
+    expect(check(recent, { created_at: '2025-03-24T11:00:00Z' })).toBe(false);
+    expect(check(recent, { created_at: null })).toBe(false);
+    // Months are calendar months, clamped like Postgres: 2025-03-31 minus 1 month is 2025-02-28
+    const lastMonth = column('created_at').within('1 mon 12:00:00');
+    expect(check(lastMonth, { created_at: '2025-02-28T01:00:00Z' })).toBe(true);
+    expect(check(lastMonth, { created_at: '2025-02-27T23:00:00Z' })).toBe(
+      false
+    );
+
+    const active = column('valid_during').containsNow();
+    expect(
+      check(active, {
+        valid_during: '["2025-03-01 00:00:00+00","2025-04-01 00:00:00+00")',
+      })
+    ).toBe(true);
+    expect(
+      check(active, {
+        valid_during: '["2025-03-31 12:00:00+00","2025-04-01 00:00:00+00")',
+      })
+    ).toBe(true);
+    expect(
+      check(active, {
+        valid_during: '("2025-03-31 12:00:00+00","2025-04-01 00:00:00+00")',
+      })
+    ).toBe(false);
+    expect(check(active, { valid_during: '["2025-04-01 00:00:00+00",)' })).toBe(
+      false
+    );
+    expect(check(active, { valid_during: '(,"2025-04-01 00:00:00+00"]' })).toBe(
+      true
+    );
+    expect(check(active, { valid_during: 'empty' })).toBe(false);
+
+    expect(check(column('price').between(10, 20), { price: 20 })).toBe(true);
+    expect(check(column('price').between(10, 20), { price: 21 })).toBe(false);
+    expect(
+      check(column('release_date').releasedBefore(), {
+        release_date: '2025-03-31',
+      })
+    ).toBe(true);
+    expect(
+      check(column('release_date').releasedBefore(), {
+        release_date: '2025-04-01',
+      })
+    ).toBe(false);
+  });
+
+  test('evaluates array membership, overlap and JWT array claims', () => {
+    const p = policy('shared')
+      .on('documents')
+      .read()
+      .when(
+        column('editor_ids')
+          .containsValue(auth.uid())
+          .or(column('role').in(auth.jwtArray('app_metadata.roles')))
+          .and(column('tags').overlaps(['public', 'team']))
+      );
+    const check = (
+      row: Record<string, unknown>,
+      jwt?: Record<string, unknown>
+    ) =>
+      evaluate([p], {
+        table: 'documents',
+        operation: 'SELECT',
+        row: { editor_ids: [], role: 'viewer', tags: ['team'], ...row },
+        auth: { uid: 'alice', jwt },
+      }).allowed;
+
+    expect(check({ editor_ids: ['bob', 'alice'] })).toBe(true);
+    expect(check({ editor_ids: ['bob'] })).toBe(false);
+    expect(check({ editor_ids: null })).toBe(false);
+    expect(check({}, { app_metadata: { roles: ['viewer'] } })).toBe(true);
+    // A missing claim is an empty array
+    expect(check({}, { app_metadata: {} })).toBe(false);
+    expect(check({ editor_ids: ['alice'], tags: ['private'] })).toBe(false);
+    expect(() => check({}, { app_metadata: { roles: 'viewer' } })).toThrow(
+      'JWT claim "app_metadata.roles" is not an array'
+    );
+  });
+
+  test('evaluates JSONB paths, keys and containment', () => {
+    const p = policy('team_docs')
+      .on('documents')
+      .read()
+      .to('authenticated')
+      .when(
+        jsonPath('metadata', 'team', 'id')
+          .eq(auth.uid())
+          .and(jsonPath('metadata', 'level').gte(2))
+          .and(column('permissions').hasAnyKey(['read', 'write']))
+          .and(column('labels').contains({ visible: true }))
+          .and(column('tags').containedBy(['news', 'sports']))
+      );
+    const check = (row: Record<string, unknown>) =>
+      evaluate([p], {
+        table: 'documents',
+        operation: 'SELECT',
+        row: {
+          metadata: { team: { id: 'alice' }, level: 3 },
+          permissions: { read: true },
+          labels: { visible: true, color: 'red' },
+          tags: ['news'],
+          ...row,
+        },
+        auth: { uid: 'alice' },
+      }).allowed;
+
+    expect(check({})).toBe(true);
+    expect(check({ metadata: { team: { id: 'bob' }, level: 3 } })).toBe(false);
+    // A missing key is NULL, which denies the row
+    expect(check({ metadata: { level: 3 } })).toBe(false);
+    expect(check({ metadata: { team: { id: 'alice' }, level: 1 } })).toBe(
+      false
+    );
+    expect(check({ permissions: { admin: true } })).toBe(false);
+    expect(check({ labels: { color: 'red' } })).toBe(false);
+    expect(check({ tags: ['news', 'politics'] })).toBe(false);
+
+    const jsonpath = policy('p')
+      .on('documents')
+      .read()
+      .when(column('metadata').jsonPathMatches('$.level > 2'));
+    expect(() =>
+      evaluate([jsonpath], {
+        table: 'documents',
+        operation: 'SELECT',
+        row: { metadata: {} },
+      })
+    ).toThrow('evaluate() does not support jsonpath conditions');
+  });
+
+  test('evaluates joins, JWT claims, patterns and custom functions', () => {
+    const p = [
+      policy('org_admins')
+        .on('projects')
+        .read()
+        .when(
+          column('org_id')
+            .in(
+              from('orgs', 'o')
+                .select('o.id')
+                .join(
+                  'org_admins',
+                  column('a.org_id').eq(sql('o.id')),
+                  'inner',
+                  'a'
+                )
+                .where(column('a.user_id').eq(auth.uid()))
+            )
+            .and(column('name').ilike('acme%'))
+            .and(column('plan').eq(auth.jwt('app_metadata.plan')))
+            .and(call('is_active', ['id']))
+        ),
+    ];
+    const result = evaluate(p, {
+      table: 'projects',
+      operation: 'SELECT',
+      row: { id: 3, org_id: 5, name: 'ACME Rockets', plan: 'pro' },
+      auth: { uid: 'alice', jwt: { app_metadata: { plan: 'pro' } } },
+      tables: {
+        orgs: [{ id: 5 }, { id: 6 }],
+        org_admins: [{ org_id: 5, user_id: 'alice' }],
+      },
+      functions: { is_active: (id) => id === 3 },
+    });
+    expect(result.allowed).toBe(true);
+  });
+
+  test('matches roles from the TO list and hasRole() fixtures', () => {
+    const admin = policy('admin_read')
+      .on('reports')
+      .read()
+      .to('authenticated')
+      .when(hasRole('admin'));
+    const context = {
+      table: 'reports',
+      operation: 'SELECT' as const,
+      row: { id: 1 },
+      auth: { uid: 'alice' },
+      tables: { user_roles: [{ user_id: 'alice', role: 'admin' }] },
+    };
+    expect(evaluate([admin], context).allowed).toBe(true);
+    expect(evaluate([admin], { ...context, dbRole: 'anon' }).allowed).toBe(
+      false
+    );
+    expect(
+      evaluate([admin], { ...context, auth: { uid: 'bob' } }).allowed
+    ).toBe(false);
+  });
+
+  test('casts session variables to their declared type', () => {
+    const p = policy('flag')
+      .on('t')
+      .read()
+      .when(column('visible').eq(session.get('app.show_all', 'boolean')));
+    const run = (value: string) =>
+      evaluate([p], {
+        table: 't',
+        operation: 'SELECT',
+        row: { visible: true },
+        session: { 'app.show_all': value },
+        dbRole: 'authenticated',
+      }).allowed;
+    expect(run('true')).toBe(true);
+    expect(run('false')).toBe(false);
+  });
+
+  test('throws for columns missing from the fixture rows', () => {
+    const live = policy('live')
+      .on('documents')
+      .read()
+      .when(column('deleted_at').isNull());
+    const check = (row: Record<string, unknown>) =>
+      evaluate([live], { table: 'documents', operation: 'SELECT', row })
+        .allowed;
+    expect(check({ id: 1, deleted_at: null })).toBe(true);
+    expect(() => check({ id: 1 })).toThrow(
+      'Column "deleted_at" is not in the "documents" row'
+    );
+
+    // Inside a subquery, unqualified names only see the subquery's own rows
+    const tables = { posts: [{ id: 1 }] };
+    const context = {
+      table: 'comments',
+      operation: 'SELECT' as const,
+      row: { id: 10, post_id: 1 },
+      tables,
+    };
+    const unqualified = policy('comments_read')
+      .on('comments')
+      .read()
+      .when(exists(from('posts').where(column('id').eq(sql('post_id')))));
+    expect(() => evaluate([unqualified], context)).toThrow(
+      'Column "post_id" is not in the "posts" row'
+    );
+    const correlated = policy('comments_read')
+      .on('comments')
+      .read()
+      .when(exists(from('posts').where(column('id').eq(outer('post_id')))));
+    expect(evaluate([correlated], context).allowed).toBe(true);
+
+    // A LEFT JOIN without a match supplies NULLs
+    const unclaimed = policy('posts_read')
+      .on('posts')
+      .read()
+      .when(
+        column('id').in(
+          from('posts', 'p')
+            .select('p.id')
+            .join('claims', column('c.post_id').eq(sql('p.id')), 'left', 'c')
+            .where(column('c.user_id').isNull())
+        )
+      );
+    expect(
+      evaluate([unclaimed], {
+        table: 'posts',
+        operation: 'SELECT',
+        row: { id: 1 },
+        tables: { posts: [{ id: 1 }], claims: [] },
+      }).allowed
+    ).toBe(true);
+  });
+
+  test('throws for raw SQL it cannot evaluate', () => {
+    const p = policy('raw').on('t').read().when(sqlCondition('is_visible(id)'));
+    expect(() =>
+      evaluate([p], { table: 't', operation: 'SELECT', row: { id: 1 } })
+    ).toThrow('evaluate() does not support raw conditions (is_visible(id))');
+  });
+});
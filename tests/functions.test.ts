@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'vitest';
+import { definerFunction, policy, column, from, sql } from '../src/index';
+
+const isProjectMember = definerFunction('is_project_member', {
+  args: { project_id: 'uuid' },
+  body: ({ project_id }) =>
+    from('public.project_members')
+      .select('user_id')
+      .where(
+        column('project_id').eq(project_id).and(column('user_id').isOwner())
+      ),
+});
+
+describe('definerFunction', () => {
+  test('emits a locked-down SECURITY DEFINER function', () => {
+    expect(isProjectMember.toSQL()).toBe(
+      [
+        'CREATE OR REPLACE FUNCTION "public"."is_project_member"("project_id" uuid)',
+        'RETURNS boolean',
+        'LANGUAGE sql',
+        'STABLE',
+        'SECURITY DEFINER',
+        "SET search_path = ''",
+        'AS $$',
+        '  SELECT EXISTS (SELECT "user_id" FROM "public"."project_members" WHERE ("project_id" = "is_project_member"."project_id" AND "user_id" = (SELECT auth.uid())))',
+        '$$;',
+        'REVOKE EXECUTE ON FUNCTION "public"."is_project_member"(uuid) FROM PUBLIC;',
+        'GRANT EXECUTE ON FUNCTION "public"."is_project_member"(uuid) TO "authenticated";',
+      ].join('\n')
+    );
+    expect(isProjectMember.dropSQL()).toBe(
+      'DROP FUNCTION IF EXISTS "public"."is_project_member"(uuid);'
+    );
+  });
+
+  test('call() references the function in policy conditions', () => {
+    const p = policy('members_read')
+      .on('project_members')
+      .read()
+      .when(isProjectMember.call('project_id'));
+    expect(p.toSQL()).toBe(
+      'CREATE POLICY "members_read" ON "project_members" FOR SELECT USING ("public"."is_project_member"("project_id"))'
+    );
+    expect(() => isProjectMember.call()).toThrow('takes 1 argument(s), got 0');
+    expect(() => isProjectMember.arg('user_id')).toThrow(
+      'no argument "user_id"'
+    );
+  });
+
+  test('supports raw bodies, schemas, volatility and privileges', () => {
+    const fn = definerFunction('is_admin', {
+      schema: 'private',
+      body: sql("(SELECT auth.jwt() ->> 'role') = 'admin'").toSQL(),
+      volatility: 'VOLATILE',
+      grantTo: ['authenticated', 'service_role'],
+      revokeFrom: ['PUBLIC', 'anon'],
+    });
+    const statements = fn.statements();
+    expect(statements[0]).toContain(
+      'CREATE OR REPLACE FUNCTION "private"."is_admin"()'
+    );
+    expect(statements[0]).toContain('\nVOLATILE\n');
+    expect(statements[0]).toContain(
+      "  SELECT (SELECT auth.jwt() ->> 'role') = 'admin'\n"
+    );
+    expect(statements.slice(1)).toEqual([
+      'REVOKE EXECUTE ON FUNCTION "private"."is_admin"() FROM PUBLIC, "anon";',
+      'GRANT EXECUTE ON FUNCTION "private"."is_admin"() TO "authenticated", "service_role";',
+    ]);
+    expect(fn.call().toSQL()).toBe('"private"."is_admin"()');
+    expect(() => definerFunction('private.is_admin', { body: 'true' })).toThrow(
+      'must be unqualified'
+    );
+  });
+
+  test('accepts plain type names and rejects anything else', () => {
+    const fn = definerFunction('in_range', {
+      args: {
+        ids: 'uuid[]',
+        amount: 'numeric(10,2)',
+        status: 'public.order_status',
+        at: 'timestamp with time zone',
+      },
+      body: 'true',
+    });
+    expect(fn.statements()[0]).toContain(
+      '"ids" uuid[], "amount" numeric(10,2), "status" public.order_status, "at" timestamp with time zone'
+    );
+    for (const type of [
+      'uuid) RETURNS boolean AS $$ SELECT true $$; DROP TABLE users; --',
+      'text; DROP TABLE users',
+      "text DEFAULT 'x'",
+      '',
+    ]) {
+      expect(() =>
+        definerFunction('f', { args: { id: type }, body: 'true' })
+      ).toThrow('Invalid type for argument "id" of "f"');
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import {
+  grant,
+  revoke,
+  grantsToSQL,
+  policy,
+  policiesToSQL,
+  applyPolicies,
+  column,
+} from '../src/index';
+
+describe('grants', () => {
+  test('table and column privileges', () => {
+    expect(
+      grant(['SELECT', 'INSERT']).on('documents').to('authenticated').toSQL()
+    ).toBe('GRANT SELECT, INSERT ON "documents" TO "authenticated";');
+    expect(
+      grant('SELECT', ['title', 'body']).on('documents').to('anon').toSQL()
+    ).toBe('GRANT SELECT ("title", "body") ON "documents" TO "anon";');
+    expect(
+      revoke(['SELECT', 'UPDATE'], ['secret'])
+        .on('public.documents')
+        .from('anon', 'authenticated')
+        .toSQL()
+    ).toBe(
+      'REVOKE SELECT ("secret"), UPDATE ("secret") ON "public"."documents" FROM "anon", "authenticated";'
+    );
+    expect(revoke('ALL').on('documents').from('public').toSQL()).toBe(
+      'REVOKE ALL ON "documents" FROM public;'
+    );
+  });
+
+  test('rejects invalid grants', () => {
+    expect(() => grant([])).toThrow('at least one privilege');
+    expect(() => grant('SELECT', [])).toThrow('cannot be empty');
+    expect(() => grant('DELETE', ['title'])).toThrow(
+      'DELETE cannot be granted on columns'
+    );
+    expect(() => grant('SELECT').on('documents').toSQL()).toThrow(
+      'role is required'
+    );
+    expect(() => grant('SELECT').to('anon').toSQL()).toThrow(
+      'table is required'
+    );
+    expect(() => revoke('SELECT').to('anon')).toThrow('.from()');
+    expect(() => grant('SELECT').from('anon')).toThrow('.to()');
+  });
+
+  test('grantsToSQL runs revokes before grants', () => {
+    expect(
+      grantsToSQL([
+        grant('SELECT', ['id', 'username']).on('profiles').to('anon'),
+        revoke('SELECT').on('profiles').from('anon'),
+      ])
+    ).toEqual([
+      'REVOKE SELECT ON "profiles" FROM "anon";',
+      'GRANT SELECT ("id", "username") ON "profiles" TO "anon";',
+    ]);
+  });
+
+  const docs = policy('docs_read')
+    .on('documents')
+    .read()
+    .when(column('user_id').isOwner());
+  const grants = [
+    grant('SELECT', ['title']).on('documents').to('authenticated'),
+    revoke('SELECT').on('documents').from('authenticated'),
+  ];
+
+  test('policiesToSQL emits privileges after enabling RLS', () => {
+    const sql = policiesToSQL([docs], { grants });
+    expect(sql).toContain(
+      '-- Privileges\nREVOKE SELECT ON "documents" FROM "authenticated";\n' +
+        'GRANT SELECT ("title") ON "documents" TO "authenticated";'
+    );
+    expect(sql.indexOf('-- Enable RLS')).toBeLessThan(
+      sql.indexOf('-- Privileges')
+    );
+    expect(sql.indexOf('-- Privileges')).toBeLessThan(
+      sql.indexOf('CREATE POLICY')
+    );
+    expect(policiesToSQL([docs])).not.toContain('-- Privileges');
+  });
+
+  test('applyPolicies runs privileges inside the transaction', async () => {
+    const queries: string[] = [];
+    const client = {
+      query: async (q: string) => {
+        queries.push(q);
+      },
+    };
+    await applyPolicies([docs], client, { grants });
+    const revokeAt = queries.indexOf(
+      'REVOKE SELECT ON "documents" FROM "authenticated";'
+    );
+    const grantAt = queries.indexOf(
+      'GRANT SELECT ("title") ON "documents" TO "authenticated";'
+    );
+    expect(queries.indexOf('BEGIN')).toBeLessThan(revokeAt);
+    expect(
+      queries.findIndex((q) => q.includes('ENABLE ROW LEVEL SECURITY'))
+    ).toBeLessThan(revokeAt);
+    expect(revokeAt).toBeLessThan(grantAt);
+    expect(grantAt).toBeLessThan(
+      queries.findIndex((q) => q.startsWith('CREATE POLICY'))
+    );
+    expect(queries.indexOf('COMMIT')).toBeGreaterThan(grantAt);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, test, expect } from 'vitest';
+import { auditIndexes, policies, policy, column, session } from '../src/index';
+
+function fakeClient(indexes: unknown[]) {
+  const calls: { sql: string; params?: unknown[] }[] = [];
+  return {
+    calls,
+    async query(sql: string, params?: unknown[]) {
+      calls.push({ sql, params });
+      return { rows: indexes };
+    },
+  };
+}
+
+const index = (
+  table: string,
+  name: string,
+  columns: (string | null)[],
+  extra: Record<string, unknown> = {}
+) => ({
+  table,
+  name,
+  columns,
+  method: 'btree',
+  primary: false,
+  unique: false,
+  partial: false,
+  ...extra,
+});
+
+describe('PolicyBuilder.indexColumns', () => {
+  test('lists the columns policies filter on, including subquery tables', () => {
+    const [p] = policies.membership({
+      tables: ['tasks'],
+      via: 'project_members',
+      key: 'project_id',
+      localColumn: 'project_id',
+      operations: ['SELECT'],
+    });
+    expect(p.indexColumns()).toEqual([
+      { table: 'tasks', column: 'project_id' },
+      { table: 'project_members', column: 'user_id' },
+      { table: 'project_members', column: 'project_id' },
+    ]);
+    expect(policy('incomplete').indexColumns()).toEqual([]);
+  });
+});
+
+describe('auditIndexes', () => {
+  test('classifies each policy column against existing indexes', async () => {
+    const client = fakeClient([
+      index(
+        'project_members',
+        'project_members_pkey',
+        ['project_id', 'user_id'],
+        {
+          primary: true,
+          unique: true,
+        }
+      ),
+      index('project_members', 'idx_project_members_project_id', [
+        'project_id',
+      ]),
+      index('tasks', 'idx_tasks_project_id', ['project_id']),
+      index('project_members', 'project_members_user_recent', ['user_id'], {
+        partial: true,
+      }),
+    ]);
+    const audit = await auditIndexes(
+      policies.membership({
+        tables: ['tasks'],
+        via: 'project_members',
+        key: 'project_id',
+        localColumn: 'project_id',
+      }),
+      client
+    );
+
+    expect(client.calls).toHaveLength(1);
+    expect(client.calls[0].sql).toContain('pg_index');
+    expect(client.calls[0].params).toEqual([
+      'public',
+      ['tasks', 'project_members'],
+    ]);
+    expect(audit.entries).toEqual([
+      {
+        table: 'tasks',
+        column: 'project_id',
+        indexName: 'idx_tasks_project_id',
+        status: 'indexed',
+      },
+      {
+        table: 'project_members',
+        column: 'user_id',
+        indexName: 'idx_project_members_user_id',
+        status: 'missing',
+        statement:
+          'CREATE INDEX IF NOT EXISTS "idx_project_members_user_id" ON "project_members" ("user_id");',
+      },
+      {
+        table: 'project_members',
+        column: 'project_id',
+        indexName: 'idx_project_members_project_id',
+        status: 'redundant',
+        coveredBy: 'project_members_pkey',
+      },
+    ]);
+    expect(audit.statements).toEqual([audit.entries[1].statement]);
+    expect(audit.indexes).toHaveLength(4);
+  });
+
+  test('treats composite and unique indexes with a matching leading column as covering', async () => {
+    const audit = await auditIndexes(
+      [
+        policy('docs_owner')
+          .on('documents')
+          .read()
+          .when(
+            column('user_id')
+              .isOwner()
+              .and(
+                column('tenant_id').eq(session.get('app.tenant_id', 'integer'))
+              )
+          ),
+      ],
+      fakeClient([
+        index('documents', 'documents_user_created', ['user_id', 'created_at']),
+        index('documents', 'documents_tags', ['tenant_id'], { method: 'gin' }),
+      ]),
+      { schema: 'app' }
+    );
+    expect(audit.entries.map((e) => [e.column, e.status, e.coveredBy])).toEqual(
+      [
+        ['user_id', 'covered', 'documents_user_created'],
+        ['tenant_id', 'missing', undefined],
+      ]
+    );
+  });
+});
@@ -35,6 +35,15 @@ import {
   auth,
   from,
   sql,
+  loadPolicies,
+  loadRelationships,
+  loadColumnTypes,
+  literal,
+  auditIndexes,
+  definerFunction,
+  exists,
+  outer,
+  jsonPath,
 } from '../src/index';
 import { createRowguard } from '../src/typed';
 
@@ -1861,6 +1870,87 @@ describe('RLS Integration Tests', () => {
     });
   });
 
+  describe('Time conditions', () => {
+    test('within(), containsNow() and between() use the server clock', async () => {
+      await adminClient.query(`
+        CREATE TABLE IF NOT EXISTS timed_offers (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL,
+          valid_during TSTZRANGE NOT NULL,
+          discount INTEGER NOT NULL
+        );
+        ALTER TABLE timed_offers ENABLE ROW LEVEL SECURITY;
+        GRANT SELECT ON timed_offers TO authenticated;
+        INSERT INTO timed_offers (title, created_at, valid_during, discount) VALUES
+          ('current', now() - interval '1 day', tstzrange(now() - interval '1 hour', now() + interval '1 hour'), 10),
+          ('old', now() - interval '30 days', tstzrange(now() - interval '1 hour', NULL), 10),
+          ('expired', now() - interval '1 day', tstzrange(now() - interval '2 hours', now() - interval '1 hour'), 10),
+          ('too generous', now() - interval '1 day', tstzrange(now() - interval '1 hour', NULL), 80);
+      `);
+
+      try {
+        const p = policy('timed_offers_read')
+          .on('timed_offers')
+          .read()
+          .to('authenticated')
+          .when(
+            column('created_at')
+              .within('7 days')
+              .and(column('valid_during').containsNow())
+              .and(column('discount').between(5, 50))
+          );
+        await adminClient.query(p.toSQL());
+        for (const statement of p.indexStatements()) {
+          await adminClient.query(statement);
+        }
+
+        const u1 = await pool.connect();
+        try {
+          await u1.query('SET ROLE authenticated;');
+          await setCurrentUser(u1, testData.users.user1);
+          const r = await u1.query('SELECT title FROM timed_offers ORDER BY title;');
+          expect(r.rows.map((x: { title: string }) => x.title)).toEqual(['current']);
+        } finally { u1.release(); }
+      } finally {
+        await adminClient.query('DROP TABLE IF EXISTS timed_offers CASCADE;');
+      }
+    });
+  });
+
+  describe('Typed literals', () => {
+    test('literal() compares uuid and timestamp columns without implicit casts', async () => {
+      const p = policy('docs_typed_literals')
+        .on('documents')
+        .read()
+        .when(
+          column('user_id')
+            .eq(literal(testData.users.user1, 'uuid'))
+            .and(column('created_at').lt(literal(new Date(Date.now() + 60_000), 'timestamp')))
+            .and(
+              column('tenant_id')
+                .neq(literal(9007199254740993n, 'bigint'))
+                .or(column('tenant_id').isNull())
+            )
+        );
+      await adminClient.query(p.toSQL());
+
+      const client = await pool.connect();
+      try {
+        await client.query('SET ROLE authenticated;');
+        const r = await client.query('SELECT user_id FROM documents;');
+        expect(r.rows.length).toBeGreaterThan(0);
+        expect(
+          r.rows.every(
+            (row: { user_id: string }) => row.user_id === testData.users.user1
+          )
+        ).toBe(true);
+      } finally {
+        client.release();
+      }
+    });
+  });
+
   describe('Session Variable Types', () => {
     test('session.get text type filters correctly', async () => {
       await adminClient.query(
@@ -2142,6 +2232,176 @@ describe('RLS Integration Tests', () => {
     });
   });
 
+  describe('policies.inherit() template', () => {
+    test('child rows follow access to their parent row', async () => {
+      await adminClient.query(
+        policy('projects_owner').on('projects').read().when(column('created_by').isOwner()).toSQL()
+      );
+      for (const p of policies.inherit({ tables: ['project_members'], parent: 'projects', foreignKey: 'project_id' })) {
+        await adminClient.query(p.toSQL());
+      }
+
+      const u1 = await pool.connect();
+      try {
+        await u1.query('SET ROLE authenticated;');
+        await setCurrentUser(u1, testData.users.user1);
+        const r = await u1.query('SELECT project_id, user_id FROM project_members;');
+        expect(r.rows).toEqual([
+          { project_id: testData.projects.user1Project, user_id: testData.users.user2 },
+        ]);
+      } finally { u1.release(); }
+    });
+  });
+
+  describe('EXISTS and NOT IN conditions', () => {
+    test('exists() with outer() and notIn() filter rows as Postgres evaluates them', async () => {
+      await adminClient.query(
+        policy('projects_all').on('projects').read().when(alwaysTrue()).toSQL()
+      );
+      await adminClient.query(
+        policy('pm_all').on('project_members').read().when(alwaysTrue()).toSQL()
+      );
+      await adminClient.query(
+        policy('projects_with_members')
+          .on('projects')
+          .read()
+          .restrictive()
+          .when(
+            exists(
+              from('project_members', 'pm').where(
+                column('pm.project_id').eq(outer('id')).and(column('pm.can_edit').eq(true))
+              )
+            )
+          )
+          .toSQL()
+      );
+      await adminClient.query(
+        policy('projects_not_created_by_me')
+          .on('projects')
+          .read()
+          .restrictive()
+          .when(
+            column('created_by').notIn(
+              from('project_members').select('user_id').where(column('user_id').eq(auth.uid()))
+            )
+          )
+          .toSQL()
+      );
+
+      const u2 = await pool.connect();
+      try {
+        await u2.query('SET ROLE authenticated;');
+        await setCurrentUser(u2, testData.users.user2);
+        const r = await u2.query('SELECT name FROM projects ORDER BY name;');
+        expect(r.rows.map((x: { name: string }) => x.name)).toEqual(['User1 Project']);
+      } finally { u2.release(); }
+
+      const u1 = await pool.connect();
+      try {
+        await u1.query('SET ROLE authenticated;');
+        await setCurrentUser(u1, testData.users.user1);
+        const r = await u1.query('SELECT name FROM projects ORDER BY name;');
+        expect(r.rows).toHaveLength(0);
+      } finally { u1.release(); }
+    });
+  });
+
+  describe('JSONB conditions', () => {
+    test('jsonPath(), key checks and jsonb containment filter rows', async () => {
+      await adminClient.query(`
+        CREATE TABLE IF NOT EXISTS team_docs (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          metadata JSONB NOT NULL DEFAULT '{}'
+        );
+        ALTER TABLE team_docs ENABLE ROW LEVEL SECURITY;
+        GRANT SELECT ON team_docs TO authenticated;
+      `);
+      await adminClient.query(
+        `INSERT INTO team_docs (title, metadata) VALUES
+          ('mine', jsonb_build_object('owner', $1::text, 'level', 3, 'flags', jsonb_build_object('visible', true))),
+          ('mine, low level', jsonb_build_object('owner', $1::text, 'level', 1, 'flags', jsonb_build_object('visible', true))),
+          ('mine, hidden', jsonb_build_object('owner', $1::text, 'level', 3, 'flags', '{}'::jsonb)),
+          ('other', jsonb_build_object('owner', $2::text, 'level', 3, 'flags', jsonb_build_object('visible', true)));`,
+        [testData.users.user1, testData.users.user2]
+      );
+
+      try {
+        await adminClient.query(
+          policy('team_docs_read')
+            .on('team_docs')
+            .read()
+            .to('authenticated')
+            .when(
+              jsonPath('metadata', 'owner')
+                .eq(auth.uid())
+                .and(jsonPath('metadata', 'level').gte(2))
+                .and(jsonPath('metadata', 'flags').hasKey('visible'))
+                .and(column('metadata').contains({ flags: { visible: true } }))
+            )
+            .toSQL()
+        );
+
+        const u1 = await pool.connect();
+        try {
+          await u1.query('SET ROLE authenticated;');
+          await setCurrentUser(u1, testData.users.user1);
+          const r = await u1.query('SELECT title FROM team_docs ORDER BY title;');
+          expect(r.rows.map((x: { title: string }) => x.title)).toEqual(['mine']);
+        } finally { u1.release(); }
+      } finally {
+        await adminClient.query('DROP TABLE IF EXISTS team_docs CASCADE;');
+      }
+    });
+  });
+
+  describe('Array conditions', () => {
+    test('containsValue() and overlaps() filter rows', async () => {
+      await adminClient.query(`
+        CREATE TABLE IF NOT EXISTS shared_notes (
+          id SERIAL PRIMARY KEY,
+          title TEXT NOT NULL,
+          editor_ids UUID[] NOT NULL DEFAULT '{}',
+          tags TEXT[] NOT NULL DEFAULT '{}'
+        );
+        ALTER TABLE shared_notes ENABLE ROW LEVEL SECURITY;
+        GRANT SELECT ON shared_notes TO authenticated;
+      `);
+      await adminClient.query(
+        `INSERT INTO shared_notes (title, editor_ids, tags) VALUES
+          ('shared', ARRAY[$1, $2]::uuid[], ARRAY['team']),
+          ('shared, private', ARRAY[$1]::uuid[], ARRAY['private']),
+          ('not shared', ARRAY[$2]::uuid[], ARRAY['team']);`,
+        [testData.users.user1, testData.users.user2]
+      );
+
+      try {
+        await adminClient.query(
+          policy('shared_notes_read')
+            .on('shared_notes')
+            .read()
+            .to('authenticated')
+            .when(
+              column('editor_ids')
+                .containsValue(auth.uid())
+                .and(column('tags').overlaps(['team', 'public']))
+            )
+            .toSQL()
+        );
+
+        const u1 = await pool.connect();
+        try {
+          await u1.query('SET ROLE authenticated;');
+          await setCurrentUser(u1, testData.users.user1);
+          const r = await u1.query('SELECT title FROM shared_notes ORDER BY title;');
+          expect(r.rows.map((x: { title: string }) => x.title)).toEqual(['shared']);
+        } finally { u1.release(); }
+      } finally {
+        await adminClient.query('DROP TABLE IF EXISTS shared_notes CASCADE;');
+      }
+    });
+  });
+
   describe('Policy Operation Aliases', () => {
     test('.read() alias works', async () => {
       const p = policy('docs_read_alias')
@@ -2553,6 +2813,179 @@ describe('RLS Integration Tests', () => {
     });
   });
 
+  describe('Introspection', () => {
+    test('loadPolicies reads deployed policies and RLS status', async () => {
+      const p = policy('introspect_docs')
+        .on('documents')
+        .read()
+        .to('authenticated')
+        .when(column('user_id').isOwner());
+      await adminClient.query(p.toSQL());
+
+      const { tables, policies: loaded, builders } = await loadPolicies(adminClient, {
+        tables: ['documents'],
+      });
+
+      expect(tables).toEqual([
+        { schema: 'public', table: 'documents', rlsEnabled: true, rlsForced: false },
+      ]);
+      expect(loaded).toHaveLength(1);
+      expect(loaded[0]).toMatchObject({
+        name: 'introspect_docs',
+        table: 'documents',
+        operation: 'SELECT',
+        role: 'authenticated',
+        type: 'PERMISSIVE',
+      });
+      expect(loaded[0].using?.toSQL()).toContain('auth.uid()');
+
+      // Re-deploying the loaded builder reproduces the same policy
+      await adminClient.query('DROP POLICY "introspect_docs" ON documents');
+      await adminClient.query(builders[0].toSQL());
+      const again = await loadPolicies(adminClient, { tables: ['documents'] });
+      expect(again.policies[0].using?.toSQL()).toBe(loaded[0].using?.toSQL());
+    });
+
+    test('loadRelationships reads foreign keys', async () => {
+      const relationships = await loadRelationships(adminClient);
+      expect(relationships).toContainEqual({
+        schema: 'public',
+        table: 'project_members',
+        foreignKeyName: 'project_members_project_id_fkey',
+        columns: ['project_id'],
+        referencedSchema: 'public',
+        referencedRelation: 'projects',
+        referencedColumns: ['id'],
+      });
+    });
+
+    test('loadColumnTypes casts typed API literals', async () => {
+      const columnTypes = await loadColumnTypes(adminClient);
+      expect(columnTypes).toContainEqual({
+        schema: 'public',
+        table: 'documents',
+        column: 'user_id',
+        type: 'uuid',
+      });
+      type DB = {
+        public: {
+          Tables: {
+            documents: {
+              Row: { user_id: string };
+              Insert: Record<string, unknown>;
+              Update: Record<string, unknown>;
+            };
+          };
+        };
+      };
+      const rg = createRowguard<DB>({ columnTypes });
+      const p = rg
+        .policy('typed_literal_docs')
+        .on('documents')
+        .read()
+        .when(rg.column('documents', 'user_id').eq(testData.users.user1));
+      expect(p.toSQL()).toContain(`'${testData.users.user1}'::uuid`);
+      await adminClient.query(p.toSQL());
+
+      const client = await pool.connect();
+      try {
+        await client.query('SET ROLE authenticated;');
+        const r = await client.query('SELECT user_id FROM documents;');
+        expect(r.rows.length).toBeGreaterThan(0);
+        expect(
+          r.rows.every(
+            (row: { user_id: string }) => row.user_id === testData.users.user1
+          )
+        ).toBe(true);
+      } finally {
+        client.release();
+      }
+    });
+  });
+
+  describe('Index audit', () => {
+    test('auditIndexes recognizes primary-key coverage and missing indexes', async () => {
+      const [p] = policies.membership({
+        tables: ['projects'],
+        via: 'project_members',
+        key: 'project_id',
+        localColumn: 'id',
+        operations: ['SELECT'],
+      });
+      const audit = await auditIndexes([p], adminClient);
+      const status = Object.fromEntries(
+        audit.entries.map((e) => [`${e.table}.${e.column}`, e.status])
+      );
+      // projects.id and project_members(project_id, user_id) are primary keys
+      expect(status['projects.id']).toBe('covered');
+      expect(status['project_members.project_id']).toBe('covered');
+      expect(status['project_members.user_id']).not.toBe('covered');
+      expect(audit.indexes.find((i) => i.name === 'projects_pkey')).toMatchObject({
+        columns: ['id'],
+        method: 'btree',
+        primary: true,
+      });
+    });
+  });
+
+  describe('Definer functions', () => {
+    test('a SECURITY DEFINER membership check avoids policy recursion', async () => {
+      const isMember = definerFunction('rowguard_is_project_member', {
+        args: { project_id: 'uuid' },
+        body: ({ project_id }) =>
+          from('public.project_members')
+            .select('user_id')
+            .where(column('project_id').eq(project_id).and(column('user_id').isOwner())),
+      });
+      await adminClient.query(isMember.toSQL());
+      try {
+        // Querying project_members from its own policy would recurse without the function
+        await adminClient.query(
+          policy('pm_same_project').on('project_members').read().to('authenticated')
+            .when(isMember.call('project_id')).toSQL()
+        );
+        const u1 = await pool.connect();
+        try {
+          await u1.query('SET ROLE authenticated;');
+          await setCurrentUser(u1, testData.users.user1);
+          const r = await u1.query('SELECT DISTINCT user_id FROM project_members;');
+          expect(r.rows.map((x: { user_id: string }) => x.user_id)).toContain(testData.users.user1);
+        } finally { u1.release(); }
+      } finally {
+        await adminClient.query('DROP POLICY IF EXISTS "pm_same_project" ON project_members');
+        await adminClient.query(isMember.dropSQL());
+      }
+    });
+  });
+
+  describe('Alter strategy', () => {
+    test('applyPolicies with strategy alter updates an existing policy in place', async () => {
+      const { applyPolicies } = await import('../src/apply');
+      const initial = policy('alter_docs').on('documents').read().to('authenticated')
+        .when(column('is_public').eq(true));
+      await applyPolicies([initial], adminClient, { includeIndexes: false });
+
+      const updated = policy('alter_docs').on('documents').read().to('authenticated')
+        .when(column('user_id').isOwner());
+      await applyPolicies([updated], adminClient, { includeIndexes: false, strategy: 'alter' });
+
+      const result = await adminClient.query(
+        `SELECT qual FROM pg_policies WHERE schemaname = 'public' AND policyname = 'alter_docs'`
+      );
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0].qual).toContain('auth.uid()');
+
+      // A command change cannot be altered, so the policy is recreated
+      const asAll = policy('alter_docs').on('documents').all().to('authenticated')
+        .when(column('user_id').isOwner());
+      await applyPolicies([asAll], adminClient, { includeIndexes: false, strategy: 'alter' });
+      const recreated = await adminClient.query(
+        `SELECT cmd FROM pg_policies WHERE schemaname = 'public' AND policyname = 'alter_docs'`
+      );
+      expect(recreated.rows[0].cmd).toBe('ALL');
+    });
+  });
+
   describe('Complex Scenarios', () => {
     // Scenario 1: RESTRICTIVE tenant isolation + PERMISSIVE ownership + PERMISSIVE public
     // Users see only rows in their tenant that are either theirs or public.
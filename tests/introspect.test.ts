@@ -0,0 +1,208 @@
+import { describe, test, expect } from 'vitest';
+import {
+  loadPolicies,
+  loadRelationships,
+  loadColumnTypes,
+  PolicyBuilder,
+} from '../src/index';
+
+function fakeClient(tables: unknown[], policies: unknown[]) {
+  const calls: { sql: string; params?: unknown[] }[] = [];
+  return {
+    calls,
+    async query(sql: string, params?: unknown[]) {
+      calls.push({ sql, params });
+      return { rows: sql.includes('pg_policies') ? policies : tables };
+    },
+  };
+}
+
+describe('loadPolicies', () => {
+  test('maps pg_policies rows to policy definitions', async () => {
+    const client = fakeClient(
+      [
+        {
+          schema: 'public',
+          table: 'documents',
+          rls_enabled: true,
+          rls_forced: false,
+        },
+      ],
+      [
+        {
+          schema: 'public',
+          table: 'documents',
+          name: 'Owners can read',
+          permissive: 'PERMISSIVE',
+          roles: ['authenticated'],
+          cmd: 'SELECT',
+          qual: '(user_id = ( SELECT auth.uid() AS uid))',
+          with_check: null,
+        },
+        {
+          schema: 'public',
+          table: 'documents',
+          name: 'tenant_isolation',
+          permissive: 'RESTRICTIVE',
+          roles: '{anon,authenticated}',
+          cmd: 'ALL',
+          qual: '(tenant_id = 1)',
+          with_check: '(tenant_id = 1)',
+        },
+      ]
+    );
+
+    const { tables, policies } = await loadPolicies(client);
+
+    expect(tables).toEqual([
+      {
+        schema: 'public',
+        table: 'documents',
+        rlsEnabled: true,
+        rlsForced: false,
+      },
+    ]);
+    expect(policies).toHaveLength(2);
+    expect(policies[0]).toMatchObject({
+      name: 'Owners can read',
+      table: 'documents',
+      operation: 'SELECT',
+      role: 'authenticated',
+      type: 'PERMISSIVE',
+    });
+    expect(policies[0].using?.toSQL()).toBe('"user_id" = (SELECT auth.uid())');
+    expect(policies[0].withCheck).toBeUndefined();
+    expect(policies[1]).toMatchObject({
+      role: 'anon, authenticated',
+      type: 'RESTRICTIVE',
+    });
+  });
+
+  test('passes schema and table filter as query parameters', async () => {
+    const client = fakeClient([], []);
+    await loadPolicies(client, { schema: 'billing', tables: ['invoices'] });
+    expect(client.calls.map((c) => c.params)).toEqual([
+      ['billing', ['invoices']],
+      ['billing', ['invoices']],
+    ]);
+
+    await loadPolicies(client);
+    expect(client.calls[2].params).toEqual(['public', null]);
+  });
+
+  test('qualifies tables outside the public schema', async () => {
+    const client = fakeClient(
+      [
+        {
+          schema: 'billing',
+          table: 'invoices',
+          rls_enabled: false,
+          rls_forced: false,
+        },
+      ],
+      [
+        {
+          schema: 'billing',
+          table: 'invoices',
+          name: 'p',
+          permissive: 'PERMISSIVE',
+          roles: ['public'],
+          cmd: 'DELETE',
+          qual: 'true',
+          with_check: null,
+        },
+      ]
+    );
+    const { tables, builders } = await loadPolicies(client, {
+      schema: 'billing',
+    });
+    expect(tables[0].table).toBe('billing.invoices');
+    expect(builders[0].toSQL()).toBe(
+      'CREATE POLICY "p" ON "billing"."invoices" FOR DELETE TO public USING (true)'
+    );
+  });
+
+  test('builders regenerate an equivalent policy', async () => {
+    const client = fakeClient(
+      [],
+      [
+        {
+          schema: 'public',
+          table: 'documents',
+          name: 'Enable read access for all users',
+          permissive: 'RESTRICTIVE',
+          roles: ['anon', 'authenticated'],
+          cmd: 'UPDATE',
+          qual: '(user_id = ( SELECT auth.uid() AS uid))',
+          with_check: '(is_public = false)',
+        },
+      ]
+    );
+    const { builders } = await loadPolicies(client);
+    expect(builders[0]).toBeInstanceOf(PolicyBuilder);
+    expect(builders[0].toSQL()).toBe(
+      'CREATE POLICY "Enable read access for all users" ON "documents" AS RESTRICTIVE FOR UPDATE ' +
+        'TO "anon", "authenticated" USING ("user_id" = (SELECT auth.uid())) WITH CHECK ("is_public" = FALSE)'
+    );
+  });
+});
+
+describe('loadRelationships', () => {
+  test('maps foreign key rows to relationships', async () => {
+    const client = fakeClient(
+      [
+        {
+          schema: 'public',
+          table: 'tasks',
+          foreign_key_name: 'tasks_project_fkey',
+          columns: '{project_id,org_id}',
+          referenced_schema: 'public',
+          referenced_relation: 'projects',
+          referenced_columns: ['id', 'org_id'],
+        },
+      ],
+      []
+    );
+    expect(await loadRelationships(client, { schema: 'app' })).toEqual([
+      {
+        schema: 'public',
+        table: 'tasks',
+        foreignKeyName: 'tasks_project_fkey',
+        columns: ['project_id', 'org_id'],
+        referencedSchema: 'public',
+        referencedRelation: 'projects',
+        referencedColumns: ['id', 'org_id'],
+      },
+    ]);
+    expect(client.calls[0].sql).toContain('pg_constraint');
+    expect(client.calls[0].params).toEqual(['app']);
+  });
+});
+
+describe('loadColumnTypes', () => {
+  test('maps attribute rows to column types', async () => {
+    const client = fakeClient(
+      [
+        { schema: 'public', table: 'orders', column: 'id', type: 'uuid' },
+        {
+          schema: 'public',
+          table: 'orders',
+          column: 'status',
+          type: 'public.order_status',
+        },
+      ],
+      []
+    );
+    expect(await loadColumnTypes(client)).toEqual([
+      { schema: 'public', table: 'orders', column: 'id', type: 'uuid' },
+      {
+        schema: 'public',
+        table: 'orders',
+        column: 'status',
+        type: 'public.order_status',
+      },
+    ]);
+    expect(client.calls[0].sql).toContain('pg_attribute');
+    expect(client.calls[0].params).toEqual(['public']);
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, test, expect } from 'vitest';
+import {
+  lintPolicies,
+  createPolicyGroup,
+  policyGroupToSQL,
+  policies,
+  policy,
+  column,
+  from,
+  auth,
+  alwaysTrue,
+  sql,
+  sqlCondition,
+  exists,
+  outer,
+  LintRule,
+} from '../src/index';
+
+const ruleIds = (issues: { ruleId: string }[]) => issues.map((i) => i.ruleId);
+
+describe('lintPolicies', () => {
+  test('reports nothing for the built-in templates', () => {
+    expect(lintPolicies(policies.owned({ tables: ['documents'] }))).toEqual([]);
+  });
+
+  test('flags auth calls in raw SQL that are not wrapped in SELECT', () => {
+    const issues = lintPolicies([
+      policy('a')
+        .on('docs')
+        .read()
+        .to('authenticated')
+        .when(sqlCondition('owner_id = auth.uid()')),
+      policy('b')
+        .on('docs')
+        .read()
+        .to('authenticated')
+        .when(column('owner_id').eq(sql('(SELECT auth.uid())'))),
+    ]);
+    expect(issues).toEqual([
+      {
+        ruleId: 'auth-initplan',
+        severity: 'warning',
+        table: 'docs',
+        policy: 'a',
+        message:
+          'auth.uid() in raw SQL is not wrapped in (SELECT ...) and is re-evaluated for every row',
+      },
+    ]);
+  });
+
+  test('flags risky policies', () => {
+    const issues = lintPolicies([
+      policy('edit')
+        .on('docs')
+        .update()
+        .to('authenticated')
+        .when(column('user_id').isOwner())
+        .withCheck(alwaysTrue()),
+      policy('anyone')
+        .on('docs')
+        .read()
+        .when(
+          sqlCondition(
+            "(SELECT auth.jwt()) -> 'user_metadata' ->> 'role' = 'admin'"
+          )
+        ),
+    ]);
+    expect(ruleIds(issues)).toEqual([
+      'always-true-write',
+      'missing-role',
+      'user-metadata',
+    ]);
+    expect(issues[0]).toMatchObject({ severity: 'error', policy: 'edit' });
+  });
+
+  test('flags UPDATE policies without WITH CHECK', () => {
+    const def = policy('edit')
+      .on('docs')
+      .update()
+      .to('authenticated')
+      .when(column('user_id').isOwner())
+      .toDefinition();
+    delete def.withCheck;
+    expect(ruleIds(lintPolicies([def]))).toEqual(['update-without-check']);
+  });
+
+  test('checks columns and tables against a schema', () => {
+    const issues = lintPolicies(
+      [
+        policy('members_read')
+          .on('tasks')
+          .read()
+          .to('authenticated')
+          .when(
+            column('project_id').in(
+              from('project_members', 'pm')
+                .select('project_id')
+                .where(column('pm.member_id').eq(auth.uid()))
+            )
+          ),
+      ],
+      {
+        tasks: ['id', 'project_id'],
+        project_members: ['project_id', 'user_id'],
+        audit_log: ['id'],
+      }
+    );
+    expect(issues.map((i) => [i.ruleId, i.message])).toEqual([
+      [
+        'subquery-table-without-policy',
+        '"project_members" needs a SELECT policy for subqueries to return rows',
+      ],
+      [
+        'unknown-column',
+        'Column "member_id" does not exist on "project_members"',
+      ],
+      [
+        'table-without-policies',
+        '"project_members" has no policies; with RLS enabled it returns no rows',
+      ],
+      [
+        'table-without-policies',
+        '"audit_log" has no policies; with RLS enabled it returns no rows',
+      ],
+    ]);
+  });
+
+  test('checks EXISTS subqueries and outer() columns against a schema', () => {
+    const issues = lintPolicies(
+      [
+        policy('comments_read')
+          .on('comments')
+          .read()
+          .to('authenticated')
+          .when(
+            exists(
+              from('posts', 'p').where(
+                column('p.id')
+                  .eq(outer('parent_id'))
+                  .and(column('p.visible').eq(true))
+              )
+            )
+          ),
+      ],
+      { comments: ['id', 'post_id'], posts: ['id', 'is_published'] }
+    );
+    expect(issues.map((i) => [i.ruleId, i.message])).toEqual([
+      [
+        'subquery-table-without-policy',
+        '"posts" needs a SELECT policy for subqueries to return rows',
+      ],
+      ['unknown-column', 'Column "parent_id" does not exist on "comments"'],
+      ['unknown-column', 'Column "visible" does not exist on "posts"'],
+      [
+        'table-without-policies',
+        '"posts" has no policies; with RLS enabled it returns no rows',
+      ],
+    ]);
+  });
+
+  test('applies severity overrides, suppressions and custom rules', () => {
+    const noDeletes: LintRule = {
+      id: 'no-deletes',
+      severity: 'error',
+      description: 'Deletes go through soft-delete',
+      check: ({ policies: entries }) =>
+        entries
+          .filter((p) => p.definition.operation === 'DELETE')
+          .map((p) => ({
+            table: p.definition.table,
+            policy: p.definition.name,
+            message: 'Use soft deletes',
+          })),
+    };
+    const input = [
+      policy('notes_delete')
+        .on('notes')
+        .delete()
+        .when(column('user_id').isOwner()),
+      policy('logs_delete')
+        .on('logs')
+        .delete()
+        .when(column('user_id').isOwner()),
+    ];
+    const issues = lintPolicies(input, undefined, {
+      rules: { 'missing-role': 'info' },
+      customRules: [noDeletes],
+      suppressions: [{ rule: 'no-deletes', table: 'logs' }],
+    });
+    expect(issues.map((i) => [i.ruleId, i.severity, i.table])).toEqual([
+      ['missing-role', 'info', 'notes'],
+      ['missing-role', 'info', 'logs'],
+      ['no-deletes', 'error', 'notes'],
+    ]);
+    expect(
+      lintPolicies(input, undefined, { rules: { 'missing-role': 'off' } })
+    ).toEqual([]);
+  });
+});
+
+describe('policyGroupToSQL warnings', () => {
+  test('flag restrictive-only tables and subquery tables without a policy', () => {
+    const group = createPolicyGroup('guarded', [
+      policy('org_guard')
+        .on('documents')
+        .read()
+        .restrictive()
+        .when(column('org_id').eq(1)),
+      policy('member_read')
+        .on('tasks')
+        .read()
+        .when(
+          column('project_id').in(
+            from('project_members')
+              .select('project_id')
+              .where(column('user_id').eq(auth.uid()))
+          )
+        ),
+    ]);
+    expect(policyGroupToSQL(group)).toContain(
+      [
+        '-- Warning: "documents" has a RESTRICTIVE policy but no PERMISSIVE policy in this group.',
+        '-- All rows will be invisible until a PERMISSIVE policy is also applied.',
+        '-- Note: "project_members" needs a SELECT policy for IN subqueries to return rows.',
+      ].join('\n')
+    );
+  });
+});
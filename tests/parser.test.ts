@@ -0,0 +1,321 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parseCondition,
+  column,
+  auth,
+  session,
+  from,
+  sql,
+  exists,
+  not,
+  outer,
+  literal,
+} from '../src/index';
+
+describe('parseCondition', () => {
+  test('parses deparsed ownership checks', () => {
+    const cond = parseCondition('(user_id = ( SELECT auth.uid() AS uid))');
+    expect(cond.toSQL()).toBe(column('user_id').isOwner().toSQL());
+  });
+
+  test('flips value-first comparisons', () => {
+    expect(parseCondition('auth.uid() = "user_id"').toSQL()).toBe(
+      '"user_id" = auth.uid()'
+    );
+    expect(parseCondition('10 < age').toSQL()).toBe(
+      column('age').gt(10).toSQL()
+    );
+  });
+
+  test('drops casts Postgres adds to literals', () => {
+    expect(
+      parseCondition(
+        "((status = 'active'::text) AND (is_public = true))"
+      ).toSQL()
+    ).toBe(
+      column('status').eq('active').and(column('is_public').eq(true)).toSQL()
+    );
+  });
+
+  test('keeps AND / OR grouping', () => {
+    const cond = parseCondition(
+      "((status = 'published'::text) OR ((user_id = ( SELECT auth.uid() AS uid)) AND (is_draft = true)))"
+    );
+    expect(cond.toSQL()).toBe(
+      column('status')
+        .eq('published')
+        .or(column('user_id').isOwner().and(column('is_draft').eq(true)))
+        .toSQL()
+    );
+  });
+
+  test('maps = ANY (ARRAY[...]) and IN lists to membership', () => {
+    const expected = column('status').in(['a', 'b']).toSQL();
+    expect(
+      parseCondition("(status = ANY (ARRAY['a'::text, 'b'::text]))").toSQL()
+    ).toBe(expected);
+    expect(parseCondition("status IN ('a', 'b')").toSQL()).toBe(expected);
+  });
+
+  test('parses null checks, patterns and array containment', () => {
+    expect(parseCondition('(deleted_at IS NULL)').toSQL()).toBe(
+      column('deleted_at').isNull().toSQL()
+    );
+    expect(parseCondition("(email ~~* '%@acme.com'::text)").toSQL()).toBe(
+      column('email').ilike('%@acme.com').toSQL()
+    );
+    expect(parseCondition("(tags @> ARRAY['x'::text])").toSQL()).toBe(
+      column('tags').contains(['x']).toSQL()
+    );
+  });
+
+  test('parses JWT claims and session variables', () => {
+    expect(
+      parseCondition(
+        "(org_id = ( SELECT ((auth.jwt() -> 'app_metadata'::text) ->> 'org_id'::text)))"
+      ).toSQL()
+    ).toBe(column('org_id').eq(auth.jwt('app_metadata.org_id')).toSQL());
+    expect(
+      parseCondition(
+        "(role = ( SELECT (auth.jwt() ->> 'user_role'::text)))"
+      ).toSQL()
+    ).toBe(column('role').eq(auth.jwt('user_role')).toSQL());
+    expect(
+      parseCondition(
+        "(tenant_id = (current_setting('app.tenant_id'::text, true))::integer)"
+      ).toSQL()
+    ).toBe(
+      column('tenant_id').eq(session.get('app.tenant_id', 'integer')).toSQL()
+    );
+  });
+
+  test('parses deparsed membership subqueries', () => {
+    const cond = parseCondition(
+      '(project_id IN ( SELECT project_members.project_id FROM project_members WHERE (project_members.user_id = ( SELECT auth.uid() AS uid))))'
+    );
+    expect(cond.toSQL()).toBe(
+      column('project_id')
+        .in(
+          from('project_members')
+            .select('project_id')
+            .where(column('user_id').isOwner())
+        )
+        .toSQL()
+    );
+  });
+
+  test('parses subqueries with joins', () => {
+    const cond = parseCondition(
+      'id IN (SELECT p.id FROM projects p JOIN members m ON m.project_id = p.id WHERE m.user_id = auth.uid())'
+    );
+    expect(cond.toSQL()).toBe(
+      column('id')
+        .in(
+          from('projects', 'p')
+            .select('p.id')
+            .join(
+              'members',
+              column('m.project_id').eq(sql('p.id')),
+              'inner',
+              'm'
+            )
+            .where(column('m.user_id').eq(sql('auth.uid()')))
+        )
+        .toSQL()
+    );
+  });
+
+  test('keeps unparseable fragments as raw SQL', () => {
+    const cond = parseCondition(
+      "((status = 'active'::text) AND (NOT is_archived))"
+    );
+    expect(cond.type).toBe('logical');
+    expect(cond.toSQL()).toBe(`("status" = 'active' AND NOT is_archived)`);
+
+    const whole = parseCondition('array_length(tags, 1) > 0');
+    expect(whole.toSQL()).toBe('array_length(tags, 1) > 0');
+  });
+
+  test('parses correlated references as outer()', () => {
+    const cond = parseCondition(
+      'project_id IN (SELECT id FROM projects WHERE projects.owner_id = documents.owner_id)'
+    );
+    expect(cond.toSQL()).toBe(
+      column('project_id')
+        .in(
+          from('projects')
+            .select('id')
+            .where(column('owner_id').eq(outer('documents.owner_id')))
+        )
+        .toSQL()
+    );
+
+    // The subquery's own column goes on the left
+    const flipped = parseCondition(
+      '(EXISTS ( SELECT 1 FROM posts p WHERE (comments.post_id = p.id)))'
+    );
+    expect(flipped.toSQL()).toBe(
+      'EXISTS (SELECT 1 FROM "posts" "p" WHERE "p"."id" = "comments"."post_id")'
+    );
+  });
+
+  test('parses EXISTS, NOT EXISTS and NOT IN subqueries', () => {
+    const cond = parseCondition(
+      '(EXISTS ( SELECT 1 FROM posts WHERE ((posts.id = comments.post_id) AND (posts.is_published = true))))'
+    );
+    expect(cond.type).toBe('subquery');
+    expect(cond.toSQL()).toBe(
+      exists(
+        from('posts').where(
+          column('id')
+            .eq(outer('comments.post_id'))
+            .and(column('is_published').eq(true))
+        )
+      ).toSQL()
+    );
+
+    expect(
+      parseCondition(
+        '(NOT (EXISTS ( SELECT 1 FROM bans b WHERE (b.user_id = profiles.id))))'
+      ).toSQL()
+    ).toBe(
+      'NOT EXISTS (SELECT 1 FROM "bans" "b" WHERE "b"."user_id" = "profiles"."id")'
+    );
+    expect(
+      parseCondition(
+        '(NOT (id IN ( SELECT blocked.project_id FROM blocked)))'
+      ).toSQL()
+    ).toBe('"id" NOT IN (SELECT "project_id" FROM "blocked")');
+    expect(
+      parseCondition('id NOT IN (SELECT project_id FROM blocked)').toSQL()
+    ).toBe('"id" NOT IN (SELECT "project_id" FROM "blocked")');
+  });
+
+  test('parses NOT as a negation of the next predicate', () => {
+    const cond = parseCondition(
+      "((NOT (status = ANY (ARRAY['archived'::text, 'deleted'::text]))) AND (NOT ((is_hidden = true) OR (user_id = ( SELECT auth.uid() AS uid)))))"
+    );
+    expect(cond.toSQL()).toBe(
+      not(column('status').in(['archived', 'deleted']))
+        .and(not(column('is_hidden').eq(true).or(column('user_id').isOwner())))
+        .toSQL()
+    );
+    expect(parseCondition("status NOT IN ('a', 'b')").toSQL()).toBe(
+      `NOT ("status" IN ('a', 'b'))`
+    );
+  });
+
+  test('keeps typed casts on literals as literal()', () => {
+    const condition = parseCondition(
+      "((id = '1b4e28ba-2fa1-11d2-883f-0016d3cca427'::uuid) AND (placed_at < '2024-01-01 00:00:00+00'::timestamp with time zone) " +
+        "AND (status = 'shipped'::billing.order_status) AND (title = 'x'::text))"
+    );
+    expect(condition.toSQL()).toBe(
+      column('id')
+        .eq(literal('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'uuid'))
+        .and(
+          column('placed_at').lt(
+            literal('2024-01-01 00:00:00+00', 'timestamptz')
+          )
+        )
+        .and(column('status').eq(literal('shipped', 'billing.order_status')))
+        .and(column('title').eq('x'))
+        .toSQL()
+    );
+    // Our own output quotes enum names
+    expect(parseCondition(`status = 'shipped'::"Status"`).toSQL()).toBe(
+      `"status" = 'shipped'::"Status"`
+    );
+  });
+
+  test('parses now(), intervals subtracted from it and range containment', () => {
+    expect(
+      parseCondition(
+        "((created_at > (now() - '7 days'::interval)) AND (valid_during @> now()) AND (release_date <= now()))"
+      ).toSQL()
+    ).toBe(
+      column('created_at')
+        .within('7 days')
+        .and(column('valid_during').containsNow())
+        .and(column('release_date').releasedBefore())
+        .toSQL()
+    );
+    expect(
+      parseCondition("created_at > now() - interval '1 mon'").toSQL()
+    ).toBe(column('created_at').within('1 mon').toSQL());
+    expect(parseCondition('expires_at > CURRENT_TIMESTAMP').toSQL()).toBe(
+      `"expires_at" > now()`
+    );
+    // Intervals that don't parse stay raw SQL
+    const custom = "created_at > (now() - '1 fortnight'::interval)";
+    expect(parseCondition(custom).toSQL()).toBe(custom);
+  });
+
+  test('parses = ANY on array columns and JWT claims, and && overlaps', () => {
+    expect(
+      parseCondition(
+        "((( SELECT auth.uid() AS uid) = ANY (editor_ids)) AND (tags && ARRAY['a'::text, 'b'::text]) " +
+          "AND (role = ANY (ARRAY( SELECT jsonb_array_elements_text(((auth.jwt() -> 'app_metadata'::text) -> 'roles'::text)) AS jsonb_array_elements_text))))"
+      ).toSQL()
+    ).toBe(
+      column('editor_ids')
+        .containsValue(auth.uid())
+        .and(column('tags').overlaps(['a', 'b']))
+        .and(column('role').in(auth.jwtArray('app_metadata.roles')))
+        .toSQL()
+    );
+    // user_metadata claims stay raw SQL
+    const unsafe =
+      "role = ANY (ARRAY( SELECT jsonb_array_elements_text(auth.jwt() -> 'user_metadata'::text -> 'roles'::text)))";
+    expect(parseCondition(unsafe).toSQL()).toBe(unsafe);
+  });
+
+  test('parses JSONB paths and operators, including deparsed paths', () => {
+    expect(
+      parseCondition(
+        "(((metadata -> 'team'::text) ->> 'id'::text) = ( SELECT (auth.uid())::text AS uid)) AND ((metadata -> 'level'::text) >= '2'::jsonb)"
+      ).toSQL()
+    ).toBe(
+      `("metadata" -> 'team' ->> 'id' = ( SELECT (auth.uid())::text AS uid) AND "metadata" -> 'level' >= '2'::jsonb)`
+    );
+    expect(
+      parseCondition(
+        "((metadata ->> 'status'::text) = ANY (ARRAY['a'::text, 'b'::text]))"
+      )
+    ).toMatchObject({
+      type: 'json',
+      column: 'metadata',
+      path: ['status'],
+      operator: 'in',
+      value: ['a', 'b'],
+    });
+    expect(
+      parseCondition('(metadata @> \'{"status": "active"}\'::jsonb)').toSQL()
+    ).toBe(column('metadata').contains({ status: 'active' }).toSQL());
+    expect(
+      parseCondition(
+        "(permissions ? 'admin'::text) AND (permissions ?| ARRAY['a'::text, 'b'::text]) AND (tags <@ ARRAY['x'::text]) AND (metadata @@ '$.level > 2'::jsonpath)"
+      ).toSQL()
+    ).toBe(
+      column('permissions')
+        .hasKey('admin')
+        .and(column('permissions').hasAnyKey(['a', 'b']))
+        .and(column('tags').containedBy(['x']))
+        .and(column('metadata').jsonPathMatches('$.level > 2'))
+        .toSQL()
+    );
+  });
+
+  test('falls back to raw SQL for references to an enclosing subquery', () => {
+    const text =
+      'id IN (SELECT project_id FROM members m WHERE EXISTS (SELECT 1 FROM bans WHERE bans.user_id = m.user_id))';
+    expect(parseCondition(text).toSQL()).toBe(text);
+  });
+
+  test('parses true and function calls', () => {
+    expect(parseCondition('true').toSQL()).toBe('true');
+    expect(parseCondition('is_project_member(id)').toSQL()).toBe(
+      '"is_project_member"("id")'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest';
+import { realtime, alwaysTrue, hasRole, evaluate } from '../src/index';
+
+describe('realtime', () => {
+  test('members() restricts wildcard channels to rows in a membership table', () => {
+    const ps = realtime.channel('room:*').members('room_members', 'room_id');
+    expect(ps.map((p) => p.toDefinition().name)).toEqual([
+      'room_select_members',
+      'room_insert_members',
+    ]);
+    expect(ps[0].toSQL()).toBe(
+      `CREATE POLICY "room_select_members" ON "realtime"."messages" FOR SELECT TO "authenticated" USING (` +
+        `("topic" LIKE 'room:%' AND "extension" IN ('broadcast', 'presence') ` +
+        `AND EXISTS (SELECT 1 FROM "room_members" WHERE ("user_id" = (SELECT auth.uid()) ` +
+        `AND "room_id"::text = substr("realtime"."messages"."topic", 6)))))`
+    );
+    expect(ps[1].toSQL()).toContain(
+      'FOR INSERT TO "authenticated" WITH CHECK ('
+    );
+    expect(ps[0].indexStatements()).toEqual([
+      'CREATE INDEX IF NOT EXISTS "idx_room_members_user_id" ON "room_members" ("user_id");',
+    ]);
+  });
+
+  test('evaluate() checks members() policies against the topic and extension', () => {
+    const ps = realtime.channel('room:*').members('room_members', 'room_id');
+    const join = (topic: string, extension = 'broadcast') =>
+      evaluate(ps, {
+        table: 'realtime.messages',
+        operation: 'SELECT',
+        row: { topic, extension },
+        auth: { uid: 'alice' },
+        tables: { room_members: [{ user_id: 'alice', room_id: '42' }] },
+      }).allowed;
+    expect(join('room:42')).toBe(true);
+    expect(join('room:42', 'postgres_changes')).toBe(false);
+    expect(join('room:7')).toBe(false);
+    expect(join('room:lobby')).toBe(false);
+    expect(join('lobby')).toBe(false);
+
+    const [lobby] = realtime.channel('lobby').members('lobby_members', 'topic');
+    const allowed = (uid: string) =>
+      evaluate([lobby], {
+        table: 'realtime.messages',
+        operation: 'SELECT',
+        row: { topic: 'lobby', extension: 'presence' },
+        auth: { uid },
+        tables: { lobby_members: [{ user_id: 'alice', topic: 'lobby' }] },
+      }).allowed;
+    expect(allowed('alice')).toBe(true);
+    expect(allowed('bob')).toBe(false);
+  });
+
+  test('members() on exact topics compares the whole topic', () => {
+    const [p] = realtime.channel('lobby').members('lobby_members', 'topic', {
+      operations: ['SELECT'],
+      extensions: ['presence'],
+      userColumn: 'member_id',
+    });
+    expect(p.toSQL().replace(/\s+/g, ' ')).toContain(
+      `USING (("topic" = 'lobby' AND "extension" IN ('presence') ` +
+        `AND "topic" IN ( SELECT "topic" FROM "lobby_members" WHERE "member_id" = (SELECT auth.uid()) )))`
+    );
+    expect(p.indexStatements()).toEqual([
+      'CREATE INDEX IF NOT EXISTS "idx_lobby_members_topic" ON "lobby_members" ("topic");',
+      'CREATE INDEX IF NOT EXISTS "idx_lobby_members_member_id" ON "lobby_members" ("member_id");',
+    ]);
+  });
+
+  test('allow() combines the topic match with a custom condition', () => {
+    const ps = realtime.channel('announcements').allow(alwaysTrue(), {
+      operations: ['SELECT'],
+      extensions: ['broadcast'],
+    });
+    expect(ps).toHaveLength(1);
+    expect(ps[0].toDefinition().name).toBe('announcements_select_access');
+    expect(ps[0].toSQL()).toContain(
+      `USING (("topic" = 'announcements' AND "extension" IN ('broadcast') AND true))`
+    );
+
+    const [send] = realtime
+      .channel('ops_*')
+      .allow(hasRole('operator'), { operations: ['INSERT'], role: 'staff' });
+    expect(send.toSQL()).toContain(`WITH CHECK (("topic" LIKE 'ops\\_%'`);
+  });
+
+  test('key() extracts the wildcard part of the topic', () => {
+    expect(realtime.channel('doc:*').key().toSQL()).toBe(
+      'substr("realtime"."messages"."topic", 5)'
+    );
+    expect(realtime.channel('doc:*').key('bigint').toSQL()).toBe(
+      'substr("realtime"."messages"."topic", 5)::bigint'
+    );
+    expect(() => realtime.channel('doc').key()).toThrow('no wildcard');
+    expect(() => realtime.channel('doc:*:chat')).toThrow('trailing *');
+    expect(realtime.topic().toSQL()).toBe('(SELECT realtime.topic())');
+  });
+});
@@ -14,6 +14,17 @@ import {
   from,
   sql,
   SQLExpression,
+  exists,
+  notExists,
+  not,
+  outer,
+  jsonPath,
+  literal,
+  now,
+  policiesToSQL,
+  applyPolicies,
+  storage,
+  realtime,
 } from '../src/index';
 import { sanitizePolicyName } from '../src/sql';
 import { createRowguard } from '../src/typed';
@@ -904,6 +915,324 @@ describe('RLS DSL SQL Generation Tests', () => {
     });
   });
 
+  describe('Negation', () => {
+    test('not() and .not() wrap a condition in NOT', () => {
+      const p = policy('visible_docs')
+        .on('documents')
+        .read()
+        .when(
+          not(column('status').in(['archived', 'deleted'])).and(
+            column('is_hidden').eq(true).or(column('is_draft').eq(true)).not()
+          )
+        );
+
+      expect(normalizeSQL(p.toSQL())).toBe(
+        `CREATE POLICY "visible_docs" ON "documents" FOR SELECT USING ((NOT ("status" IN ('archived', 'deleted')) AND NOT ("is_hidden" = TRUE OR "is_draft" = TRUE)))`
+      );
+      expect(p.toDefinition().using).toMatchObject({
+        type: 'logical',
+        operator: 'AND',
+        conditions: [
+          { type: 'logical', operator: 'NOT', conditions: [{ type: 'membership' }] },
+          { type: 'logical', operator: 'NOT', conditions: [{ type: 'logical', operator: 'OR' }] },
+        ],
+      });
+    });
+
+    test('negating a negation returns the original condition', () => {
+      const owner = column('user_id').isOwner();
+      expect(not(owner.not()).toCondition()).toBe(owner.toCondition());
+    });
+
+    test('negated columns are not indexed, subqueries under NOT still are', () => {
+      const p = policy('not_banned')
+        .on('documents')
+        .read()
+        .when(
+          column('tenant_id')
+            .eq(session.get('app.tenant_id', 'integer'))
+            .and(
+              not(
+                column('user_id')
+                  .isOwner()
+                  .and(column('reviewer_id').eq(auth.uid()))
+                  .or(
+                    exists(
+                      from('bans').where(
+                        column('bans.user_id').eq(auth.uid()).and(column('bans.document_id').eq(outer('id')))
+                      )
+                    )
+                  )
+              )
+            )
+        );
+
+      expect(p.indexStatements({ compositeIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_tenant_id" ON "documents" ("tenant_id");',
+        'CREATE INDEX IF NOT EXISTS "idx_bans_user_id" ON "bans" ("user_id");',
+        'CREATE INDEX IF NOT EXISTS "idx_bans_document_id" ON "bans" ("document_id");',
+      ]);
+      expect(
+        policy('no_tags')
+          .on('documents')
+          .read()
+          .when(not(column('tags').contains(['secret'])))
+          .indexStatements()
+      ).toEqual([]);
+    });
+
+    test('validates table references inside NOT', () => {
+      expect(() =>
+        from('projects').where(not(column('members.user_id').eq(auth.uid())))
+      ).toThrow(/Missing join\(s\) for table\(s\): members/);
+    });
+  });
+
+  describe('Array Conditions', () => {
+    test('containsValue() checks an array column with = ANY', () => {
+      const p = policy('shared_docs')
+        .on('documents')
+        .read()
+        .when(column('user_id').isOwner().or(column('editor_ids').containsValue(auth.uid())));
+      expect(normalizeSQL(p.toSQL())).toBe(
+        `CREATE POLICY "shared_docs" ON "documents" FOR SELECT USING (("user_id" = (SELECT auth.uid()) OR (SELECT auth.uid()) = ANY("editor_ids")))`
+      );
+      expect(column('levels').containsValue(3).toSQL()).toBe(`3 = ANY("levels")`);
+    });
+
+    test('overlaps() and containedBy() compare arrays', () => {
+      expect(column('tags').overlaps(['urgent', 'security']).toSQL()).toBe(
+        `"tags" && ARRAY['urgent', 'security']`
+      );
+      expect(column('tags').overlaps([]).toSQL()).toBe('FALSE');
+      expect(column('tags').containedBy(['a', 'b']).toSQL()).toBe(`"tags" <@ ARRAY['a', 'b']`);
+    });
+
+    test('in() accepts an array claim from the JWT', () => {
+      expect(column('role').in(auth.jwtArray('app_metadata.roles')).toSQL()).toBe(
+        `"role" = ANY(ARRAY(SELECT jsonb_array_elements_text(auth.jwt() -> 'app_metadata' -> 'roles')))`
+      );
+      expect(() => auth.jwtArray('user_metadata.roles')).toThrow('user_metadata');
+      expect(() => column('role').in(auth.uid())).toThrow('array-valued context value');
+    });
+
+    test('ginIndexes adds a GIN index for overlaps() but not containsValue()', () => {
+      const p = policy('tagged')
+        .on('documents')
+        .read()
+        .when(column('tags').overlaps(['public']).or(column('editor_ids').containsValue(auth.uid())));
+      expect(p.indexStatements()).toEqual([]);
+      expect(p.indexStatements({ ginIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_tags_gin" ON "documents" USING gin ("tags");',
+      ]);
+    });
+  });
+
+  describe('Time Conditions', () => {
+    test('between() is an inclusive range', () => {
+      expect(column('price').between(10, 20).toSQL()).toBe(`("price" >= 10 AND "price" <= 20)`);
+      expect(
+        column('published_at')
+          .between(new Date('2025-01-01T00:00:00.000Z'), now())
+          .toSQL()
+      ).toBe(`("published_at" >= '2025-01-01T00:00:00.000Z'::TIMESTAMP AND "published_at" <= now())`);
+    });
+
+    test('within() compares with now() minus an interval', () => {
+      const p = policy('recent_posts')
+        .on('posts')
+        .read()
+        .when(column('created_at').within('7 days'));
+      expect(p.toSQL()).toBe(
+        `CREATE POLICY "recent_posts" ON "posts" FOR SELECT USING ("created_at" > now() - interval '7 days')`
+      );
+      expect(column('created_at').within('1 year 2 mons 03:00:00').toSQL()).toBe(
+        `"created_at" > now() - interval '1 year 2 mons 03:00:00'`
+      );
+      expect(p.indexStatements()).toEqual([]);
+    });
+
+    test('within() rejects invalid intervals', () => {
+      expect(() => column('created_at').within('')).toThrow('Invalid interval');
+      expect(() => column('created_at').within('7 fortnights')).toThrow('Invalid interval');
+      expect(() => column('created_at').within("1 day'; DROP TABLE posts; --")).toThrow(
+        'Invalid interval'
+      );
+    });
+
+    test('containsNow() checks a range column, indexed with GiST when gistIndexes is set', () => {
+      const p = policy('active_offers')
+        .on('offers')
+        .read()
+        .when(column('valid_during').containsNow());
+      expect(p.toSQL()).toBe(
+        `CREATE POLICY "active_offers" ON "offers" FOR SELECT USING ("valid_during" @> now())`
+      );
+      expect(p.indexStatements()).toEqual([]);
+      expect(p.indexStatements({ ginIndexes: true })).toEqual([]);
+      expect(p.indexStatements({ gistIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_offers_valid_during_gist" ON "offers" USING gist ("valid_during");',
+      ]);
+    });
+  });
+
+  describe('JSONB Conditions', () => {
+    test('contains() renders objects as jsonb literals', () => {
+      expect(column('metadata').contains({ status: "it's live" }).toSQL()).toBe(
+        `"metadata" @> '{"status":"it''s live"}'::jsonb`
+      );
+      expect(column('tags').contains(['a']).toSQL()).toBe(`"tags" @> ARRAY['a']`);
+      expect(column('tags').containedBy(['a', 'b']).toSQL()).toBe(`"tags" <@ ARRAY['a', 'b']`);
+      expect(column('metadata').containedBy({ a: 1, b: [true, null] }).toSQL()).toBe(
+        `"metadata" <@ '{"a":1,"b":[true,null]}'::jsonb`
+      );
+    });
+
+    test('jsonPath() compares strings and context values as text, other values as jsonb', () => {
+      expect(jsonPath('metadata', 'team', 'id').eq('t1').toSQL()).toBe(
+        `"metadata" -> 'team' ->> 'id' = 't1'`
+      );
+      expect(jsonPath('metadata', 'owner').eq(auth.uid()).toSQL()).toBe(
+        `"metadata" ->> 'owner' = (SELECT auth.uid())::text`
+      );
+      expect(jsonPath('metadata', 'level').gte(3).toSQL()).toBe(`"metadata" -> 'level' >= '3'::jsonb`);
+      expect(jsonPath('metadata', 'public').eq(true).toSQL()).toBe(`"metadata" -> 'public' = 'true'::jsonb`);
+      expect(jsonPath('metadata', 'reviewers', 0).neq(sql('"author"')).toSQL()).toBe(
+        `"metadata" -> 'reviewers' ->> 0 != "author"`
+      );
+      expect(jsonPath('metadata', 'status').in(['draft', 'review']).toSQL()).toBe(
+        `"metadata" ->> 'status' IN ('draft', 'review')`
+      );
+      expect(jsonPath('metadata', 'archived_at').isNull().toSQL()).toBe(`"metadata" ->> 'archived_at' IS NULL`);
+      expect(jsonPath('metadata').eq('x').toSQL()).toBe(`("metadata" #>> '{}') = 'x'`);
+    });
+
+    test('key, containment and jsonpath operators', () => {
+      expect(column('permissions').hasKey('admin').toSQL()).toBe(`"permissions" ? 'admin'`);
+      expect(column('permissions').hasAnyKey(['admin', 'owner']).toSQL()).toBe(
+        `"permissions" ?| ARRAY['admin', 'owner']`
+      );
+      expect(jsonPath('settings', 'flags').hasAllKeys(['beta']).toSQL()).toBe(
+        `"settings" -> 'flags' ?& ARRAY['beta']`
+      );
+      expect(jsonPath('settings', 'features').contains(['beta']).toSQL()).toBe(
+        `"settings" -> 'features' @> '["beta"]'::jsonb`
+      );
+      expect(column('metadata').jsonPathExists('$.tags[*] ? (@ == "public")').toSQL()).toBe(
+        `"metadata" @? '$.tags[*] ? (@ == "public")'`
+      );
+      expect(column('metadata').jsonPathMatches('$.priority > 2').toSQL()).toBe(`"metadata" @@ '$.priority > 2'`);
+      expect(() => column('permissions').hasAnyKey([])).toThrow('hasAnyKey() needs at least one key');
+      expect(() => jsonPath('metadata', 1.5)).toThrow('Invalid JSON path step');
+    });
+
+    test('ginIndexes adds GIN indexes for operators on the column itself', () => {
+      const p = policy('team_docs')
+        .on('documents')
+        .read()
+        .when(
+          jsonPath('metadata', 'team', 'id')
+            .eq(session.get('app.team_id', 'text'))
+            .and(column('permissions').hasKey('read'))
+            .and(column('labels').contains({ visible: true }))
+        );
+      expect(p.indexStatements()).toEqual([]);
+      expect(p.indexStatements({ ginIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_permissions_gin" ON "documents" USING gin ("permissions");',
+        'CREATE INDEX IF NOT EXISTS "idx_documents_labels_gin" ON "documents" USING gin ("labels");',
+      ]);
+    });
+
+    test('validates table references in JSON paths', () => {
+      expect(() => from('projects').where(jsonPath('members.settings', 'role').eq('admin'))).toThrow(
+        /Missing join\(s\) for table\(s\): members/
+      );
+    });
+  });
+
+  describe('EXISTS and NOT IN Conditions', () => {
+    test('exists() with a correlated outer() reference', () => {
+      const p = policy('comments_read')
+        .on('comments')
+        .read()
+        .when(
+          exists(
+            from('posts').where(
+              column('posts.id')
+                .eq(outer('post_id'))
+                .and(column('posts.is_published').eq(true))
+            )
+          )
+        );
+
+      expect(normalizeSQL(p.toSQL())).toBe(
+        'CREATE POLICY "comments_read" ON "comments" FOR SELECT USING (EXISTS (SELECT 1 FROM "posts" WHERE ("posts"."id" = "comments"."post_id" AND "posts"."is_published" = TRUE)))'
+      );
+      expect(p.indexStatements()).toContain(
+        'CREATE INDEX IF NOT EXISTS "idx_posts_id" ON "posts" ("id");'
+      );
+    });
+
+    test('outer() resolves to the table of the policy being rendered', () => {
+      const cond = notExists(
+        from('blocks', 'b').where(
+          column('b.blocker_id').eq(outer('id')).and(column('b.blocked_id').isOwner())
+        )
+      );
+      const onProfiles = policy('profiles_read').on('profiles').read().when(cond);
+      const onTeams = policy('teams_read').on('app.teams').read().when(cond);
+
+      expect(onProfiles.toSQL()).toContain(
+        'USING (NOT EXISTS (SELECT 1 FROM "blocks" "b" WHERE ("b"."blocker_id" = "profiles"."id" AND "b"."blocked_id" = (SELECT auth.uid()))))'
+      );
+      expect(onTeams.toSQL()).toContain('"b"."blocker_id" = "app"."teams"."id"');
+      expect(outer('profiles.id').toSQL()).toBe('"profiles"."id"');
+      expect(() => cond.toSQL()).toThrow(
+        "outer('id') is only rendered inside a policy"
+      );
+    });
+
+    test('notIn() with a subquery', () => {
+      const p = policy('not_blocked')
+        .on('projects')
+        .read()
+        .when(
+          column('id').notIn(
+            from('blocked_projects')
+              .select('project_id')
+              .where(column('user_id').eq(auth.uid()))
+          )
+        );
+
+      expect(normalizeSQL(p.toSQL())).toBe(
+        'CREATE POLICY "not_blocked" ON "projects" FOR SELECT USING ("id" NOT IN (SELECT "project_id" FROM "blocked_projects" WHERE "user_id" = (SELECT auth.uid())))'
+      );
+      expect(p.toDefinition().using).toMatchObject({
+        type: 'subquery',
+        column: 'id',
+        operator: 'not in',
+      });
+    });
+
+    test('missing join error points to outer() for the policy table', () => {
+      expect(() =>
+        from('posts').where(column('comments.post_id').eq(sql('posts.id')))
+      ).toThrow(/or use outer\(\) to reference the policy's table/);
+      expect(() =>
+        from('posts').where(
+          column('posts.id').eq(outer('comments.post_id'))
+        )
+      ).not.toThrow();
+      expect(() =>
+        from('posts').where(
+          column('posts.id').notIn(from('bans').select('post_id')).and(
+            column('other.id').notIn(from('bans').select('post_id'))
+          )
+        )
+      ).toThrow(/Missing join\(s\) for table\(s\): other/);
+    });
+  });
+
   describe('Function Conditions', () => {
     test('Function call with string arguments', () => {
       const expected =
@@ -1016,15 +1345,15 @@ describe('RLS DSL SQL Generation Tests', () => {
       expect(normalizeSQL(p.toSQL())).toBe(normalizeSQL(expected));
     });
 
-    test('releasedBefore helper without date (uses current date)', () => {
+    test('releasedBefore helper without date uses server-side now()', () => {
       const p = policy('released_now_test')
         .on('items')
         .for('SELECT')
         .when(column('release_date').releasedBefore());
 
-      const sqlOut = p.toSQL();
-      expect(sqlOut).toContain('"release_date" <=');
-      expect(sqlOut).toContain('::TIMESTAMP');
+      expect(p.toSQL()).toBe(
+        'CREATE POLICY "released_now_test" ON "items" FOR SELECT USING ("release_date" <= now())'
+      );
     });
 
     test('isPublic helper with custom column', () => {
@@ -1087,6 +1416,57 @@ describe('RLS DSL SQL Generation Tests', () => {
 
       expect(normalizeSQL(p.toSQL())).toBe(normalizeSQL(expected));
     });
+
+    test('inherit template follows access to the parent row', () => {
+      const list = policies.inherit({ tables: ['comments', 'attachments'], parent: 'posts', foreignKey: 'post_id' });
+
+      expect(list).toHaveLength(8);
+      expect(list[0].toSQL()).toBe(
+        'CREATE POLICY "comments_select_inherit_posts" ON "comments" FOR SELECT TO "authenticated" ' +
+          'USING (EXISTS (SELECT 1 FROM "posts" "parent" WHERE "parent"."id" = "comments"."post_id"))'
+      );
+      expect(list[5].toSQL()).toContain(
+        'WITH CHECK (EXISTS (SELECT 1 FROM "posts" "parent" WHERE "parent"."id" = "attachments"."post_id"))'
+      );
+      // "posts"."id" is the primary key
+      expect(list[0].indexStatements()).toEqual([]);
+      expect(
+        policies
+          .inherit({ tables: ['comments'], parent: 'posts', foreignKey: 'post_slug', parentKey: 'slug' })[0]
+          .indexStatements()
+      ).toEqual(['CREATE INDEX IF NOT EXISTS "idx_posts_slug" ON "posts" ("slug");']);
+    });
+
+    test('inherit template with composite keys', () => {
+      const [p] = policies.inherit({
+        tables: ['app.files'],
+        parent: 'app.folders',
+        foreignKey: ['folder_id', 'tenant_id'],
+        parentKey: ['id', 'tenant_id'],
+        operations: ['SELECT'],
+      });
+      expect(p.toSQL()).toBe(
+        'CREATE POLICY "app_files_select_inherit_folders" ON "app"."files" FOR SELECT TO "authenticated" ' +
+          'USING (EXISTS (SELECT 1 FROM "app"."folders" "parent" WHERE ("parent"."id" = "app"."files"."folder_id" ' +
+          'AND "parent"."tenant_id" = "app"."files"."tenant_id")))'
+      );
+      expect(p.indexStatements()).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_app_folders_id" ON "app"."folders" ("id");',
+        'CREATE INDEX IF NOT EXISTS "idx_app_folders_tenant_id" ON "app"."folders" ("tenant_id");',
+      ]);
+    });
+
+    test('inherit template rejects a table inheriting from itself', () => {
+      expect(() =>
+        policies.inherit({ tables: ['app.folders'], parent: 'app.folders', foreignKey: 'parent_id' })
+      ).toThrow('infinite recursion');
+      expect(() =>
+        policies.inherit({ tables: ['files', 'folders'], parent: 'public.folders', foreignKey: 'parent_id' })
+      ).toThrow('Use definerFunction()');
+      expect(() =>
+        policies.inherit({ tables: ['comments'], parent: 'posts', foreignKey: ['post_id', 'tenant_id'] })
+      ).toThrow('foreignKey has 2 column(s) but parentKey has 1');
+    });
   });
 
   describe('Policy Description', () => {
@@ -1129,6 +1509,35 @@ describe('RLS DSL SQL Generation Tests', () => {
       expect(normalizeSQL(p.toSQL())).toBe(normalizeSQL(expected));
     });
 
+    test('literal() casts values to an explicit type', () => {
+      expect(
+        column('id').eq(literal('1b4e28ba-2fa1-11d2-883f-0016d3cca427', 'uuid')).toSQL()
+      ).toBe(`"id" = '1b4e28ba-2fa1-11d2-883f-0016d3cca427'::uuid`);
+      expect(
+        column('published_at').lt(literal(new Date('2024-06-01T12:00:00Z'), 'timestamptz')).toSQL()
+      ).toBe(`"published_at" < '2024-06-01T12:00:00.000Z'::timestamptz`);
+      expect(column('day').eq(literal(new Date('2024-06-01T12:00:00Z'), 'date')).toSQL()).toBe(
+        `"day" = '2024-06-01'::date`
+      );
+      expect(column('views').gt(literal(9007199254740993n, 'bigint')).toSQL()).toBe(
+        `"views" > '9007199254740993'::bigint`
+      );
+      expect(column('price').lte(literal('19.99', 'numeric')).toSQL()).toBe(`"price" <= '19.99'::numeric`);
+      expect(column('settings').eq(literal({ theme: "o'dark" }, 'jsonb')).toSQL()).toBe(
+        `"settings" = '{"theme":"o''dark"}'::jsonb`
+      );
+      expect(column('status').eq(literal('shipped', 'billing.order_status')).toSQL()).toBe(
+        `"status" = 'shipped'::"billing"."order_status"`
+      );
+      expect(column('owner_id').eq(literal(null, 'uuid')).toSQL()).toBe(`"owner_id" = NULL::uuid`);
+      expect(() => literal('x', 'uuid; DROP TABLE users')).toThrow('Invalid type for a literal');
+      expect(() => literal({ a: 1 }, 'uuid')).toThrow('json and jsonb');
+    });
+
+    test('bigint values render exactly', () => {
+      expect(column('views').gt(9007199254740993n).toSQL()).toBe(`"views" > 9007199254740993`);
+      expect(column('id').in([1n, 9007199254740993n]).toSQL()).toBe(`"id" IN (1, 9007199254740993)`);
+    });
   });
 
   describe('Context Values', () => {
@@ -1726,6 +2135,114 @@ describe('RLS DSL SQL Generation Tests', () => {
       expect(sql).toContain('FROM "project_members"');
       expect(sql).toContain('WHERE "user_id"');
     });
+
+    test('ginIndexes adds GIN indexes for contains() columns', () => {
+      const p = policy('tagged')
+        .on('items')
+        .read()
+        .when(column('tags').contains(['urgent']));
+      expect(p.indexStatements()).toEqual([]);
+      expect(p.indexStatements({ ginIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_items_tags_gin" ON "items" USING gin ("tags");',
+      ]);
+    });
+
+    test('compositeIndexes indexes ANDed equality columns together', () => {
+      const p = policy('tenant_owner')
+        .on('documents')
+        .read()
+        .when(
+          column('tenant_id')
+            .eq(session.get('app.tenant_id', 'integer'))
+            .and(column('user_id').isOwner())
+        );
+      expect(p.indexStatements()).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_tenant_id" ON "documents" ("tenant_id");',
+        'CREATE INDEX IF NOT EXISTS "idx_documents_user_id" ON "documents" ("user_id");',
+      ]);
+      expect(p.indexStatements({ compositeIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_tenant_id_user_id" ON "documents" ("tenant_id", "user_id");',
+      ]);
+    });
+
+    test('partialIndexes adds IS NULL filters as the index predicate', () => {
+      const p = policy('live_docs')
+        .on('documents')
+        .read()
+        .when(
+          column('user_id')
+            .isOwner()
+            .and(column('deleted_at').isNull())
+            .or(column('is_public').eq(true))
+        );
+      expect(p.indexStatements({ partialIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_user_id_where_deleted_at_is_null" ON "documents" ("user_id") WHERE "deleted_at" IS NULL;',
+      ]);
+    });
+
+    test('long partial index names are shortened with a hash', () => {
+      const table = 'customer_subscription_invoice_line_items';
+      const names = [column('deleted_at').isNull(), column('deleted_at').isNotNull()].map(
+        (filter) => {
+          const p = policy('owner')
+            .on(table)
+            .read()
+            .when(column('user_id').isOwner().and(filter));
+          const [stmt] = p.indexStatements({ partialIndexes: true });
+          return stmt.match(/EXISTS "([^"]+)"/)![1];
+        }
+      );
+      expect(names).toEqual([
+        'idx_customer_subscription_invoice_line_items_user_id_whe_785aea',
+        'idx_customer_subscription_invoice_line_items_user_id_whe_6f628e',
+      ]);
+      names.forEach((name) => expect(name).toHaveLength(63));
+    });
+
+    test('columns used outside the AND group keep their single-column index', () => {
+      const p = policy('mixed')
+        .on('documents')
+        .read()
+        .when(
+          column('tenant_id')
+            .eq(session.get('app.tenant_id', 'integer'))
+            .and(column('user_id').isOwner())
+            .or(column('user_id').isOwner())
+        );
+      expect(p.indexStatements({ compositeIndexes: true })).toEqual([
+        'CREATE INDEX IF NOT EXISTS "idx_documents_user_id" ON "documents" ("user_id");',
+        'CREATE INDEX IF NOT EXISTS "idx_documents_tenant_id_user_id" ON "documents" ("tenant_id", "user_id");',
+      ]);
+    });
+
+    test('supports CONCURRENTLY and custom index names', () => {
+      const p = policy('owner')
+        .on('documents')
+        .read()
+        .when(column('user_id').isOwner());
+      expect(
+        p.toSQL({
+          includeIndexes: true,
+          concurrentIndexes: true,
+          indexName: (index) => `${index.table}_${index.columns.join('_')}_rls`,
+        })
+      ).toContain(
+        'CREATE INDEX CONCURRENTLY IF NOT EXISTS "documents_user_id_rls" ON "documents" ("user_id");'
+      );
+    });
+
+    test('applyPolicies creates concurrent indexes after committing', async () => {
+      const queries: string[] = [];
+      const client = { query: async (q: string) => { queries.push(q); } };
+      await applyPolicies(
+        [policy('owner').on('documents').read().when(column('user_id').isOwner())],
+        client,
+        { concurrentIndexes: true }
+      );
+      expect(queries.indexOf('COMMIT')).toBeLessThan(
+        queries.findIndex((q) => q.startsWith('CREATE INDEX CONCURRENTLY'))
+      );
+    });
   });
 
   describe('User-Focused API', () => {
@@ -2186,4 +2703,87 @@ describe('RLS DSL SQL Generation Tests', () => {
       expect(result).toMatch(/_[a-f0-9]+$/);
     });
   });
+
+  describe('policiesToSQL strategy', () => {
+    const docsRead = () =>
+      policy('docs_read')
+        .on('documents')
+        .read()
+        .to('authenticated')
+        .when(column('user_id').isOwner());
+
+    test('recreate strategy (default) drops then creates', () => {
+      const sql = policiesToSQL([docsRead()], { includeIndexes: false });
+      expect(sql).toContain('-- Drop existing policies');
+      expect(sql).toContain('DROP POLICY IF EXISTS "docs_read" ON "documents";');
+      expect(sql).toContain('-- Create policies');
+      expect(sql).not.toContain('ALTER POLICY');
+    });
+
+    test('alter strategy emits ALTER POLICY guarded by a catalog check', () => {
+      const sql = policiesToSQL([docsRead()], {
+        includeIndexes: false,
+        strategy: 'alter',
+      });
+      expect(sql).not.toContain('-- Drop existing policies');
+      expect(sql).toContain('-- Create or alter policies');
+      expect(normalizeSQL(sql)).toContain(
+        `IF EXISTS (SELECT 1 FROM pg_policy WHERE polrelid = '"documents"'::regclass AND polname = 'docs_read' AND polcmd = 'r' AND polpermissive AND polwithcheck IS NULL) THEN ` +
+        `ALTER POLICY "docs_read" ON "documents" TO "authenticated" USING ("user_id" = (SELECT auth.uid())); ` +
+        `ELSE DROP POLICY IF EXISTS "docs_read" ON "documents"; ` +
+        `CREATE POLICY "docs_read" ON "documents" FOR SELECT TO "authenticated" USING ("user_id" = (SELECT auth.uid())); END IF;`
+      );
+    });
+
+    test('alter strategy matches restrictive policies by type', () => {
+      const sql = policiesToSQL(
+        [
+          policy('iso')
+            .on('documents')
+            .all()
+            .restrictive()
+            .allow(column('tenant_id').belongsToTenant()),
+        ],
+        { includeIndexes: false, strategy: 'alter' }
+      );
+      expect(sql).toContain("polcmd = '*' AND NOT polpermissive");
+      expect(sql).not.toContain('IS NULL');
+    });
+
+    test('leaves RLS on Supabase-owned storage and realtime tables alone', async () => {
+      const builders = [
+        docsRead(),
+        ...storage.bucket('avatars').ownerFolder(),
+        ...realtime.channel('room:*').members('room_members', 'room_id'),
+      ];
+      const sql = policiesToSQL(builders, { includeIndexes: false });
+      expect(sql).toContain('ALTER TABLE "documents" ENABLE ROW LEVEL SECURITY;');
+      expect(sql).not.toContain('ALTER TABLE "storage"."objects"');
+      expect(sql).not.toContain('ALTER TABLE "realtime"."messages"');
+      expect(sql).toContain('CREATE POLICY "avatars_select_owner_folder" ON "storage"."objects"');
+      expect(policiesToSQL(storage.bucket('avatars').ownerFolder())).not.toContain('-- Enable RLS');
+
+      const queries: string[] = [];
+      const client = { query: async (q: string) => { queries.push(q); } };
+      await applyPolicies(builders, client, { includeIndexes: false });
+      expect(queries.filter((q) => q.includes('ENABLE ROW LEVEL SECURITY'))).toEqual([
+        'ALTER TABLE "documents" ENABLE ROW LEVEL SECURITY',
+      ]);
+    });
+
+    test('a strategy with idempotent: false throws', async () => {
+      const options = { idempotent: false, strategy: 'alter' } as const;
+      expect(() => policiesToSQL([docsRead()], options)).toThrow(
+        "strategy: 'alter' replaces existing policies and can't be combined with idempotent: false"
+      );
+
+      const queries: string[] = [];
+      const client = { query: async (q: string) => { queries.push(q); } };
+      await expect(applyPolicies([docsRead()], client, options)).rejects.toThrow('idempotent: false');
+      expect(queries).toEqual([]);
+
+      const sql = policiesToSQL([docsRead()], { includeIndexes: false, idempotent: false });
+      expect(sql).not.toContain('DROP POLICY');
+    });
+  });
 });
@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { storage, policy, session } from '../src/index';
+
+describe('storage', () => {
+  test('ownerFolder scopes each operation to the user folder in the bucket', () => {
+    const ps = storage.bucket('avatars').ownerFolder();
+    expect(ps.map((p) => p.toDefinition().name)).toEqual([
+      'avatars_select_owner_folder',
+      'avatars_insert_owner_folder',
+      'avatars_update_owner_folder',
+      'avatars_delete_owner_folder',
+    ]);
+    expect(ps[2].toSQL()).toBe(
+      `CREATE POLICY "avatars_update_owner_folder" ON "storage"."objects" FOR UPDATE TO "authenticated" ` +
+        `USING (("bucket_id" = 'avatars' AND (storage.foldername("name"))[1] = (SELECT auth.uid())::text)) ` +
+        `WITH CHECK (("bucket_id" = 'avatars' AND (storage.foldername("name"))[1] = (SELECT auth.uid())::text))`
+    );
+  });
+
+  test('ownerFolder accepts operations, folder level and role', () => {
+    const [p] = storage
+      .bucket('docs')
+      .ownerFolder({ operations: ['INSERT'], level: 2, role: 'staff' });
+    expect(p.toSQL()).toBe(
+      `CREATE POLICY "docs_insert_owner_folder" ON "storage"."objects" FOR INSERT TO "staff" ` +
+        `WITH CHECK (("bucket_id" = 'docs' AND (storage.foldername("name"))[2] = (SELECT auth.uid())::text))`
+    );
+    expect(() => storage.folder(0)).toThrow('positive integer');
+  });
+
+  test('publicRead allows reading the whole bucket', () => {
+    const [p] = storage.bucket('public-assets').publicRead();
+    expect(p.toSQL()).toBe(
+      `CREATE POLICY "public_assets_select_public" ON "storage"."objects" FOR SELECT TO public USING ("bucket_id" = 'public-assets')`
+    );
+  });
+
+  test('path conditions combine with the bucket condition', () => {
+    const p = policy('team_images')
+      .on('storage.objects')
+      .write()
+      .to('authenticated')
+      .withCheck(
+        storage.bucket('teams').where(
+          storage
+            .folder(1)
+            .eq(session.get('app.team_id', 'uuid'))
+            .and(storage.extension().in(['png', 'jpg']))
+            .and(storage.filename().ilike('%.%'))
+        )
+      );
+    expect(p.toSQL()).toContain(
+      `WITH CHECK (("bucket_id" = 'teams' AND (storage.foldername("name"))[1] = current_setting('app.team_id', true)::UUID::text ` +
+        `AND storage.extension("name") IN ('png', 'jpg') AND storage.filename("name") ILIKE '%.%'))`
+    );
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { createRowguard } from '../src/typed';
+import type { ColumnNames } from '../src/typed';
+import type { Relationship } from '../src/introspect';
+import { now } from '../src/index';
 
 type TestDatabase = {
   public: {
@@ -222,6 +225,444 @@ describe('Typed policies', () => {
   });
 });
 
+// ─── Column value types ───────────────────────────────────────────────────────
+
+type DocumentsDatabase = {
+  public: {
+    Tables: {
+      documents: {
+        Row: {
+          id: string;
+          title: string;
+          status: 'draft' | 'published';
+          is_public: boolean;
+          views: number;
+          tags: string[];
+          metadata: Json;
+          archived_at: string | null;
+        };
+        Insert: Record<string, unknown>;
+        Update: Record<string, unknown>;
+      };
+    };
+  };
+};
+
+type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+describe('Typed column values', () => {
+  const rg = createRowguard<DocumentsDatabase>();
+  const doc = <C extends ColumnNames<DocumentsDatabase, 'documents'>>(c: C) => rg.column('documents', c);
+
+  it('accepts values matching the column type', () => {
+    expect(doc('is_public').eq(true).toSQL()).toBe('"documents"."is_public" = TRUE');
+    expect(doc('status').in(['draft', 'published']).toSQL()).toBe(
+      `"documents"."status" IN ('draft', 'published')`
+    );
+    expect(doc('views').gte(10).toSQL()).toBe('"documents"."views" >= 10');
+    expect(doc('archived_at').lt(new Date('2024-01-01T00:00:00Z')).toSQL()).toContain('"documents"."archived_at" <');
+    expect(doc('title').like('%rls%').toSQL()).toBe(`"documents"."title" LIKE '%rls%'`);
+    expect(doc('tags').contains('urgent').toSQL()).toContain('"documents"."tags" @>');
+    expect(doc('archived_at').isNull().toSQL()).toBe('"documents"."archived_at" IS NULL');
+    expect(doc('is_public').isPublic().toSQL()).toBe('"documents"."is_public" = TRUE');
+    expect(doc('id').eq(rg.auth.uid()).toSQL()).toBe('"documents"."id" = (SELECT auth.uid())');
+  });
+
+  it('rejects values and methods that do not fit the column type', () => {
+    // @ts-expect-error boolean column compared with a string
+    doc('is_public').eq('yes');
+    // @ts-expect-error number column compared with a string
+    doc('views').gt('10');
+    // @ts-expect-error not one of the enum values
+    doc('status').eq('deleted');
+    // @ts-expect-error null on a non-nullable column
+    doc('title').eq(null);
+    // @ts-expect-error like() needs a text column
+    doc('views').like('1%');
+    // @ts-expect-error contains() needs an array or JSON column
+    doc('title').contains('a');
+    // @ts-expect-error isNull() needs a nullable column
+    doc('title').isNull();
+    // @ts-expect-error isPublic() needs a boolean column
+    doc('title').isPublic();
+    doc('metadata').contains(['a']);
+    doc('archived_at').eq(null);
+    doc('views').gt(9007199254740993n);
+  });
+
+  it('casts values to the column types loaded from the database', () => {
+    const typed = createRowguard<DocumentsDatabase>({
+      columnTypes: [
+        { schema: 'public', table: 'documents', column: 'id', type: 'uuid' },
+        { schema: 'public', table: 'documents', column: 'title', type: 'text' },
+        { schema: 'public', table: 'documents', column: 'status', type: 'public.document_status' },
+        { schema: 'public', table: 'documents', column: 'views', type: 'int8' },
+        { schema: 'public', table: 'documents', column: 'archived_at', type: 'timestamptz' },
+      ],
+    });
+    const col = <C extends ColumnNames<DocumentsDatabase, 'documents'>>(c: C) => typed.column('documents', c);
+    expect(col('id').eq('1b4e28ba-2fa1-11d2-883f-0016d3cca427').toSQL()).toBe(
+      `"documents"."id" = '1b4e28ba-2fa1-11d2-883f-0016d3cca427'::uuid`
+    );
+    expect(col('status').in(['draft']).toSQL()).toBe(
+      `"documents"."status" IN ('draft'::"public"."document_status")`
+    );
+    expect(col('views').gt(9007199254740993n).toSQL()).toBe(`"documents"."views" > '9007199254740993'::int8`);
+    expect(col('views').gt(10).toSQL()).toBe('"documents"."views" > 10');
+    expect(col('archived_at').lt(new Date('2024-01-01T00:00:00Z')).toSQL()).toBe(
+      `"documents"."archived_at" < '2024-01-01T00:00:00.000Z'::timestamptz`
+    );
+    expect(col('archived_at').between(new Date('2024-01-01T00:00:00Z'), now()).toSQL()).toBe(
+      `("documents"."archived_at" >= '2024-01-01T00:00:00.000Z'::timestamptz AND "documents"."archived_at" <= now())`
+    );
+    // Text columns, context values and nulls are left alone
+    expect(col('title').eq('RLS').toSQL()).toBe(`"documents"."title" = 'RLS'`);
+    expect(col('id').eq(typed.auth.uid()).toSQL()).toBe('"documents"."id" = (SELECT auth.uid())');
+    expect(col('archived_at').eq(null).toSQL()).toBe('"documents"."archived_at" = NULL');
+    expect(
+      col('id')
+        .in(
+          typed
+            .from('documents', 'd')
+            .select('d.id')
+            .where((c) => c('d.status').eq('published'))
+        )
+        .toSQL()
+    ).toBe(
+      `"documents"."id" IN (SELECT "d"."id" FROM "documents" "d" WHERE "d"."status" = 'published'::"public"."document_status")`
+    );
+  });
+});
+
+// ─── Typed subqueries ─────────────────────────────────────────────────────────
+
+describe('Typed subqueries', () => {
+  const rg = createRowguard<TestDatabase>();
+
+  it('builds a subquery for in() on a typed column', () => {
+    const cond = rg.column('posts', 'user_id').in(
+      rg.from('project_members')
+        .select('user_id')
+        .where(rg.column('project_members', 'project_id').eq('p1'))
+    );
+    expect(cond.toSQL()).toBe(
+      `"posts"."user_id" IN (SELECT "user_id" FROM "project_members" WHERE "project_members"."project_id" = 'p1')`
+    );
+    const bare = rg.from('project_members', 'pm').select('project_id').where((col) => col('user_id').isOwner());
+    expect(bare.toSubquery().where!.toSQL()).toBe('"pm"."user_id" = (SELECT auth.uid())');
+  });
+
+  it('where() and join() callbacks reference tables by alias', () => {
+    const sub = rg.from('project_members', 'pm')
+      .select('pm.project_id')
+      .join('users', (col) => col('u.id').eq(col('pm.user_id')), 'inner', 'u')
+      .where((col) => col('pm.user_id').isOwner().and(col('u.email').like('%@example.com')));
+    expect(rg.column('posts', 'id').in(sub).toSQL()).toBe(
+      `"posts"."id" IN (SELECT "pm"."project_id" FROM "project_members" "pm" ` +
+        `INNER JOIN "users" "u" ON "u"."id" = "pm"."user_id" ` +
+        `WHERE ("pm"."user_id" = (SELECT auth.uid()) AND "u"."email" LIKE '%@example.com'))`
+    );
+  });
+
+  it('qualifies tables outside public', () => {
+    const billing = createRowguard<MultiSchemaDatabase, 'billing'>('billing');
+    const cond = billing.column('invoices', 'account_id').in(
+      billing.from('account_members')
+        .select('account_id')
+        .where(billing.column('account_members', 'user_id').isOwner())
+    );
+    expect(cond.toSQL()).toBe(
+      `"billing"."invoices"."account_id" IN (SELECT "account_id" FROM "billing"."account_members" ` +
+        `WHERE "billing"."account_members"."user_id" = (SELECT auth.uid()))`
+    );
+  });
+
+  it('rejects tables out of scope at runtime', () => {
+    expect(() =>
+      rg.from('project_members').select('project_id').where(rg.column('users', 'id').isOwner())
+    ).toThrow('Missing join(s) for table(s): users');
+  });
+
+  it('rejects unknown columns and incompatible selections', () => {
+    // @ts-expect-error 'email' is not a column of project_members
+    rg.from('project_members').select('email');
+    expect(() =>
+      // @ts-expect-error 'u' is not in scope before the join
+      rg.from('project_members', 'pm').where((col) => col('u.id').isOwner())
+    ).toThrow('Missing join');
+    // @ts-expect-error 'age' (number) can't match a string column
+    rg.column('posts', 'user_id').in(rg.from('users').select('age'));
+    // @ts-expect-error nothing selected
+    rg.column('posts', 'user_id').in(rg.from('users'));
+    rg.column('users', 'age').in(rg.from('users').select('age'));
+  });
+});
+
+// ─── Relationships ────────────────────────────────────────────────────────────
+
+type ProjectsDatabase = {
+  public: {
+    Tables: {
+      projects: {
+        Row: { id: string; owner_id: string };
+        Insert: { id?: string; owner_id: string };
+        Update: { id?: string; owner_id?: string };
+        Relationships: [];
+      };
+      project_members: {
+        Row: { project_id: string; user_id: string };
+        Insert: { project_id: string; user_id: string };
+        Update: { project_id?: string; user_id?: string };
+        Relationships: [
+          {
+            foreignKeyName: 'project_members_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tasks: {
+        Row: { id: string; project_id: string; review_project_id: string | null };
+        Insert: { id?: string; project_id: string; review_project_id?: string | null };
+        Update: { id?: string; project_id?: string; review_project_id?: string | null };
+        Relationships: [
+          {
+            foreignKeyName: 'tasks_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tasks_review_project_id_fkey';
+            columns: ['review_project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+  };
+};
+
+const projectRelationships: Relationship[] = [
+  {
+    schema: 'public',
+    table: 'project_members',
+    foreignKeyName: 'project_members_project_id_fkey',
+    columns: ['project_id'],
+    referencedSchema: 'public',
+    referencedRelation: 'projects',
+    referencedColumns: ['id'],
+  },
+  {
+    schema: 'public',
+    table: 'tasks',
+    foreignKeyName: 'tasks_project_id_fkey',
+    columns: ['project_id'],
+    referencedSchema: 'public',
+    referencedRelation: 'projects',
+    referencedColumns: ['id'],
+  },
+  {
+    schema: 'public',
+    table: 'tasks',
+    foreignKeyName: 'tasks_review_project_id_fkey',
+    columns: ['review_project_id'],
+    referencedSchema: 'public',
+    referencedRelation: 'projects',
+    referencedColumns: ['id'],
+  },
+];
+
+describe('Relationship-aware templates', () => {
+  const rg = createRowguard<ProjectsDatabase>({ relationships: projectRelationships });
+
+  it('inheritFrom follows the foreign key to the parent', () => {
+    const builders = rg.policies.inheritFrom({
+      table: 'tasks',
+      parent: 'projects',
+      foreignKey: 'tasks_project_id_fkey',
+      operations: ['SELECT'],
+    });
+    expect(builders).toHaveLength(1);
+    expect(builders[0].toSQL()).toBe(
+      'CREATE POLICY "tasks_select_inherit_projects" ON "tasks" FOR SELECT TO "authenticated" ' +
+        'USING (EXISTS (SELECT 1 FROM "projects" "parent" WHERE "parent"."id" = "tasks"."project_id"))'
+    );
+  });
+
+  it('inheritFrom requires an unambiguous foreign key', () => {
+    expect(() => rg.policies.inheritFrom({ table: 'tasks', parent: 'projects' })).toThrow(
+      'through 2 foreign keys; pass foreignKey'
+    );
+    expect(() => rg.policies.inheritFrom({ table: 'project_members', parent: 'projects', foreignKey: 'nope' as never }))
+      .toThrow('No foreign key from "project_members" to "projects" named "nope"');
+    expect(() => createRowguard<ProjectsDatabase>().policies.inheritFrom({ table: 'project_members', parent: 'projects' }))
+      .toThrow('loadRelationships');
+  });
+
+  it('membership infers key and localColumn', () => {
+    // project_members.project_id references projects.id
+    const [direct] = rg.policies.membership({ tables: ['projects'], via: 'project_members', operations: ['SELECT'] });
+    expect(direct.toSQL()).toContain(
+      'USING ("id" IN (SELECT "project_id" FROM "project_members" WHERE "user_id" = (SELECT auth.uid())))'
+    );
+    expect(() => rg.policies.membership({ tables: ['tasks'], via: 'project_members' })).toThrow(
+      '(2 candidates); pass key and localColumn'
+    );
+  });
+
+  it('membership infers keys through a shared parent', () => {
+    const single = createRowguard<ProjectsDatabase>({ relationships: projectRelationships.slice(0, 2) });
+    const [p] = single.policies.membership({ tables: ['tasks'], via: 'project_members', operations: ['SELECT'] });
+    expect(p.toSQL()).toContain(
+      'USING ("project_id" IN (SELECT "project_id" FROM "project_members" WHERE "user_id" = (SELECT auth.uid())))'
+    );
+  });
+
+  it('takes the generated Relationships arrays without a database', () => {
+    const offline = createRowguard<ProjectsDatabase>({
+      relationships: {
+        project_members: [
+          {
+            foreignKeyName: 'project_members_project_id_fkey',
+            columns: ['project_id'],
+            isOneToOne: false,
+            referencedRelation: 'projects',
+            referencedColumns: ['id'],
+          },
+        ],
+        tasks: [
+          {
+            foreignKeyName: 'tasks_project_id_fkey',
+            columns: ['project_id'],
+            isOneToOne: false,
+            referencedRelation: 'projects',
+            referencedColumns: ['id'],
+          },
+        ],
+      },
+    });
+    expect(offline.policies.inheritFrom({ table: 'tasks', parent: 'projects', operations: ['SELECT'] })[0].toSQL()).toBe(
+      rg.policies.inheritFrom({ table: 'tasks', parent: 'projects', foreignKey: 'tasks_project_id_fkey', operations: ['SELECT'] })[0].toSQL()
+    );
+    const [p] = offline.policies.membership({ tables: ['tasks'], via: 'project_members', operations: ['SELECT'] });
+    expect(p.toSQL()).toContain('USING ("project_id" IN (SELECT "project_id" FROM "project_members"');
+
+    createRowguard<ProjectsDatabase>({
+      // @ts-expect-error entries must match the generated Relationships
+      relationships: {
+        tasks: [
+          {
+            foreignKeyName: 'tasks_project_id_fkey',
+            columns: ['review_project_id'],
+            isOneToOne: false,
+            referencedRelation: 'projects',
+            referencedColumns: ['id'],
+          },
+        ],
+      },
+    });
+  });
+
+  it('narrows parent and foreignKey to the generated relationships', () => {
+    // @ts-expect-error tasks has no foreign key to project_members
+    expect(() => rg.policies.inheritFrom({ table: 'tasks', parent: 'project_members' })).toThrow();
+    // @ts-expect-error not a foreign key from tasks to projects
+    expect(() => rg.policies.inheritFrom({ table: 'tasks', parent: 'projects', foreignKey: 'other_fkey' })).toThrow();
+  });
+});
+
+// ─── Multiple schemas ─────────────────────────────────────────────────────────
+
+type MultiSchemaDatabase = TestDatabase & {
+  billing: {
+    Tables: {
+      invoices: {
+        Row: { id: string; customer_id: string; account_id: string; total: number };
+        Insert: { id?: string; customer_id: string; account_id: string; total: number };
+        Update: { id?: string; customer_id?: string; account_id?: string; total?: number };
+      };
+      account_members: {
+        Row: { account_id: string; user_id: string; role: string };
+        Insert: { account_id: string; user_id: string; role: string };
+        Update: { account_id?: string; user_id?: string; role?: string };
+      };
+      exchange_rates: {
+        Row: { currency: string; rate: number };
+      };
+    };
+    Views: {
+      invoice_totals: { Row: { customer_id: string; total: number } };
+    };
+  };
+};
+
+describe('Typed schemas', () => {
+  const rg = createRowguard<MultiSchemaDatabase>();
+  const billing = createRowguard<MultiSchemaDatabase, 'billing'>('billing');
+
+  it('qualifies tables and columns outside public', () => {
+    const p = billing.policy('invoice_owner').on('invoices').read()
+      .when(billing.column('invoices', 'customer_id').isOwner());
+    expect(p.toSQL()).toBe(
+      'CREATE POLICY "invoice_owner" ON "billing"."invoices" FOR SELECT USING ("billing"."invoices"."customer_id" = (SELECT auth.uid()))'
+    );
+    expect(p.indexStatements()).toEqual([
+      'CREATE INDEX IF NOT EXISTS "idx_billing_invoices_customer_id" ON "billing"."invoices" ("customer_id");',
+    ]);
+  });
+
+  it('rg.schema() switches schema', () => {
+    const p = rg.schema('billing').policy('p').on('account_members').read()
+      .when(rg.schema('billing').column('account_members', 'user_id').isOwner());
+    expect(p.toSQL()).toContain('ON "billing"."account_members"');
+    expect(rg.policy('p').on('posts').read().toDefinition().table).toBe('posts');
+  });
+
+  it('qualifies template tables and membership tables', () => {
+    const [owned] = billing.policies.owned({ tables: ['invoices'], userColumn: 'customer_id', operations: ['SELECT'] });
+    expect(owned.toDefinition().name).toBe('billing_invoices_select_owner');
+    expect(owned.toSQL()).toContain('ON "billing"."invoices"');
+
+    const [member] = billing.policies.membership({
+      tables: ['invoices'],
+      via: 'account_members',
+      key: 'account_id',
+      localColumn: 'account_id',
+      operations: ['SELECT'],
+    });
+    expect(member.toSQL()).toContain(
+      'USING ("account_id" IN (SELECT "account_id" FROM "billing"."account_members" WHERE "user_id" = (SELECT auth.uid())))'
+    );
+
+    const [admin] = billing.policies.admin({
+      tables: ['invoices'],
+      is: ['owner', 'accountant'],
+      via: { table: 'account_members' },
+      operations: ['SELECT'],
+    });
+    expect(admin.toSQL()).toContain('FROM "billing"."account_members" WHERE "user_id"');
+  });
+
+  it('rejects views, read-only foreign tables and other schemas', () => {
+    // @ts-expect-error views are not policy targets
+    billing.policy('p').on('invoice_totals');
+    // @ts-expect-error exchange_rates has no Insert type (foreign table)
+    billing.policy('p').on('exchange_rates');
+    // @ts-expect-error invoices is in billing, not public
+    rg.policy('p').on('invoices');
+    // @ts-expect-error posts is in public, not billing
+    billing.column('posts', 'id');
+    // @ts-expect-error no such schema
+    rg.schema('nonexistent');
+  });
+});
+
 // ─── Compile-time type checks ─────────────────────────────────────────────────
 // These tests prove the type constraints are enforced at compile time.
 // @ts-expect-error lines must trigger a TypeScript error — if they don't, the test fails.
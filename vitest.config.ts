@@ -11,7 +11,22 @@ export default defineConfig({
     exclude: ['**/node_modules/**', '**/dist/**'],
     include: isIntegration
       ? ['tests/integration.test.ts']
-      : ['tests/sql-generation.test.ts', 'tests/typed.test.ts'],
+      : [
+          'tests/sql-generation.test.ts',
+          'tests/typed.test.ts',
+          'tests/introspect.test.ts',
+          'tests/diff.test.ts',
+          'tests/parser.test.ts',
+          'tests/codegen.test.ts',
+          'tests/evaluate.test.ts',
+          'tests/access-matrix.test.ts',
+          'tests/lint.test.ts',
+          'tests/index-audit.test.ts',
+          'tests/storage.test.ts',
+          'tests/realtime.test.ts',
+          'tests/functions.test.ts',
+          'tests/grants.test.ts',
+        ],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'html', 'json-summary'],